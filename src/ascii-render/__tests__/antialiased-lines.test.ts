@@ -0,0 +1,81 @@
+/**
+ * Tests for anti-aliased lines (LineStyle.antialias)
+ * Verifies that coverage is written to alpha and blended by the mapper
+ */
+
+import { describe, expect, test } from "bun:test";
+import { AsciiRenderer, BufferFormat, mapRegionToPattern, rgb, SymbolSet } from "../index";
+
+const BLACK = { r: 0, g: 0, b: 0, a: 255 };
+const WHITE = rgb(255, 255, 255);
+
+describe("Anti-aliased lines", () => {
+	const renderer = new AsciiRenderer({
+		symbolSet: SymbolSet.BRAILLE,
+		threshold: 128,
+	});
+
+	test("coverage in each column sums to one", () => {
+		const buffer = renderer.createBuffer(12, 6, BLACK, BufferFormat.RGBA);
+		renderer.drawLine(buffer, 0, 0, 11, 4, WHITE, { antialias: true });
+
+		for (let x = 0; x < 12; x++) {
+			let coverage = 0;
+			for (let y = 0; y < 6; y++) {
+				const pixel = renderer.getPixel(buffer, x, y);
+				if (pixel?.r === 255) coverage += pixel.a ?? 255;
+			}
+			expect(Math.abs(coverage - 255)).toBeLessThanOrEqual(1);
+		}
+	});
+
+	test("partial pixels keep the line color and store coverage in alpha", () => {
+		const buffer = renderer.createBuffer(4, 4, BLACK, BufferFormat.RGBA);
+		renderer.drawLine(buffer, 0, 0, 3, 1, rgb(0, 255, 100), { antialias: true });
+
+		const pixel = renderer.getPixel(buffer, 1, 0);
+		expect(pixel).toEqual({ r: 0, g: 255, b: 100, a: 170 });
+		expect(renderer.getPixel(buffer, 1, 1)).toEqual({ r: 0, g: 255, b: 100, a: 85 });
+	});
+
+	test("axis-aligned lines are fully covered", () => {
+		const buffer = renderer.createBuffer(6, 3, BLACK, BufferFormat.RGBA);
+		renderer.drawLine(buffer, 0, 1, 5, 1, WHITE, { antialias: true });
+
+		for (let x = 0; x < 6; x++) {
+			expect(renderer.getPixel(buffer, x, 1)).toEqual({ r: 255, g: 255, b: 255, a: 255 });
+			expect(renderer.getPixel(buffer, x, 0)).toEqual(BLACK);
+		}
+	});
+
+	test("mapper blends partially covered pixels over the cell background", () => {
+		const buffer = renderer.createBuffer(2, 2, rgb(0, 0, 100, 255), BufferFormat.RGBA);
+		renderer.setPixel(buffer, 0, 0, rgb(255, 255, 255, 191));
+		renderer.setPixel(buffer, 1, 0, rgb(255, 255, 255, 64));
+
+		const { pattern, fg, bg } = mapRegionToPattern(buffer, 0, 0, 2, 2, 128);
+		expect(pattern).toBe(0b0001);
+		expect(fg).toEqual({ r: 191, g: 191, b: 216, a: 255 });
+		expect(bg.b).toBeGreaterThan(100);
+		expect(bg.r).toBeGreaterThan(0);
+		expect(bg.r).toBeLessThan(64);
+	});
+
+	test("crossing anti-aliased lines combine coverage instead of erasing it", () => {
+		const buffer = renderer.createBuffer(8, 8, BLACK, BufferFormat.RGBA);
+		renderer.drawLine(buffer, 0, 3, 7, 4, WHITE, { antialias: true });
+		const before = renderer.getPixel(buffer, 4, 3)?.a ?? 0;
+		renderer.drawLine(buffer, 3, 0, 4, 7, WHITE, { antialias: true });
+
+		expect(renderer.getPixel(buffer, 4, 3)?.a ?? 0).toBeGreaterThanOrEqual(before);
+	});
+
+	test("should render anti-aliased diagonal and thick lines", () => {
+		const buffer = renderer.createBuffer(16, 12, BLACK, BufferFormat.RGBA);
+		renderer.drawLine(buffer, 0, 0, 15, 6, rgb(0, 255, 100), { antialias: true });
+		renderer.drawLine(buffer, 1, 11, 14, 5, WHITE, { antialias: true, thickness: 2 });
+
+		const output = renderer.render(buffer);
+		expect(output).toMatchSnapshot();
+	});
+});
@@ -0,0 +1,79 @@
+/**
+ * Tests for the ASCII density ramp (SymbolSet.ASCII)
+ * Verifies that characters follow brightness and coverage along the ramp
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	ASCII_RAMPS,
+	AsciiRenderer,
+	BufferFormat,
+	ColorMode,
+	mapPixelsToCells,
+	rgb,
+	SymbolSet,
+} from "../index";
+
+const BLACK = { r: 0, g: 0, b: 0, a: 255 };
+
+describe("ASCII density ramp", () => {
+	const renderer = new AsciiRenderer({
+		symbolSet: SymbolSet.ASCII,
+		colorMode: ColorMode.NONE,
+	});
+
+	/**
+	 * One row of gray pixels stepping from black to white
+	 */
+	function grayRamp(steps: number) {
+		const buffer = renderer.createBuffer(steps, 1, BLACK, BufferFormat.RGBA);
+		for (let x = 0; x < steps; x++) {
+			const level = Math.round((x * 255) / (steps - 1));
+			renderer.setPixel(buffer, x, 0, rgb(level, level, level));
+		}
+		return buffer;
+	}
+
+	test("a gray gradient walks the standard ramp from light to dark", () => {
+		expect(renderer.render(grayRamp(10))).toBe(ASCII_RAMPS.standard);
+	});
+
+	test("custom ramps and inversion", () => {
+		const buffer = grayRamp(4);
+
+		expect(renderer.render(buffer, { ramp: " .oO" })).toBe(" .oO");
+		expect(renderer.render(buffer, { ramp: " .oO", invertRamp: true })).toBe("Oo. ");
+		expect(renderer.render(buffer, { ramp: ASCII_RAMPS.short })).toBe(" -*@");
+	});
+
+	test("alpha coverage lightens the character and color is kept as fg", () => {
+		const buffer = renderer.createBuffer(3, 1, BLACK, BufferFormat.RGBA);
+		renderer.setPixel(buffer, 0, 0, rgb(255, 0, 0));
+		renderer.setPixel(buffer, 1, 0, rgb(255, 255, 255, 128));
+		renderer.setPixel(buffer, 2, 0, rgb(255, 255, 255, 0));
+
+		const [row] = mapPixelsToCells(buffer, SymbolSet.ASCII, 128, { ramp: "0123456789" });
+		expect(row?.map((cell) => cell.char).join("")).toBe("250");
+		expect(row?.[0]?.fg).toEqual({ r: 255, g: 0, b: 0, a: 255 });
+		expect(row?.[0]?.bg).toEqual(BLACK);
+	});
+
+	test("threshold does not hide dim pixels", () => {
+		const buffer = renderer.createBuffer(1, 1, rgb(60, 60, 60), BufferFormat.RGBA);
+
+		expect(renderer.render(buffer, { threshold: 200, ramp: ASCII_RAMPS.short })).toBe(":");
+	});
+
+	test("empty ramps are rejected", () => {
+		expect(() => renderer.render(grayRamp(2), { ramp: "" })).toThrow();
+	});
+
+	test("renders a shaded scene with the long ramp", () => {
+		const buffer = renderer.createBuffer(24, 8, BLACK, BufferFormat.RGBA);
+		renderer.drawCircle(buffer, 12, 4, 3, rgb(200, 200, 200), true);
+		renderer.drawLine(buffer, 0, 7, 23, 0, rgb(90, 140, 255));
+		renderer.drawRect(buffer, 1, 1, 6, 4, rgb(120, 60, 60));
+
+		expect(renderer.render(buffer, { ramp: ASCII_RAMPS.long })).toMatchSnapshot();
+	});
+});
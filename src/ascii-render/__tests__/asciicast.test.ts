@@ -0,0 +1,127 @@
+/**
+ * Tests for the asciicast v2 recorder and player
+ * Verifies file format, timestamps and playback controls without a terminal
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	AsciicastPlayer,
+	AsciicastRecorder,
+	AsciiRenderer,
+	FRAME_START,
+	FrameEncoder,
+	mapPixelsToCells,
+	parseAsciicast,
+	rgb,
+	SymbolSet,
+} from "../index";
+
+describe("Asciicast recorder", () => {
+	test("writes a v2 header and one output event per frame", () => {
+		const recorder = new AsciicastRecorder({ width: 4, height: 2, title: "demo" });
+		recorder.record("ab\ncd", 0);
+		recorder.record("ef\ngh", 0.5);
+
+		const lines = recorder.toString().trimEnd().split("\n");
+		expect(JSON.parse(lines[0] ?? "")).toEqual({ version: 2, width: 4, height: 2, title: "demo" });
+		expect(JSON.parse(lines[1] ?? "")).toEqual([0, "o", `${FRAME_START}ab\r\ncd\x1b[J`]);
+		expect(JSON.parse(lines[2] ?? "")).toEqual([0.5, "o", `${FRAME_START}ef\r\ngh\x1b[J`]);
+	});
+
+	test("uses the clock relative to the first event when no time is given", () => {
+		let now = 100;
+		const recorder = new AsciicastRecorder({ width: 1, height: 1, clock: () => now });
+		recorder.write("a");
+		now = 100.25;
+		recorder.write("b");
+
+		expect(recorder.toAsciicast().events.map(([t]) => t)).toEqual([0, 0.25]);
+	});
+
+	test("rejects events that go back in time and invalid sizes", () => {
+		const recorder = new AsciicastRecorder({ width: 1, height: 1 });
+		recorder.write("a", 1);
+		expect(() => recorder.write("b", 0.5)).toThrow();
+		expect(() => new AsciicastRecorder({ width: 0, height: 1 })).toThrow();
+	});
+
+	test("round-trips through the parser, including FrameEncoder output", () => {
+		const renderer = new AsciiRenderer({ symbolSet: SymbolSet.HALF });
+		const encoder = new FrameEncoder();
+		const recorder = new AsciicastRecorder({ width: 4, height: 2 });
+		const buffer = renderer.createBuffer(4, 4);
+		for (let frame = 0; frame < 3; frame++) {
+			renderer.setPixel(buffer, frame, frame, rgb(255, 255, 255));
+			recorder.write(encoder.encode(mapPixelsToCells(buffer, SymbolSet.HALF, 128)).output, frame);
+		}
+
+		const cast = parseAsciicast(recorder.toString());
+		expect(cast).toEqual(recorder.toAsciicast());
+		expect(cast.events).toHaveLength(3);
+	});
+
+	test("parser rejects other versions and malformed events", () => {
+		expect(() => parseAsciicast('{"version":1,"width":1,"height":1}')).toThrow();
+		expect(() => parseAsciicast('{"version":2,"width":1,"height":1}\n[0,"o"]')).toThrow();
+		expect(() => parseAsciicast("")).toThrow();
+	});
+});
+
+describe("Asciicast player", () => {
+	function createCast() {
+		const recorder = new AsciicastRecorder({ width: 2, height: 1 });
+		recorder.record("A", 0);
+		recorder.write("x", 0.5);
+		recorder.record("B", 1);
+		recorder.record("C", 2);
+		return recorder.toAsciicast();
+	}
+
+	test("output reproduces the screen from the latest full frame", () => {
+		const player = new AsciicastPlayer(createCast());
+		expect(player.output).toBe(`${FRAME_START}A\x1b[J`);
+
+		player.advance(0.6);
+		expect(player.output).toBe(`${FRAME_START}A\x1b[Jx`);
+
+		player.advance(0.5);
+		expect(player.output).toBe(`${FRAME_START}B\x1b[J`);
+	});
+
+	test("speed scales time and pause stops it", () => {
+		const player = new AsciicastPlayer(createCast(), { speed: 2 });
+		expect(player.advance(0.5)).toBe(true);
+		expect(player.time).toBe(1);
+
+		player.pause();
+		expect(player.advance(10)).toBe(false);
+		expect(player.time).toBe(1);
+
+		player.resume();
+		player.setSpeed(0.5);
+		player.advance(2);
+		expect(player.time).toBe(2);
+		expect(player.finished).toBe(true);
+		expect(() => player.setSpeed(0)).toThrow();
+	});
+
+	test("step pauses and moves one event at a time", () => {
+		const player = new AsciicastPlayer(createCast());
+		player.step();
+		expect(player.paused).toBe(true);
+		expect(player.time).toBe(0.5);
+		player.step();
+		expect(player.output).toBe(`${FRAME_START}B\x1b[J`);
+		player.step(-1);
+		expect(player.output).toBe(`${FRAME_START}A\x1b[Jx`);
+	});
+
+	test("looping wraps around to the start", () => {
+		const player = new AsciicastPlayer(createCast(), { loop: true });
+		player.advance(2.25);
+
+		expect(player.time).toBe(0.25);
+		expect(player.finished).toBe(false);
+		expect(player.output).toBe(`${FRAME_START}A\x1b[J`);
+	});
+});
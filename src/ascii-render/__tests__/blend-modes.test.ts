@@ -0,0 +1,132 @@
+/**
+ * Tests for blend modes (AsciiRenderer.setBlendMode, blendWithMode)
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	AsciiRenderer,
+	BlendMode,
+	BufferFormat,
+	blendWithMode,
+	type PixelBuffer,
+	rgb,
+	TRANSPARENT,
+} from "../index";
+
+const WHITE = rgb(255, 255, 255, 255);
+
+describe("blendWithMode", () => {
+	test("applies each separable mode to opaque colors", () => {
+		const fg = rgb(200, 128, 0, 255);
+		const bg = rgb(100, 255, 64, 255);
+		expect(blendWithMode(fg, bg, BlendMode.REPLACE)).toEqual(fg);
+		expect(blendWithMode(fg, bg, BlendMode.SOURCE_OVER)).toEqual(fg);
+		expect(blendWithMode(fg, bg, BlendMode.ADD)).toEqual(rgb(255, 255, 64, 255));
+		expect(blendWithMode(fg, bg, BlendMode.MULTIPLY)).toEqual(rgb(78, 128, 0, 255));
+		expect(blendWithMode(fg, bg, BlendMode.SCREEN)).toEqual(rgb(222, 255, 64, 255));
+		expect(blendWithMode(fg, bg, BlendMode.MAX)).toEqual(rgb(200, 255, 64, 255));
+	});
+
+	test("composites by alpha", () => {
+		const bg = rgb(0, 0, 200, 255);
+		expect(blendWithMode(rgb(255, 0, 0, 128), bg, BlendMode.ADD)).toEqual(rgb(128, 0, 200, 255));
+		expect(blendWithMode(rgb(255, 0, 0, 0), bg, BlendMode.MULTIPLY)).toEqual(bg);
+		// Over a transparent pixel the color itself remains
+		expect(blendWithMode(rgb(10, 20, 30, 100), TRANSPARENT, BlendMode.MULTIPLY)).toEqual(
+			rgb(10, 20, 30, 100),
+		);
+	});
+});
+
+describe("Blend modes on draw calls", () => {
+	test("REPLACE is the default and stores alpha as given", () => {
+		const renderer = new AsciiRenderer();
+		const buffer = renderer.createBuffer(2, 1, rgb(0, 0, 255, 255));
+		renderer.setPixel(buffer, 0, 0, rgb(255, 0, 0, 128));
+
+		expect(renderer.getBlendMode()).toBe(BlendMode.REPLACE);
+		expect(buffer[0]?.[0]).toEqual(rgb(255, 0, 0, 128));
+	});
+
+	test("translucent shapes blend each pixel once", () => {
+		const renderer = new AsciiRenderer();
+		renderer.setBlendMode(BlendMode.SOURCE_OVER);
+		const red = rgb(255, 0, 0, 128);
+		const expected = rgb(128, 0, 0, 255);
+
+		const shapes = [
+			(b: PixelBuffer) => renderer.drawCircle(b, 6, 6, 4, red, true),
+			(b: PixelBuffer) => renderer.drawCircle(b, 6, 6, 4, red),
+			(b: PixelBuffer) => renderer.drawRect(b, 1, 1, 10, 8, red),
+			(b: PixelBuffer) =>
+				renderer.drawPolygon(
+					b,
+					[
+						{ x: 1, y: 1 },
+						{ x: 10, y: 2 },
+						{ x: 4, y: 10 },
+					],
+					red,
+				),
+		];
+		for (const draw of shapes) {
+			const buffer = renderer.createBuffer(13, 13);
+			draw(buffer);
+			const colors = new Set(
+				buffer.flat().flatMap((c) => (c.r > 0 ? [`${c.r},${c.g},${c.b},${c.a}`] : [])),
+			);
+			expect([...colors]).toEqual([`${expected.r},0,0,255`]);
+		}
+	});
+
+	test("additive strokes brighten where they cross", () => {
+		const renderer = new AsciiRenderer();
+		renderer.setBlendMode(BlendMode.ADD);
+		const buffer = renderer.createBuffer(5, 5);
+		const dim = rgb(100, 60, 0);
+		renderer.drawLine(buffer, 0, 2, 4, 2, dim);
+		renderer.drawLine(buffer, 2, 0, 2, 4, dim);
+
+		expect(buffer[2]?.[2]).toEqual(rgb(200, 120, 0, 255));
+		expect(buffer[2]?.[0]).toEqual(rgb(100, 60, 0, 255));
+	});
+
+	test("anti-aliased strokes blend by coverage", () => {
+		const renderer = new AsciiRenderer();
+		renderer.setBlendMode(BlendMode.ADD);
+		const buffer = renderer.createBuffer(8, 4, rgb(0, 0, 100, 255));
+		renderer.drawLine(buffer, 0, 1.25, 7, 1.25, WHITE, { antialias: true });
+
+		// Opaque results: coverage went into the blend instead of the alpha channel
+		for (const row of buffer) {
+			for (const c of row) expect(c.a).toBe(255);
+		}
+		expect(buffer[1]?.[3]?.r).toBeGreaterThan(buffer[2]?.[3]?.r ?? 255);
+		expect(buffer[1]?.[3]?.b).toBeGreaterThan(100);
+	});
+
+	test("save and restore the blend mode", () => {
+		const renderer = new AsciiRenderer();
+		renderer.save();
+		renderer.setBlendMode(BlendMode.MULTIPLY);
+		renderer.restore();
+		expect(renderer.getBlendMode()).toBe(BlendMode.REPLACE);
+	});
+
+	test("packed buffers blend the same as nested arrays", () => {
+		const renderer = new AsciiRenderer();
+		renderer.setBlendMode(BlendMode.SCREEN);
+		const nested = renderer.createBuffer(6, 6, rgb(40, 80, 120, 255));
+		const packed = renderer.createBuffer(6, 6, rgb(40, 80, 120, 255), BufferFormat.RGBA);
+		for (const buffer of [nested, packed]) {
+			renderer.drawRect(buffer, 1, 1, 4, 4, rgb(200, 100, 0, 200), true);
+			renderer.drawCircle(buffer, 3, 3, 2, rgb(0, 255, 50, 90));
+		}
+
+		for (let y = 0; y < 6; y++) {
+			for (let x = 0; x < 6; x++) {
+				expect(renderer.getPixel(packed, x, y)).toEqual(renderer.getPixel(nested, x, y));
+			}
+		}
+	});
+});
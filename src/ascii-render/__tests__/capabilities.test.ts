@@ -0,0 +1,258 @@
+/**
+ * Tests for terminal capability detection
+ * Verifies detection from canned environments, refinement from canned
+ * query replies and the recommended render options
+ */
+
+import { describe, expect, test } from "bun:test";
+import { EventEmitter } from "node:events";
+import {
+	ColorMode,
+	createTerminalQuery,
+	detectCapabilities,
+	queryCapabilities,
+	recommendOptions,
+	SymbolSet,
+	type TerminalCapabilities,
+	type TerminalQuery,
+} from "../index";
+
+/** Environments of common setups */
+const ENVIRONMENTS = {
+	kitty: { TERM: "xterm-kitty", KITTY_WINDOW_ID: "1", LANG: "en_US.UTF-8" },
+	ghosttyInTmux: {
+		TERM: "tmux-256color",
+		TERM_PROGRAM: "tmux",
+		TMUX: "/tmp/tmux-1000/default,123,0",
+		COLORTERM: "truecolor",
+		GHOSTTY_RESOURCES_DIR: "/usr/share/ghostty",
+		LANG: "en_US.UTF-8",
+	},
+	vscode: { TERM: "xterm-256color", TERM_PROGRAM: "vscode", COLORTERM: "truecolor" },
+	appleTerminal: { TERM: "xterm-256color", TERM_PROGRAM: "Apple_Terminal", LANG: "en_US.UTF-8" },
+	xterm: { TERM: "xterm", LANG: "C" },
+	screen: { TERM: "screen", STY: "123.pts-0", COLORTERM: "truecolor", LC_ALL: "de_DE.utf8" },
+	linuxConsole: { TERM: "linux", LANG: "en_US.UTF-8" },
+	noColor: { TERM: "xterm-kitty", NO_COLOR: "1" },
+	dumb: { TERM: "dumb" },
+};
+
+/**
+ * A TerminalQuery that answers with a canned reply and records the request
+ */
+function cannedQuery(reply: string): TerminalQuery & { requests: string[] } {
+	const requests: string[] = [];
+	const query = async (request: string) => {
+		requests.push(request);
+		return reply;
+	};
+	return Object.assign(query, { requests });
+}
+
+/**
+ * Fake terminal streams whose terminal sends the reply after a delay, or
+ * never with a null reply
+ */
+function fakeTerminal(reply: string | null, delayMs = 0) {
+	const input = Object.assign(new EventEmitter(), {
+		isTTY: true,
+		isRaw: false,
+		setRawMode(raw: boolean) {
+			input.isRaw = raw;
+			return input;
+		},
+		pause: () => input,
+		resume: () => input,
+	});
+	const output = {
+		isTTY: true,
+		write: () => reply !== null && setTimeout(() => input.emit("data", reply), delayMs),
+	};
+	return {
+		input,
+		query: createTerminalQuery(
+			input as unknown as NodeJS.ReadStream,
+			output as unknown as NodeJS.WriteStream,
+			100,
+		),
+	};
+}
+
+/** Capabilities of an unrecognized terminal */
+const PLAIN: TerminalCapabilities = detectCapabilities(ENVIRONMENTS.xterm);
+
+describe("Detection from the environment", () => {
+	test("recognizes terminals and their glyphs", () => {
+		expect(detectCapabilities(ENVIRONMENTS.kitty)).toEqual({
+			terminal: "kitty",
+			multiplexer: null,
+			colorMode: ColorMode.TRUECOLOR,
+			symbolSets: [
+				SymbolSet.ASCII,
+				SymbolSet.HALF,
+				SymbolSet.QUADRANT,
+				SymbolSet.BRAILLE,
+				SymbolSet.SEXTANT,
+				SymbolSet.OCTANT,
+			],
+			kittyGraphics: true,
+			sixel: false,
+		});
+		expect(detectCapabilities(ENVIRONMENTS.vscode).symbolSets).toContain(SymbolSet.SEXTANT);
+		expect(detectCapabilities(ENVIRONMENTS.appleTerminal)).toMatchObject({
+			terminal: "apple-terminal",
+			colorMode: ColorMode.ANSI256,
+		});
+	});
+
+	test("sees through multiplexers but drops graphics under them", () => {
+		expect(detectCapabilities(ENVIRONMENTS.ghosttyInTmux)).toMatchObject({
+			terminal: "ghostty",
+			multiplexer: "tmux",
+			colorMode: ColorMode.TRUECOLOR,
+			kittyGraphics: false,
+		});
+		// GNU screen has no 24-bit color
+		expect(detectCapabilities(ENVIRONMENTS.screen)).toMatchObject({
+			terminal: null,
+			multiplexer: "screen",
+			colorMode: ColorMode.ANSI256,
+			symbolSets: [SymbolSet.ASCII, SymbolSet.HALF, SymbolSet.QUADRANT, SymbolSet.BRAILLE],
+		});
+	});
+
+	test("falls back for plain terminals, the console and NO_COLOR", () => {
+		expect(PLAIN).toMatchObject({ colorMode: ColorMode.ANSI16, symbolSets: [SymbolSet.ASCII] });
+		expect(detectCapabilities(ENVIRONMENTS.linuxConsole).symbolSets).toEqual([
+			SymbolSet.ASCII,
+			SymbolSet.HALF,
+		]);
+		expect(detectCapabilities(ENVIRONMENTS.noColor).colorMode).toBe(ColorMode.NONE);
+		expect(detectCapabilities(ENVIRONMENTS.dumb).colorMode).toBe(ColorMode.NONE);
+	});
+});
+
+describe("Terminal queries", () => {
+	test("ask for Kitty graphics, XTGETTCAP and DA1 last", async () => {
+		const query = cannedQuery("");
+		await queryCapabilities(query, PLAIN);
+
+		const [request = ""] = query.requests;
+		expect(request.startsWith("\x1b_G")).toBe(true);
+		expect(request).toContain("\x1bP+q524742\x1b\\");
+		expect(request.endsWith("\x1b[c")).toBe(true);
+	});
+
+	test("confirm truecolor, Kitty graphics and Sixel from the replies", async () => {
+		const reply = [
+			"\x1b_Gi=31;OK\x1b\\",
+			"\x1bP1+r524742\x1b\\",
+			"\x1bP0+r\x1b\\",
+			"\x1b[?62;4;22c",
+		].join("");
+		const capabilities = await queryCapabilities(cannedQuery(reply), PLAIN);
+
+		expect(capabilities).toMatchObject({
+			colorMode: ColorMode.TRUECOLOR,
+			kittyGraphics: true,
+			sixel: true,
+		});
+		expect(PLAIN.colorMode).toBe(ColorMode.ANSI16);
+	});
+
+	test("keep graphics off under multiplexers whatever they answer", async () => {
+		const reply = "\x1b_Gi=31;OK\x1b\\\x1bP1+r524742\x1b\\\x1b[?62;4;22c";
+		const tmux = detectCapabilities({ ...ENVIRONMENTS.ghosttyInTmux, COLORTERM: undefined });
+		const capabilities = await queryCapabilities(cannedQuery(reply), tmux);
+
+		expect(capabilities).toMatchObject({
+			colorMode: ColorMode.TRUECOLOR,
+			kittyGraphics: false,
+			sixel: false,
+		});
+	});
+
+	test("read the color count", async () => {
+		// colors=256, hex-encoded
+		const reply = "\x1bP1+r636f6c6f7273=323536\x1b\\\x1b[?62;22c";
+		const capabilities = await queryCapabilities(cannedQuery(reply), PLAIN);
+
+		expect(capabilities).toMatchObject({ colorMode: ColorMode.ANSI256, sixel: false });
+	});
+
+	test("keep the detected capabilities without replies or with NO_COLOR", async () => {
+		expect(await queryCapabilities(cannedQuery(""), PLAIN)).toEqual(PLAIN);
+
+		const noColor = detectCapabilities(ENVIRONMENTS.noColor);
+		const reply = "\x1bP1+r5463\x1b\\\x1b[?62c";
+		expect((await queryCapabilities(cannedQuery(reply), noColor)).colorMode).toBe(ColorMode.NONE);
+	});
+
+	test("send nothing to streams that are not terminals", async () => {
+		const written: string[] = [];
+		const input = { isTTY: false } as NodeJS.ReadStream;
+		const output = { isTTY: false, write: (data: string) => written.push(data) };
+		const query = createTerminalQuery(input, output as unknown as NodeJS.WriteStream);
+
+		expect(await query("\x1b[c", 1000)).toBe("");
+		expect(written).toEqual([]);
+	});
+
+	test("read replies from terminals and restore the input mode", async () => {
+		const { input, query } = fakeTerminal("\x1b[?62;4c");
+
+		expect(await query("\x1b[c", 50)).toBe("\x1b[?62;4c");
+		expect(input.isRaw).toBe(false);
+		expect(input.listenerCount("data")).toBe(0);
+	});
+
+	test("discard replies that arrive after the timeout", async () => {
+		const { input, query } = fakeTerminal("\x1bP1+r5463\x1b\\\x1b[?62;4c", 20);
+		let arrived = false;
+		input.on("data", () => {
+			arrived = true;
+		});
+
+		expect(await query("\x1b[c", 5)).toBe("");
+		// The query only ends once the late reply has been consumed
+		expect(arrived).toBe(true);
+		expect(input.listenerCount("data")).toBe(1);
+		expect(input.isRaw).toBe(false);
+	});
+
+	test("stop discarding when no reply comes", async () => {
+		const { input, query } = fakeTerminal(null);
+
+		expect(await query("\x1b[c", 5)).toBe("");
+		expect(input.listenerCount("data")).toBe(0);
+	});
+});
+
+describe("Recommended options", () => {
+	test("use the symbol set with the most sub-pixels and the richest colors", () => {
+		expect(recommendOptions(detectCapabilities(ENVIRONMENTS.kitty))).toEqual({
+			symbolSet: SymbolSet.OCTANT,
+			colorMode: ColorMode.TRUECOLOR,
+		});
+		expect(recommendOptions(detectCapabilities(ENVIRONMENTS.screen)).symbolSet).toBe(
+			SymbolSet.BRAILLE,
+		);
+		expect(recommendOptions(detectCapabilities(ENVIRONMENTS.linuxConsole)).symbolSet).toBe(
+			SymbolSet.HALF,
+		);
+		expect(recommendOptions(PLAIN).symbolSet).toBe(SymbolSet.ASCII);
+	});
+
+	test("give way to manual overrides", () => {
+		const options = recommendOptions(detectCapabilities(ENVIRONMENTS.kitty), {
+			symbolSet: SymbolSet.SEXTANT,
+			threshold: 100,
+		});
+
+		expect(options).toEqual({
+			symbolSet: SymbolSet.SEXTANT,
+			colorMode: ColorMode.TRUECOLOR,
+			threshold: 100,
+		});
+	});
+});
@@ -0,0 +1,77 @@
+/**
+ * Tests for adaptive two-color fitting (RenderOptions.fitting)
+ * Verifies that cells split by color rather than by a global brightness threshold
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	AsciiRenderer,
+	BufferFormat,
+	ColorFitting,
+	ColorMode,
+	mapPixelsToCells,
+	rgb,
+	SymbolSet,
+} from "../index";
+
+// Both colors sit below the default brightness threshold of 128
+const RED = rgb(220, 0, 0);
+const GREEN = rgb(0, 102, 0);
+
+describe("Color fitting", () => {
+	const renderer = new AsciiRenderer({ colorMode: ColorMode.TRUECOLOR, threshold: 128 });
+
+	/**
+	 * Red left half, green right half of a single 2x2 cell
+	 */
+	function splitCell() {
+		const buffer = renderer.createBuffer(2, 2, GREEN, BufferFormat.RGBA);
+		renderer.setPixel(buffer, 0, 0, RED);
+		renderer.setPixel(buffer, 0, 1, RED);
+		return buffer;
+	}
+
+	test("threshold mode loses an edge between equally dark colors", () => {
+		const [cell] = mapPixelsToCells(splitCell(), SymbolSet.QUADRANT, 128)[0] ?? [];
+
+		expect(cell?.char).toBe(" ");
+	});
+
+	for (const fitting of [ColorFitting.KMEANS, ColorFitting.MEDIAN_CUT]) {
+		test(`${fitting} separates the two colors exactly`, () => {
+			const [cell] = mapPixelsToCells(splitCell(), SymbolSet.QUADRANT, 128, { fitting })[0] ?? [];
+
+			expect(cell?.char).toBe("▌");
+			expect(cell?.fg).toEqual({ r: 220, g: 0, b: 0, a: 255 });
+			expect(cell?.bg).toEqual({ r: 0, g: 102, b: 0, a: 255 });
+		});
+	}
+
+	test("uniform cells become a blank with matching background", () => {
+		const buffer = renderer.createBuffer(4, 6, GREEN, BufferFormat.RGBA);
+		const grid = mapPixelsToCells(buffer, SymbolSet.SEXTANT, 128, {
+			fitting: ColorFitting.KMEANS,
+		});
+
+		for (const row of grid) {
+			for (const cell of row) {
+				expect(cell.char === " " || cell.char === "█").toBe(true);
+				const visible = cell.char === " " ? cell.bg : cell.fg;
+				expect(visible).toEqual({ r: 0, g: 102, b: 0, a: 255 });
+			}
+		}
+	});
+
+	for (const symbolSet of [SymbolSet.HALF, SymbolSet.QUADRANT, SymbolSet.BRAILLE]) {
+		test(`renders a color gradient scene with ${symbolSet} symbols`, () => {
+			const buffer = renderer.createBuffer(12, 8, rgb(30, 30, 90), BufferFormat.RGBA);
+			renderer.drawCircle(buffer, 6, 4, 3, rgb(90, 30, 30), true);
+			renderer.drawLine(buffer, 0, 7, 11, 0, rgb(30, 90, 30));
+
+			const kmeans = renderer.render(buffer, { symbolSet, fitting: ColorFitting.KMEANS });
+			const medianCut = renderer.render(buffer, { symbolSet, fitting: ColorFitting.MEDIAN_CUT });
+			expect(kmeans).toMatchSnapshot();
+			expect(medianCut).toMatchSnapshot();
+		});
+	}
+});
@@ -0,0 +1,77 @@
+/**
+ * Tests for palette color modes (ColorMode.ANSI256, ColorMode.ANSI16)
+ * Verifies palette layout, perceptual quantization and emitted SGR codes
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	AsciiRenderer,
+	bgAnsi16,
+	ColorMode,
+	fgAnsi16,
+	fgAnsi256,
+	nearestAnsi16,
+	nearestAnsi256,
+	rgb,
+	SymbolSet,
+	XTERM_PALETTE,
+} from "../index";
+
+describe("Palette color modes", () => {
+	const renderer = new AsciiRenderer({
+		symbolSet: SymbolSet.HALF,
+		threshold: 128,
+	});
+
+	test("xterm palette has system colors, cube and grayscale ramp", () => {
+		expect(XTERM_PALETTE).toHaveLength(256);
+		expect(XTERM_PALETTE[9]).toEqual({ r: 255, g: 0, b: 0, a: 255 });
+		expect(XTERM_PALETTE[16]).toEqual({ r: 0, g: 0, b: 0, a: 255 });
+		expect(XTERM_PALETTE[196]).toEqual({ r: 255, g: 0, b: 0, a: 255 });
+		expect(XTERM_PALETTE[231]).toEqual({ r: 255, g: 255, b: 255, a: 255 });
+		expect(XTERM_PALETTE[232]).toEqual({ r: 8, g: 8, b: 8, a: 255 });
+		expect(XTERM_PALETTE[255]).toEqual({ r: 238, g: 238, b: 238, a: 255 });
+	});
+
+	test("exact palette colors map to themselves", () => {
+		expect(nearestAnsi256(rgb(255, 0, 0))).toBe(196);
+		expect(nearestAnsi256(rgb(95, 135, 175))).toBe(67);
+		expect(nearestAnsi256(rgb(128, 128, 128))).toBe(244);
+		expect(nearestAnsi16(rgb(0, 0, 0))).toBe(0);
+		expect(nearestAnsi16(rgb(255, 255, 0))).toBe(11);
+	});
+
+	test("near-gray colors prefer the grayscale ramp over the cube", () => {
+		const index = nearestAnsi256(rgb(30, 30, 32));
+		expect(index).toBeGreaterThanOrEqual(232);
+	});
+
+	test("cached and uncached lookups agree", () => {
+		for (let i = 0; i < 64; i++) {
+			const color = rgb((i * 37) % 256, (i * 91) % 256, (i * 53) % 256);
+			expect(nearestAnsi256(color, true)).toBe(nearestAnsi256(color, false));
+			expect(nearestAnsi16(color, true)).toBe(nearestAnsi16(color, false));
+		}
+	});
+
+	test("SGR codes use 38;5 and the 30-37/90-97 ranges", () => {
+		expect(fgAnsi256(rgb(255, 0, 0))).toBe("\x1b[38;5;196m");
+		expect(fgAnsi16(rgb(205, 0, 0))).toBe("\x1b[31m");
+		expect(fgAnsi16(rgb(255, 255, 255))).toBe("\x1b[97m");
+		expect(bgAnsi16(rgb(0, 0, 0))).toBe("\x1b[40m");
+		expect(bgAnsi16(rgb(92, 92, 255))).toBe("\x1b[104m");
+	});
+
+	test("render emits one code per run of identically quantized colors", () => {
+		const buffer = renderer.createBuffer(4, 2, { r: 0, g: 0, b: 0, a: 255 });
+		renderer.setPixel(buffer, 0, 0, rgb(250, 250, 3));
+		renderer.setPixel(buffer, 1, 0, rgb(253, 255, 0));
+		renderer.setPixel(buffer, 2, 0, rgb(0, 245, 255));
+		renderer.setPixel(buffer, 3, 0, rgb(0, 255, 255));
+
+		expect(renderer.render(buffer, { colorMode: ColorMode.ANSI256 })).toBe(
+			"\x1b[38;5;226m\x1b[48;5;16m▀▀\x1b[38;5;51m▀▀\x1b[0m",
+		);
+		expect(renderer.render(buffer, { colorMode: ColorMode.ANSI16 })).toMatchSnapshot();
+	});
+});
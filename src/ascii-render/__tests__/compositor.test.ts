@@ -0,0 +1,102 @@
+/**
+ * Tests for the public grid API and layered compositing
+ * Verifies stacking order, offsets, opacity and transparent cells
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	AsciiRenderer,
+	ColorMode,
+	Compositor,
+	type Grid,
+	rgb,
+	SymbolSet,
+	TRANSPARENT,
+} from "../index";
+
+/**
+ * Characters of a grid, one string per row
+ */
+function chars(grid: Grid): string[] {
+	return grid.map((row) => row.map((cell) => cell.char).join(""));
+}
+
+describe("Grid API", () => {
+	test("render is renderToGrid followed by gridToAnsi", () => {
+		const renderer = new AsciiRenderer({ symbolSet: SymbolSet.QUADRANT });
+		const pixels = renderer.createBuffer(6, 4);
+		renderer.drawLine(pixels, 0, 0, 5, 3, rgb(255, 128, 0));
+
+		const grid = renderer.renderToGrid(pixels);
+		expect(grid.length).toBe(2);
+		expect(renderer.gridToAnsi(grid)).toBe(renderer.render(pixels));
+		expect(renderer.gridToAnsi(grid, { colorMode: ColorMode.NONE })).toBe(chars(grid).join("\n"));
+	});
+});
+
+describe("Compositor", () => {
+	const renderer = new AsciiRenderer({ symbolSet: SymbolSet.HALF });
+
+	test("stacks layers by z with offsets and clips them to its size", () => {
+		const compositor = new Compositor(6, 2);
+		compositor.addText("top", { x: 1, z: 1 });
+		compositor.addText("bottom!", { x: 0, y: 0 });
+		compositor.addText("xy\nzw", { x: 4, y: 1 });
+		compositor.addText("hidden", { y: 2 });
+
+		expect(chars(compositor.compose())).toEqual(["btopom", "    xy"]);
+	});
+
+	test("text spaces are transparent unless a background is given", () => {
+		const compositor = new Compositor(5, 1, rgb(0, 0, 80));
+		compositor.addText("#####", { fg: rgb(255, 0, 0) });
+		compositor.addText("a b", { x: 1 });
+		compositor.addText(" ", { x: 4, bg: rgb(0, 255, 0) });
+
+		const grid = compositor.compose();
+		expect(chars(grid)).toEqual(["#a#b "]);
+		expect(grid[0]?.[2]?.fg).toEqual(rgb(255, 0, 0, 255));
+		expect(grid[0]?.[2]?.bg).toEqual(rgb(0, 0, 80, 255));
+		expect(grid[0]?.[4]?.bg).toEqual(rgb(0, 255, 0, 255));
+	});
+
+	test("transparent pixel regions show the layers below", () => {
+		const scene = renderer.createBuffer(4, 2, rgb(0, 0, 200));
+		const overlay = renderer.createBuffer(4, 2, TRANSPARENT);
+		renderer.drawRect(overlay, 0, 0, 2, 2, rgb(255, 255, 0), true);
+
+		const compositor = new Compositor(4, 1);
+		compositor.addPixels(scene, { render: { symbolSet: SymbolSet.HALF } });
+		compositor.addPixels(overlay, { render: { symbolSet: SymbolSet.HALF } });
+
+		const row = compositor.compose()[0] ?? [];
+		expect(row.map((cell) => cell.char).join("")).toBe("██  ");
+		expect(row[0]?.fg).toEqual(rgb(255, 255, 0, 255));
+		expect(row[3]?.bg).toEqual(rgb(0, 0, 200, 255));
+	});
+
+	test("opacity blends a layer over the cells below", () => {
+		const compositor = new Compositor(2, 1);
+		compositor.addText("  ", { bg: rgb(200, 0, 0) });
+		compositor.addText("ab", { fg: rgb(0, 0, 0), bg: rgb(0, 0, 200), opacity: 0.5 });
+		compositor.addText("zz", { opacity: 0 });
+
+		const cell = compositor.compose()[0]?.[0];
+		expect(cell?.char).toBe("a");
+		expect(cell?.bg).toEqual(rgb(100, 0, 100, 255));
+		expect(cell?.fg).toEqual(rgb(50, 0, 50, 255));
+	});
+
+	test("overlays a HUD on a render", () => {
+		const pixels = renderer.createBuffer(12, 6);
+		renderer.drawLine(pixels, 0, 5, 11, 0, rgb(0, 255, 128));
+		const compositor = new Compositor(12, 3);
+		compositor.addGrid(renderer.renderToGrid(pixels));
+		compositor.addText("FPS 60", { x: 6, y: 2, fg: rgb(255, 255, 255), bg: rgb(0, 0, 0) });
+
+		expect(renderer.gridToAnsi(compositor.compose())).toMatchSnapshot();
+		compositor.clear();
+		expect(compositor.length).toBe(0);
+		expect(() => new Compositor(0, 1)).toThrow();
+	});
+});
@@ -0,0 +1,103 @@
+/**
+ * Tests for depth buffers and depth-tested drawing
+ * Verifies that closer geometry occludes farther geometry regardless of draw order
+ */
+
+import { describe, expect, test } from "bun:test";
+import { AsciiRenderer, BufferFormat, DepthTest, rgb, SymbolSet } from "../index";
+
+const BLACK = { r: 0, g: 0, b: 0, a: 255 };
+const RED = rgb(255, 0, 0);
+const BLUE = rgb(0, 0, 255);
+
+describe("Depth buffer", () => {
+	const renderer = new AsciiRenderer({
+		symbolSet: SymbolSet.BRAILLE,
+		threshold: 128,
+	});
+
+	test("attached depth buffer matches the surface size and starts at Infinity", () => {
+		const buffer = renderer.createBuffer(6, 4, BLACK, BufferFormat.RGBA);
+		const depth = renderer.attachDepthBuffer(buffer);
+
+		expect(depth.width).toBe(6);
+		expect(depth.height).toBe(4);
+		expect(depth.test).toBe(DepthTest.LESS);
+		expect(Array.from(depth.data).every((z) => z === Infinity)).toBe(true);
+		expect(renderer.getDepthBuffer(buffer)).toBe(depth);
+	});
+
+	test("setPixelDepth keeps the closest color with LESS", () => {
+		const buffer = renderer.createBuffer(2, 2, BLACK, BufferFormat.RGBA);
+		renderer.attachDepthBuffer(buffer);
+
+		expect(renderer.setPixelDepth(buffer, 0, 0, 1, RED)).toBe(true);
+		expect(renderer.setPixelDepth(buffer, 0, 0, 2, BLUE)).toBe(false);
+		expect(renderer.setPixelDepth(buffer, 0, 0, 1, BLUE)).toBe(false);
+		expect(renderer.getPixel(buffer, 0, 0)).toEqual({ r: 255, g: 0, b: 0, a: 255 });
+	});
+
+	test("LESS_EQUAL lets equal depths overwrite and ALWAYS ignores depth", () => {
+		const buffer = renderer.createBuffer(2, 2, BLACK);
+		const depth = renderer.attachDepthBuffer(buffer, { test: DepthTest.LESS_EQUAL });
+
+		renderer.setPixelDepth(buffer, 1, 1, 1, RED);
+		expect(renderer.setPixelDepth(buffer, 1, 1, 1, BLUE)).toBe(true);
+		expect(renderer.getPixel(buffer, 1, 1)).toEqual(BLUE);
+
+		depth.test = DepthTest.ALWAYS;
+		expect(renderer.setPixelDepth(buffer, 1, 1, 5, RED)).toBe(true);
+		expect(depth.data[3]).toBe(5);
+	});
+
+	test("setPixelDepth without a depth buffer behaves like setPixel", () => {
+		const buffer = renderer.createBuffer(2, 2, BLACK, BufferFormat.RGBA);
+
+		expect(renderer.setPixelDepth(buffer, 0, 1, 10, RED)).toBe(true);
+		expect(renderer.getPixel(buffer, 0, 1)).toEqual({ r: 255, g: 0, b: 0, a: 255 });
+	});
+
+	test("drawLineDepth interpolates z so the front line wins at a crossing", () => {
+		const buffer = renderer.createBuffer(9, 9, BLACK, BufferFormat.RGBA);
+		const depth = renderer.attachDepthBuffer(buffer);
+
+		// Red recedes from z=0 to z=8, blue is flat at z=2; they cross at (4, 4)
+		renderer.drawLineDepth(buffer, 0, 0, 0, 8, 8, 8, RED);
+		renderer.drawLineDepth(buffer, 0, 8, 2, 8, 0, 2, BLUE);
+
+		expect(depth.data[2 * 9 + 2]).toBe(2);
+		expect(renderer.getPixel(buffer, 4, 4)).toEqual({ r: 0, g: 0, b: 255, a: 255 });
+		expect(renderer.getPixel(buffer, 1, 1)).toEqual({ r: 255, g: 0, b: 0, a: 255 });
+	});
+
+	test("drawLineDepth output does not depend on draw order", () => {
+		const draw = (frontFirst: boolean) => {
+			const buffer = renderer.createBuffer(12, 8, BLACK, BufferFormat.RGBA);
+			renderer.attachDepthBuffer(buffer);
+			const front = () => renderer.drawLineDepth(buffer, 0, 4, 1, 11, 4, 1, RED, { thickness: 2 });
+			const back = () => renderer.drawLineDepth(buffer, 6, 0, 3, 6, 7, 3, BLUE);
+			if (frontFirst) {
+				front();
+				back();
+			} else {
+				back();
+				front();
+			}
+			return renderer.render(buffer);
+		};
+
+		expect(draw(true)).toBe(draw(false));
+	});
+
+	test("clear resets the attached depth buffer", () => {
+		const buffer = renderer.createBuffer(4, 4, BLACK, BufferFormat.RGBA);
+		const depth = renderer.attachDepthBuffer(buffer, { clearValue: 1 });
+
+		renderer.setPixelDepth(buffer, 2, 2, 0.25, RED);
+		expect(depth.data[10]).toBe(0.25);
+
+		renderer.clear(buffer, BLACK);
+		expect(depth.data[10]).toBe(1);
+		expect(renderer.setPixelDepth(buffer, 2, 2, 0.5, BLUE)).toBe(true);
+	});
+});
@@ -0,0 +1,86 @@
+/**
+ * Tests for dithering before sub-pixel thresholding (RenderOptions.dither)
+ * Verifies that gray levels turn into proportional dot densities
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	AsciiRenderer,
+	BufferFormat,
+	ColorMode,
+	createDitherMask,
+	DitherMode,
+	rgb,
+	SymbolSet,
+} from "../index";
+
+const MODES = [
+	DitherMode.BAYER2,
+	DitherMode.BAYER4,
+	DitherMode.BAYER8,
+	DitherMode.FLOYD_STEINBERG,
+	DitherMode.ATKINSON,
+	DitherMode.BLUE_NOISE,
+];
+
+describe("Dithering", () => {
+	const renderer = new AsciiRenderer({
+		symbolSet: SymbolSet.BRAILLE,
+		colorMode: ColorMode.NONE,
+		threshold: 128,
+	});
+
+	/**
+	 * Fraction of pixels turned on for a uniform gray level
+	 */
+	function onFraction(level: number, mode: DitherMode): number {
+		const buffer = renderer.createBuffer(32, 32, rgb(level, level, level), BufferFormat.RGBA);
+		const mask = createDitherMask(buffer, mode, 128) ?? new Uint8Array(0);
+		return mask.reduce((sum, v) => sum + v, 0) / (32 * 32);
+	}
+
+	test("NONE produces no mask", () => {
+		const buffer = renderer.createBuffer(4, 4, rgb(128, 128, 128), BufferFormat.RGBA);
+		expect(createDitherMask(buffer, DitherMode.NONE, 128)).toBeNull();
+	});
+
+	for (const mode of MODES) {
+		test(`${mode} keeps black off, white on and tracks gray levels`, () => {
+			expect(onFraction(0, mode)).toBe(0);
+			expect(onFraction(255, mode)).toBe(1);
+
+			// A 2x2 matrix only has five levels, and Atkinson drops a quarter of
+			// the error, which pushes tones toward the extremes
+			const tolerance =
+				mode === DitherMode.ATKINSON ? 0.2 : mode === DitherMode.BAYER2 ? 0.13 : 0.08;
+			let previous = 0;
+			for (const level of [32, 96, 160, 224]) {
+				const fraction = onFraction(level, mode);
+				expect(Math.abs(fraction - level / 255)).toBeLessThan(tolerance);
+				expect(fraction).toBeGreaterThanOrEqual(previous);
+				previous = fraction;
+			}
+		});
+	}
+
+	test("transparent pixels stay off", () => {
+		const buffer = renderer.createBuffer(8, 8, rgb(255, 255, 255, 0), BufferFormat.RGBA);
+		for (const mode of MODES) {
+			expect(createDitherMask(buffer, mode, 128)?.every((v) => v === 0)).toBe(true);
+		}
+	});
+
+	test("dithered gradient shows tonal variation in monochrome output", () => {
+		const buffer = renderer.createBuffer(32, 8, undefined, BufferFormat.RGBA);
+		for (let x = 0; x < 32; x++) {
+			const level = (x / 31) * 255;
+			renderer.drawLine(buffer, x, 0, x, 7, rgb(level, level, level));
+		}
+
+		const plain = renderer.render(buffer);
+		const outputs = MODES.map((dither) => `${dither}:\n${renderer.render(buffer, { dither })}`);
+
+		expect(plain).not.toBe(renderer.render(buffer, { dither: DitherMode.BAYER4 }));
+		expect(outputs.join("\n\n")).toMatchSnapshot();
+	});
+});
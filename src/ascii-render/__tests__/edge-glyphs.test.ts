@@ -0,0 +1,89 @@
+/**
+ * Tests for edge-direction glyphs in SymbolSet.ASCII (RenderOptions.edges)
+ * Verifies that line cells pick glyphs matching their orientation
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	AsciiRenderer,
+	BufferFormat,
+	ColorMode,
+	createEdgeMap,
+	EDGE_ORIENTATION,
+	rgb,
+	SymbolSet,
+} from "../index";
+
+const BLACK = { r: 0, g: 0, b: 0, a: 255 };
+const WHITE = rgb(255, 255, 255);
+
+describe("Edge glyphs", () => {
+	const renderer = new AsciiRenderer({
+		symbolSet: SymbolSet.ASCII,
+		colorMode: ColorMode.NONE,
+		edges: true,
+	});
+
+	/**
+	 * Characters of one rendered row
+	 */
+	function rowAt(output: string, y: number): string {
+		return output.split("\n")[y] ?? "";
+	}
+
+	test("straight lines use -, | and diagonal glyphs", () => {
+		const buffer = renderer.createBuffer(9, 9, BLACK, BufferFormat.RGBA);
+		renderer.drawLine(buffer, 0, 0, 8, 8, WHITE);
+		const falling = renderer.render(buffer);
+		expect(rowAt(falling, 4)).toBe("    \\    ");
+
+		renderer.clear(buffer, BLACK);
+		renderer.drawLine(buffer, 0, 8, 8, 0, WHITE);
+		expect(rowAt(renderer.render(buffer), 4)).toBe("    /    ");
+
+		renderer.clear(buffer, BLACK);
+		renderer.drawLine(buffer, 1, 4, 7, 4, WHITE);
+		expect(rowAt(renderer.render(buffer), 4)).toBe(" ------- ");
+
+		renderer.clear(buffer, BLACK);
+		renderer.drawLine(buffer, 4, 0, 4, 8, WHITE);
+		expect(rowAt(renderer.render(buffer), 4)).toBe("    |    ");
+	});
+
+	test("crossings are marked with +", () => {
+		const buffer = renderer.createBuffer(9, 9, BLACK, BufferFormat.RGBA);
+		renderer.drawLine(buffer, 0, 4, 8, 4, WHITE);
+		renderer.drawLine(buffer, 4, 0, 4, 8, WHITE);
+
+		expect(rowAt(renderer.render(buffer), 4)[4]).toBe("+");
+	});
+
+	test("filled shapes keep ramp characters inside and use _ along the bottom", () => {
+		const buffer = renderer.createBuffer(10, 7, BLACK, BufferFormat.RGBA);
+		renderer.drawRect(buffer, 1, 1, 8, 5, WHITE, true);
+		const output = renderer.render(buffer);
+
+		expect(rowAt(output, 3)).toBe(" |@@@@@@| ");
+		expect(rowAt(output, 5).slice(2, 8)).toBe("______");
+	});
+
+	test("edge map is empty on flat images and glyphs are off by default", () => {
+		const flat = renderer.createBuffer(5, 5, rgb(90, 90, 90), BufferFormat.RGBA);
+		expect(createEdgeMap(flat).every((v) => v === 0)).toBe(true);
+
+		const buffer = renderer.createBuffer(9, 3, BLACK, BufferFormat.RGBA);
+		renderer.drawLine(buffer, 0, 1, 8, 1, WHITE);
+		expect(createEdgeMap(buffer)[1 * 9 + 4]).toBe(EDGE_ORIENTATION.HORIZONTAL);
+		expect(rowAt(renderer.render(buffer, { edges: false }), 1)).toBe("@@@@@@@@@");
+	});
+
+	test("renders a wireframe scene", () => {
+		const buffer = renderer.createBuffer(32, 14, BLACK, BufferFormat.RGBA);
+		renderer.drawRect(buffer, 1, 1, 12, 8, WHITE);
+		renderer.drawLine(buffer, 16, 12, 28, 1, WHITE);
+		renderer.drawLine(buffer, 16, 1, 28, 12, rgb(200, 200, 200));
+		renderer.drawCircle(buffer, 7, 5, 3, rgb(180, 180, 180));
+
+		expect(renderer.render(buffer)).toMatchSnapshot();
+	});
+});
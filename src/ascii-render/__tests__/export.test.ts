@@ -0,0 +1,110 @@
+/**
+ * Tests for PNG/PPM pixel export and HTML/SVG grid export
+ * Verifies that exported files keep the exact colors of the source
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	AsciiRenderer,
+	BufferFormat,
+	decodeImage,
+	encodePng,
+	encodePpm,
+	gridToHtml,
+	gridToSvg,
+	mapPixelsToCells,
+	rgb,
+	SymbolSet,
+} from "../index";
+
+const BLACK = { r: 0, g: 0, b: 0, a: 255 };
+
+describe("Export", () => {
+	const renderer = new AsciiRenderer({ threshold: 128 });
+
+	function drawScene() {
+		const buffer = renderer.createBuffer(8, 6, BLACK, BufferFormat.RGBA);
+		renderer.drawRect(buffer, 1, 1, 5, 3, rgb(255, 85, 85), true);
+		renderer.drawLine(buffer, 0, 5, 7, 0, rgb(80, 200, 255));
+		renderer.setPixel(buffer, 7, 5, rgb(10, 20, 30, 128));
+		return buffer;
+	}
+
+	test("PNG export round-trips through the decoder", () => {
+		const buffer = drawScene();
+		const decoded = decodeImage(encodePng(buffer), BufferFormat.RGBA);
+
+		expect(decoded.width).toBe(8);
+		expect(decoded.height).toBe(6);
+		expect(Array.from(decoded.data)).toEqual(Array.from(buffer.data));
+	});
+
+	test("PPM export writes a P6 header and drops alpha", () => {
+		const nested = renderer.createBuffer(2, 1, rgb(1, 2, 3));
+		renderer.setPixel(nested, 1, 0, rgb(4, 5, 6, 7));
+		const ppm = encodePpm(nested);
+
+		expect(new TextDecoder().decode(ppm.subarray(0, 11))).toBe("P6\n2 1\n255\n");
+		expect(Array.from(ppm.subarray(11))).toEqual([1, 2, 3, 4, 5, 6]);
+		expect(decodeImage(ppm)[0]?.[1]).toEqual({ r: 4, g: 5, b: 6, a: 255 });
+	});
+
+	test("empty surfaces are rejected", () => {
+		expect(() => encodePng([])).toThrow();
+		expect(() => encodePpm([])).toThrow();
+	});
+
+	test("HTML export merges runs and escapes text", () => {
+		const grid = [
+			[
+				{ char: "<", fg: rgb(255, 0, 0), bg: BLACK },
+				{ char: "&", fg: rgb(255, 0, 0), bg: BLACK },
+				{ char: "x", fg: rgb(1, 2, 3, 51), bg: BLACK },
+			],
+		];
+		const html = gridToHtml(grid);
+
+		expect(html).toBe(
+			'<pre style="font-family:monospace;font-size:14px;line-height:1;margin:0">' +
+				'<span style="color:#ff0000;background-color:#000000">&#60;&#38;</span>' +
+				'<span style="color:rgba(1,2,3,0.2);background-color:#000000">x</span></pre>',
+		);
+	});
+
+	test("HTML export keeps mapped colors exactly", () => {
+		const grid = mapPixelsToCells(drawScene(), SymbolSet.HALF, 128);
+		const html = gridToHtml(grid, { fontSize: "12px" });
+
+		for (const cell of grid.flat()) {
+			const hex = `#${[cell.fg.r, cell.fg.g, cell.fg.b].map((v) => v.toString(16).padStart(2, "0")).join("")}`;
+			if ((cell.fg.a ?? 255) === 255) expect(html).toContain(hex);
+		}
+		expect(html).toMatchSnapshot();
+	});
+
+	test("SVG export draws block glyphs as rectangles", () => {
+		const grid = [[{ char: "▚", fg: rgb(255, 255, 255), bg: rgb(0, 0, 64) }]];
+		const svg = gridToSvg(grid, { cellWidth: 10, cellHeight: 20 });
+
+		expect(svg).toContain('<rect x="0" y="0" width="10" height="20" fill="#000040"/>');
+		expect(svg).toContain('<rect x="0" y="0" width="5" height="10" fill="#ffffff"/>');
+		expect(svg).toContain('<rect x="5" y="10" width="5" height="10" fill="#ffffff"/>');
+		expect(svg).not.toContain("<text");
+	});
+
+	test("SVG export falls back to text for other glyphs or when blocks are off", () => {
+		const grid = [[{ char: "▀", fg: rgb(255, 255, 255), bg: BLACK }]];
+
+		expect(gridToSvg(grid, { blocks: false })).toContain(">▀</text>");
+		expect(gridToSvg([[{ char: "⣿", fg: rgb(9, 9, 9), bg: BLACK }]])).toContain(
+			'<text x="4" y="12.8" fill="#090909">⣿</text>',
+		);
+	});
+
+	for (const symbolSet of [SymbolSet.QUADRANT, SymbolSet.SEXTANT, SymbolSet.BRAILLE]) {
+		test(`SVG export of a ${symbolSet} render`, () => {
+			const grid = mapPixelsToCells(drawScene(), symbolSet, 128);
+			expect(gridToSvg(grid)).toMatchSnapshot();
+		});
+	}
+});
@@ -0,0 +1,90 @@
+/**
+ * Tests for incremental frame encoding (FrameEncoder)
+ * Verifies that only changed cells are emitted after the first frame
+ */
+
+import { describe, expect, test } from "bun:test";
+import { AsciiRenderer, BufferFormat, ColorMode, FrameEncoder, rgb, SymbolSet } from "../index";
+
+const BLACK = { r: 0, g: 0, b: 0, a: 255 };
+const WHITE = rgb(255, 255, 255);
+
+describe("Frame encoder", () => {
+	const renderer = new AsciiRenderer({
+		symbolSet: SymbolSet.QUADRANT,
+		threshold: 128,
+	});
+
+	test("first frame is a full redraw with one cursor move per row", () => {
+		const encoder = new FrameEncoder();
+		const buffer = renderer.createBuffer(8, 4, BLACK, BufferFormat.RGBA);
+		renderer.drawLine(buffer, 0, 0, 7, 3, WHITE);
+
+		const frame = renderer.renderIncremental(buffer, encoder);
+		expect(frame.stats).toEqual({
+			changedCells: 8,
+			totalCells: 8,
+			fullRedraw: true,
+			length: frame.output.length,
+		});
+		expect(frame.output.split("\x1b[").filter((s) => /^\d+;\d+H/.test(s))).toHaveLength(2);
+		expect(frame.output).toMatchSnapshot();
+	});
+
+	test("unchanged frame produces no output", () => {
+		const encoder = new FrameEncoder();
+		const buffer = renderer.createBuffer(8, 4, BLACK, BufferFormat.RGBA);
+		renderer.renderIncremental(buffer, encoder);
+
+		const frame = renderer.renderIncremental(buffer, encoder);
+		expect(frame.output).toBe("");
+		expect(frame.stats.changedCells).toBe(0);
+		expect(frame.stats.fullRedraw).toBe(false);
+	});
+
+	test("only changed cells are emitted, positioned with cursor moves", () => {
+		const encoder = new FrameEncoder({ row: 3, col: 5 });
+		const buffer = renderer.createBuffer(8, 4, BLACK, BufferFormat.RGBA);
+		renderer.renderIncremental(buffer, encoder);
+
+		renderer.setPixel(buffer, 5, 2, WHITE);
+		const frame = renderer.renderIncremental(buffer, encoder);
+
+		expect(frame.stats.changedCells).toBe(1);
+		expect(frame.output).toBe("\x1b[4;7H\x1b[38;2;255;255;255m\x1b[48;2;0;0;0m▝\x1b[0m");
+	});
+
+	test("adjacent changed cells share one cursor move", () => {
+		const encoder = new FrameEncoder();
+		const buffer = renderer.createBuffer(8, 2, BLACK, BufferFormat.RGBA);
+		renderer.renderIncremental(buffer, encoder);
+
+		renderer.drawLine(buffer, 2, 0, 5, 0, WHITE);
+		const frame = renderer.renderIncremental(buffer, encoder);
+
+		expect(frame.stats.changedCells).toBe(2);
+		expect(frame.output).toBe("\x1b[1;2H\x1b[38;2;255;255;255m\x1b[48;2;0;0;0m▀▀\x1b[0m");
+	});
+
+	test("size, color mode changes and reset force a full redraw", () => {
+		const encoder = new FrameEncoder();
+		renderer.renderIncremental(renderer.createBuffer(4, 4, BLACK), encoder);
+
+		expect(
+			renderer.renderIncremental(renderer.createBuffer(6, 4, BLACK), encoder).stats,
+		).toMatchObject({ fullRedraw: true, changedCells: 6 });
+
+		const mono = renderer.renderIncremental(renderer.createBuffer(6, 4, BLACK), encoder, {
+			colorMode: ColorMode.NONE,
+		});
+		expect(mono.stats.fullRedraw).toBe(true);
+		expect(mono.output).toBe("\x1b[1;1H   \x1b[2;1H   ");
+
+		encoder.reset();
+		expect(
+			renderer.renderIncremental(renderer.createBuffer(6, 4, BLACK), encoder, {
+				colorMode: ColorMode.NONE,
+			}).stats.fullRedraw,
+		).toBe(true);
+	});
+});
@@ -0,0 +1,170 @@
+/**
+ * Tests for gradients, colormaps and color space interpolation
+ * Verifies each interpolation space, multi-stop sampling, the built-in
+ * colormaps and gradients along lines
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	AsciiRenderer,
+	averageColors,
+	COLORMAPS,
+	Colormap,
+	ColorSpace,
+	createGradient,
+	fromOklab,
+	hex,
+	hsl,
+	interpolateColor,
+	rgb,
+	sampleColormap,
+	sampleGradient,
+	toHsl,
+	toOklab,
+} from "../index";
+
+const BLACK = rgb(0, 0, 0);
+const WHITE = rgb(255, 255, 255);
+
+describe("Color spaces", () => {
+	test("interpolate black to white by each space's midpoint", () => {
+		const gray = (space: ColorSpace) => interpolateColor(BLACK, WHITE, 0.5, space).r;
+
+		expect(gray(ColorSpace.SRGB)).toBe(128);
+		// Half the light of white
+		expect(gray(ColorSpace.LINEAR_RGB)).toBe(188);
+		// Half of OKLab's lightness, close to CIE L* 50
+		expect(gray(ColorSpace.OKLAB)).toBe(99);
+		expect(gray(ColorSpace.HSL)).toBe(128);
+	});
+
+	test("HSL takes the shorter way round the hue circle", () => {
+		const red = rgb(255, 0, 0);
+		const blue = rgb(0, 0, 255);
+
+		expect(interpolateColor(red, blue, 0.5, ColorSpace.HSL)).toEqual({
+			r: 255,
+			g: 0,
+			b: 255,
+			a: 255,
+		});
+		expect(interpolateColor(red, blue, 0.5)).toEqual({ r: 128, g: 0, b: 128, a: 255 });
+		// Gray keeps the hue of the other end
+		expect(interpolateColor(rgb(128, 128, 128), blue, 0.5, ColorSpace.HSL).r).toBeLessThan(70);
+	});
+
+	test("keep the end colors and interpolate alpha linearly", () => {
+		const from = rgb(200, 30, 90, 0);
+		const to = rgb(10, 220, 140, 200);
+		for (const space of Object.values(ColorSpace)) {
+			expect(interpolateColor(from, to, 0, space)).toEqual({ ...from, a: 0 });
+			expect(interpolateColor(from, to, 1, space)).toEqual(to);
+			expect(interpolateColor(from, to, 0.5, space).a).toBe(100);
+		}
+	});
+
+	test("convert to and from HSL and OKLab", () => {
+		expect(toHsl(rgb(255, 0, 0))).toEqual([0, 1, 0.5]);
+		expect(toHsl(rgb(128, 128, 128))[1]).toBe(0);
+		expect(hsl(120, 1, 0.25)).toEqual({ r: 0, g: 128, b: 0, a: undefined });
+		expect(hsl(-60, 1, 0.5, 255)).toEqual({ r: 255, g: 0, b: 255, a: 255 });
+
+		for (const color of [rgb(12, 200, 99), rgb(250, 250, 3), rgb(0, 0, 0)]) {
+			const [h, s, l] = toHsl(color);
+			expect(hsl(h, s, l, 255)).toEqual({ ...color, a: 255 });
+			expect(fromOklab(toOklab(color))).toEqual({ ...color, a: 255 });
+		}
+	});
+
+	test("average colors in linear light on request", () => {
+		expect(averageColors([BLACK, WHITE]).r).toBe(128);
+		expect(averageColors([BLACK, WHITE], true)).toEqual({ r: 188, g: 188, b: 188, a: 255 });
+	});
+});
+
+describe("Gradients", () => {
+	const gradient = {
+		stops: [
+			{ offset: 0, color: rgb(0, 0, 0) },
+			{ offset: 0.5, color: rgb(200, 0, 0) },
+			{ offset: 0.5, color: rgb(0, 0, 200) },
+			{ offset: 1, color: rgb(0, 200, 200) },
+		],
+	};
+
+	test("interpolate between neighboring stops", () => {
+		expect(sampleGradient(gradient, 0.25).r).toBe(100);
+		expect(sampleGradient(gradient, 0.75)).toEqual({ r: 0, g: 100, b: 200, a: 255 });
+	});
+
+	test("equal offsets make a hard edge and ends are clamped", () => {
+		expect(sampleGradient(gradient, 0.4999).r).toBe(200);
+		expect(sampleGradient(gradient, 0.5).b).toBe(200);
+		expect(sampleGradient(gradient, -1)).toEqual({ r: 0, g: 0, b: 0, a: 255 });
+		expect(sampleGradient(gradient, 2)).toEqual({ r: 0, g: 200, b: 200, a: 255 });
+	});
+
+	test("space stops evenly and interpolate in the given space", () => {
+		const even = createGradient([BLACK, rgb(0, 255, 0), WHITE], ColorSpace.LINEAR_RGB);
+
+		expect(even.stops.map((stop) => stop.offset)).toEqual([0, 0.5, 1]);
+		expect(sampleGradient(even, 0.25).g).toBe(188);
+		expect(sampleGradient(createGradient([WHITE]), 0.7)).toEqual({ ...WHITE, a: 255 });
+		expect(() => createGradient([])).toThrow();
+		expect(() => sampleGradient({ stops: [] }, 0)).toThrow();
+	});
+});
+
+describe("Colormaps", () => {
+	test("span their published end colors", () => {
+		expect(sampleColormap(Colormap.VIRIDIS, 0)).toEqual(hex("#440154"));
+		expect(sampleColormap(Colormap.VIRIDIS, 1)).toEqual(hex("#fde725"));
+		expect(sampleColormap(Colormap.MAGMA, 0)).toEqual(hex("#000004"));
+		expect(sampleColormap(Colormap.GRAYSCALE, 0.5)).toEqual({ r: 128, g: 128, b: 128, a: 255 });
+	});
+
+	test("viridis and magma grow brighter monotonically", () => {
+		for (const colormap of [Colormap.VIRIDIS, Colormap.MAGMA, Colormap.GRAYSCALE]) {
+			const lightness = Array.from(
+				{ length: 33 },
+				(_, i) => toOklab(sampleColormap(colormap, i / 32))[0],
+			);
+			lightness.slice(1).forEach((l, i) => {
+				expect(l).toBeGreaterThan(lightness[i] ?? 0);
+			});
+		}
+		expect(Object.keys(COLORMAPS)).toEqual(Object.values(Colormap));
+	});
+});
+
+describe("Gradient lines", () => {
+	test("follow the gradient along the line", () => {
+		const renderer = new AsciiRenderer();
+		const buffer = renderer.createBuffer(9, 3);
+		renderer.drawLine(buffer, 0, 1, 8, 1, WHITE, {
+			gradient: COLORMAPS[Colormap.GRAYSCALE],
+			startColor: rgb(255, 0, 0),
+			endColor: rgb(255, 0, 0),
+		});
+
+		expect(buffer[1]?.map((c) => c.g)).toEqual([0, 32, 64, 96, 128, 159, 191, 223, 255]);
+	});
+
+	test("follow the gradient along thick polylines", () => {
+		const renderer = new AsciiRenderer();
+		const buffer = renderer.createBuffer(12, 12);
+		renderer.drawPolyline(
+			buffer,
+			[
+				{ x: 1, y: 1 },
+				{ x: 10, y: 1 },
+				{ x: 10, y: 10 },
+			],
+			WHITE,
+			{ thickness: 3, gradient: COLORMAPS[Colormap.VIRIDIS] },
+		);
+
+		expect(buffer[1]?.[1]).toEqual(hex("#440154"));
+		expect(buffer[10]?.[10]).toEqual(hex("#fde725"));
+	});
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for Sixel and Kitty graphics protocol output
+ * Verifies the exact escape sequences for small images
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	AsciiRenderer,
+	BufferFormat,
+	encodeKitty,
+	encodePng,
+	encodeSixel,
+	KittyFormat,
+	kittyDelete,
+	kittyPlace,
+	rgb,
+} from "../index";
+
+const renderer = new AsciiRenderer();
+
+describe("Sixel output", () => {
+	test("encodes palette, run-length sixels and bands", () => {
+		// 8x7: red top band, blue pixel in the second band
+		const pixels = renderer.createBuffer(8, 7, rgb(255, 0, 0));
+		for (let x = 0; x < 8; x++) renderer.setPixel(pixels, x, 6, rgb(0, 0, 0, 0));
+		renderer.setPixel(pixels, 2, 6, rgb(0, 0, 255));
+
+		expect(encodeSixel(pixels)).toBe(
+			'\x1bP0;1;0q"1;1;8;7#0;2;100;0;0#1;2;0;0;100#0!8~-#1??@\x1b\\',
+		);
+	});
+
+	test("overlays colors within a band and leaves transparent pixels unpainted", () => {
+		const pixels = renderer.createBuffer(2, 2, rgb(0, 0, 0, 0), BufferFormat.RGBA);
+		renderer.setPixel(pixels, 0, 0, rgb(255, 255, 255));
+		renderer.setPixel(pixels, 0, 1, rgb(0, 255, 0));
+
+		expect(encodeSixel(pixels)).toBe(
+			'\x1bP0;1;0q"1;1;2;2#0;2;100;100;100#1;2;0;100;0#0@$#1A\x1b\\',
+		);
+	});
+
+	test("quantizes to the palette limit with median cut", () => {
+		const pixels = renderer.createBuffer(16, 1);
+		for (let x = 0; x < 16; x++) renderer.setPixel(pixels, x, 0, rgb(x * 16, 0, 255 - x * 16));
+
+		const output = encodeSixel(pixels, { maxColors: 4 });
+		expect(output.match(/#\d+;2;/g)?.length).toBe(4);
+		expect(output).toMatchSnapshot();
+		expect(() => encodeSixel(pixels, { maxColors: 1 })).toThrow();
+	});
+});
+
+describe("Kitty graphics output", () => {
+	test("transmits raw RGBA with image id and cell size", () => {
+		const pixels = renderer.createBuffer(1, 1, rgb(1, 2, 3, 4));
+
+		expect(encodeKitty(pixels, { format: KittyFormat.RGBA, imageId: 7, columns: 2, rows: 1 })).toBe(
+			"\x1b_Ga=T,f=32,s=1,v=1,i=7,c=2,r=1,q=2,m=0;AQIDBA==\x1b\\",
+		);
+	});
+
+	test("sends PNG payloads in 4096-byte chunks", () => {
+		// Noise compresses poorly, so the PNG spans several chunks
+		const pixels = renderer.createBuffer(48, 48);
+		let seed = 1;
+		for (let y = 0; y < 48; y++) {
+			for (let x = 0; x < 48; x++) {
+				seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+				renderer.setPixel(pixels, x, y, rgb(seed & 255, (seed >> 8) & 255, (seed >> 16) & 255));
+			}
+		}
+
+		const output = encodeKitty(pixels, { display: false, quiet: false });
+		const chunks = output.split("\x1b\\").slice(0, -1);
+		expect(chunks.length).toBeGreaterThan(1);
+		expect(chunks[0]?.startsWith("\x1b_Ga=t,f=100,s=48,v=48,m=1;")).toBe(true);
+		expect(chunks.slice(1, -1).every((chunk) => chunk.startsWith("\x1b_Gm=1;"))).toBe(true);
+		expect(chunks[chunks.length - 1]?.startsWith("\x1b_Gm=0;")).toBe(true);
+
+		const payload = chunks.map((chunk) => chunk.slice(chunk.indexOf(";") + 1));
+		expect(payload.slice(0, -1).every((data) => data.length === 4096)).toBe(true);
+		expect(Buffer.from(payload.join(""), "base64")).toEqual(Buffer.from(encodePng(pixels)));
+	});
+
+	test("places and deletes transmitted images", () => {
+		expect(kittyPlace(7, { placementId: 2, columns: 10 })).toBe("\x1b_Ga=p,i=7,p=2,c=10,q=2\x1b\\");
+		expect(kittyDelete(7)).toBe("\x1b_Ga=d,d=I,i=7,q=2\x1b\\");
+		expect(kittyDelete()).toBe("\x1b_Ga=d,d=A,q=2\x1b\\");
+	});
+
+	test("renderer output targets delegate to the encoders", () => {
+		const pixels = renderer.createBuffer(2, 2, rgb(10, 20, 30));
+
+		expect(renderer.renderSixel(pixels)).toBe(encodeSixel(pixels));
+		expect(renderer.renderKitty(pixels, { imageId: 1 })).toBe(encodeKitty(pixels, { imageId: 1 }));
+		expect(() => renderer.renderKitty([])).toThrow("empty");
+	});
+});
@@ -0,0 +1,37 @@
+/**
+ * Helpers shared by the drawing tests
+ */
+
+import { AsciiRenderer, type PixelBuffer, rgb } from "../index";
+
+/** Renderer for tests that leave its state as it is */
+export const renderer = new AsciiRenderer();
+
+export const WHITE = rgb(255, 255, 255);
+
+/**
+ * Draw into a fresh buffer and return it as rows of "#" for lit pixels and
+ * "." for black ones
+ */
+export function drawn(
+	width: number,
+	height: number,
+	draw: (buffer: PixelBuffer) => void,
+): string[] {
+	const buffer = renderer.createBuffer(width, height);
+	draw(buffer);
+	return buffer.map((row) => row.map((c) => (c.r || c.g || c.b ? "#" : ".")).join(""));
+}
+
+/**
+ * Draw into a fresh buffer and return the coordinates of lit pixels
+ */
+export function lit(
+	width: number,
+	height: number,
+	draw: (buffer: PixelBuffer) => void,
+): number[][] {
+	const buffer = renderer.createBuffer(width, height);
+	draw(buffer);
+	return buffer.flatMap((row, y) => row.flatMap((c, x) => (c.r || c.g || c.b ? [[x, y]] : [])));
+}
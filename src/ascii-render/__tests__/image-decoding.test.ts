@@ -0,0 +1,317 @@
+/**
+ * Tests for image decoding (PNG, Netpbm, BMP) and resampling
+ * Verifies decoded pixels against small hand-built files
+ */
+
+import { describe, expect, test } from "bun:test";
+import { deflateSync } from "node:zlib";
+import {
+	AsciiRenderer,
+	BufferFormat,
+	decodeImage,
+	MAX_IMAGE_PIXELS,
+	type PixelBuffer,
+	ResampleFilter,
+	resampleImage,
+	rgb,
+	SymbolSet,
+} from "../index";
+
+const encoder = new TextEncoder();
+
+/**
+ * CRC-32 as used by PNG chunks
+ */
+function crc32(bytes: Uint8Array): number {
+	let crc = 0xffffffff;
+	for (const byte of bytes) {
+		crc ^= byte;
+		for (let k = 0; k < 8; k++) {
+			crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+		}
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build a PNG from raw (already filtered) scanline bytes
+ */
+function buildPng(
+	width: number,
+	height: number,
+	bitDepth: number,
+	colorType: number,
+	scanlines: number[],
+	extra: [string, number[]][] = [],
+	interlace = 0,
+): Uint8Array {
+	const chunk = (type: string, body: Uint8Array): number[] => {
+		const typed = new Uint8Array([...encoder.encode(type), ...body]);
+		const out = new DataView(new ArrayBuffer(12 + body.length));
+		out.setUint32(0, body.length);
+		new Uint8Array(out.buffer).set(typed, 4);
+		out.setUint32(8 + body.length, crc32(typed));
+		return Array.from(new Uint8Array(out.buffer));
+	};
+	const header = new DataView(new ArrayBuffer(13));
+	header.setUint32(0, width);
+	header.setUint32(4, height);
+	header.setUint8(8, bitDepth);
+	header.setUint8(9, colorType);
+	header.setUint8(12, interlace);
+
+	return new Uint8Array([
+		0x89,
+		0x50,
+		0x4e,
+		0x47,
+		0x0d,
+		0x0a,
+		0x1a,
+		0x0a,
+		...chunk("IHDR", new Uint8Array(header.buffer)),
+		...extra.flatMap(([type, body]) => chunk(type, new Uint8Array(body))),
+		...chunk("IDAT", new Uint8Array(deflateSync(new Uint8Array(scanlines)))),
+		...chunk("IEND", new Uint8Array(0)),
+	]);
+}
+
+/**
+ * Build a BMP with a BITMAPINFOHEADER (40 bytes) and optional extra header bytes
+ */
+function buildBmp(
+	width: number,
+	height: number,
+	bitsPerPixel: number,
+	pixelRows: number[][],
+	options: { compression?: number; extraHeader?: number[]; palette?: number[] } = {},
+): Uint8Array {
+	const extraHeader = options.extraHeader ?? [];
+	const palette = options.palette ?? [];
+	const rowBytes = Math.ceil((width * bitsPerPixel) / 32) * 4;
+	const pixelOffset = 14 + 40 + extraHeader.length + palette.length;
+	const size = pixelOffset + rowBytes * pixelRows.length;
+	const view = new DataView(new ArrayBuffer(size));
+	const bytes = new Uint8Array(view.buffer);
+	bytes.set([0x42, 0x4d]);
+	view.setUint32(2, size, true);
+	view.setUint32(10, pixelOffset, true);
+	view.setUint32(14, 40, true);
+	view.setInt32(18, width, true);
+	view.setInt32(22, height, true);
+	view.setUint16(26, 1, true);
+	view.setUint16(28, bitsPerPixel, true);
+	view.setUint32(30, options.compression ?? 0, true);
+	bytes.set(extraHeader, 54);
+	bytes.set(palette, 54 + extraHeader.length);
+	pixelRows.forEach((row, i) => {
+		bytes.set(row, pixelOffset + i * rowBytes);
+	});
+	return bytes;
+}
+
+/**
+ * Flatten a decoded image to [r, g, b, a] tuples
+ */
+function rgba(image: PixelBuffer): number[][] {
+	return image.flat().map((c) => [c.r, c.g, c.b, c.a ?? 255]);
+}
+
+describe("Image decoding", () => {
+	test("decodes an 8-bit RGB PNG with every filter type", () => {
+		// 2x5 image, one row per filter type (None, Sub, Up, Average, Paeth)
+		const scanlines = [
+			[0, 10, 20, 30, 40, 50, 60],
+			[1, 10, 20, 30, 30, 30, 30],
+			[2, 0, 0, 0, 0, 0, 0],
+			[3, 5, 10, 15, 15, 15, 15],
+			[4, 0, 0, 0, 0, 0, 0],
+		];
+		const png = buildPng(2, 5, 8, 2, scanlines.flat());
+
+		expect(rgba(decodeImage(png))).toEqual([
+			[10, 20, 30, 255],
+			[40, 50, 60, 255],
+			[10, 20, 30, 255],
+			[40, 50, 60, 255],
+			[10, 20, 30, 255],
+			[40, 50, 60, 255],
+			[10, 20, 30, 255],
+			[40, 50, 60, 255],
+			[10, 20, 30, 255],
+			[40, 50, 60, 255],
+		]);
+	});
+
+	test("decodes paletted PNGs with tRNS alpha at low bit depths", () => {
+		// 4x1 image with 2-bit indices 0, 1, 2, 1
+		const png = buildPng(
+			4,
+			1,
+			2,
+			3,
+			[0, 0b00011001],
+			[
+				["PLTE", [255, 0, 0, 0, 255, 0, 0, 0, 255]],
+				["tRNS", [255, 0]],
+			],
+		);
+
+		expect(rgba(decodeImage(png))).toEqual([
+			[255, 0, 0, 255],
+			[0, 255, 0, 0],
+			[0, 0, 255, 255],
+			[0, 255, 0, 0],
+		]);
+	});
+
+	test("decodes 16-bit RGBA and gray with a transparent color key", () => {
+		const rgbaPng = buildPng(1, 1, 16, 6, [0, 0xff, 0xff, 0x80, 0x00, 0x00, 0x00, 0x7f, 0xff]);
+		expect(rgba(decodeImage(rgbaPng))).toEqual([[255, 128, 0, 127]]);
+
+		const grayPng = buildPng(3, 1, 4, 0, [0, 0x0f, 0x80], [["tRNS", [0, 0x0f]]]);
+		expect(rgba(decodeImage(grayPng))).toEqual([
+			[0, 0, 0, 255],
+			[255, 255, 255, 0],
+			[136, 136, 136, 255],
+		]);
+	});
+
+	test("decodes Adam7 interlaced PNGs", () => {
+		// 2x2 gray: pass 1 has (0,0), pass 6 has (1,0), pass 7 has row 1
+		const png = buildPng(2, 2, 8, 0, [0, 10, 0, 20, 0, 30, 40], [], 1);
+
+		expect(rgba(decodeImage(png)).map(([r]) => r)).toEqual([10, 20, 30, 40]);
+	});
+
+	test("decodes ASCII and binary Netpbm images", () => {
+		const ppm = decodeImage(encoder.encode("P3\n# comment\n2 1\n15\n15 0 0  0 15 0\n"));
+		expect(rgba(ppm)).toEqual([
+			[255, 0, 0, 255],
+			[0, 255, 0, 255],
+		]);
+
+		const pgm = decodeImage(
+			new Uint8Array([...encoder.encode("P5 2 1 65535\n"), 0xff, 0xff, 0x00, 0x00]),
+		);
+		expect(rgba(pgm)).toEqual([
+			[255, 255, 255, 255],
+			[0, 0, 0, 255],
+		]);
+
+		const pbm = decodeImage(new Uint8Array([...encoder.encode("P4\n3 1\n"), 0b10100000]));
+		expect(rgba(pbm).map(([r]) => r)).toEqual([0, 255, 0]);
+
+		expect(rgba(decodeImage(encoder.encode("P1\n3 1\n010"))).map(([r]) => r)).toEqual([
+			255, 0, 255,
+		]);
+	});
+
+	test("decodes PAM with alpha", () => {
+		const header = "P7\nWIDTH 2\nHEIGHT 1\nDEPTH 4\nMAXVAL 255\nTUPLTYPE RGB_ALPHA\nENDHDR\n";
+		const pam = new Uint8Array([...encoder.encode(header), 1, 2, 3, 4, 5, 6, 7, 8]);
+
+		expect(rgba(decodeImage(pam))).toEqual([
+			[1, 2, 3, 4],
+			[5, 6, 7, 8],
+		]);
+	});
+
+	test("decodes bottom-up 24-bit and paletted BMPs", () => {
+		// Rows are stored bottom-up, BGR, padded to 4 bytes
+		const bmp24 = buildBmp(1, 2, 24, [
+			[0, 0, 255, 0],
+			[255, 0, 0, 0],
+		]);
+		expect(rgba(decodeImage(bmp24))).toEqual([
+			[0, 0, 255, 255],
+			[255, 0, 0, 255],
+		]);
+
+		const bmp4 = buildBmp(3, 1, 4, [[0x01, 0x20, 0, 0]], {
+			palette: [0, 0, 0, 0, 0, 255, 0, 0, 255, 0, 0, 0],
+		});
+		expect(rgba(decodeImage(bmp4))).toEqual([
+			[0, 0, 0, 255],
+			[0, 255, 0, 255],
+			[0, 0, 255, 255],
+		]);
+	});
+
+	test("decodes top-down 32-bit BMPs with bit field masks", () => {
+		const masks = [0, 0, 0xff, 0, 0, 0xff, 0, 0, 0xff, 0, 0, 0, 0, 0, 0, 0xff];
+		const bmp = buildBmp(1, -1, 32, [[0x40, 0x30, 0x20, 0x80]], {
+			compression: 6,
+			extraHeader: masks,
+		});
+
+		expect(rgba(decodeImage(bmp))).toEqual([[0x20, 0x30, 0x40, 0x80]]);
+	});
+
+	test("rejects unknown and malformed data", () => {
+		expect(() => decodeImage(new Uint8Array([1, 2, 3]))).toThrow("Unknown image format");
+		expect(() => decodeImage(encoder.encode("P6\n4 4\n255\n\x00"))).toThrow();
+		expect(() => decodeImage(buildBmp(1, 1, 8, [[0, 0, 0, 0]], { compression: 1 }))).toThrow();
+	});
+
+	test("rejects images above the size limit before allocating them", () => {
+		const side = 2 ** 16;
+		expect(side * side).toBeGreaterThan(MAX_IMAGE_PIXELS);
+
+		expect(() => decodeImage(buildPng(side, side, 1, 0, [0]))).toThrow("too large");
+		expect(() => decodeImage(encoder.encode(`P1\n${side} ${side}\n1`))).toThrow("too large");
+		expect(() => decodeImage(buildBmp(side, side, 1, []))).toThrow("too large");
+		// Exactly at the limit is allowed as far as the size goes
+		expect(() => decodeImage(encoder.encode(`P4\n${2 ** 13} ${2 ** 12}\n`))).toThrow("Truncated");
+	});
+
+	test("returns packed buffers on request and renders through the pipeline", () => {
+		const png = buildPng(2, 2, 8, 0, [0, 255, 0, 0, 0, 255]);
+		const packed = decodeImage(png, BufferFormat.RGBA);
+		expect(packed.width).toBe(2);
+
+		const renderer = new AsciiRenderer({ symbolSet: SymbolSet.QUADRANT });
+		expect(renderer.render(packed)).toBe(renderer.render(decodeImage(png)));
+	});
+});
+
+describe("Resampling", () => {
+	const renderer = new AsciiRenderer();
+
+	test("nearest keeps hard edges and the input format", () => {
+		const source = renderer.createBuffer(2, 1, rgb(0, 0, 0));
+		renderer.setPixel(source, 1, 0, rgb(255, 255, 255));
+		const scaled = resampleImage(source, 4, 2, ResampleFilter.NEAREST);
+
+		expect(rgba(scaled).map(([r]) => r)).toEqual([0, 0, 255, 255, 0, 0, 255, 255]);
+	});
+
+	test("bilinear interpolates between pixel centers", () => {
+		const source = renderer.createBuffer(2, 1, rgb(0, 0, 0), BufferFormat.RGBA);
+		renderer.setPixel(source, 1, 0, rgb(200, 200, 200));
+		const scaled = resampleImage(source, 4, 1);
+
+		expect(scaled.width).toBe(4);
+		expect(Array.from({ length: 4 }, (_, x) => renderer.getPixel(scaled, x, 0)?.r)).toEqual([
+			0, 50, 150, 200,
+		]);
+	});
+
+	test("box averages covered area and weights colors by alpha", () => {
+		const source = renderer.createBuffer(4, 2, rgb(0, 0, 0));
+		renderer.setPixel(source, 0, 0, rgb(255, 0, 0));
+		renderer.setPixel(source, 1, 0, rgb(0, 0, 255, 0));
+		renderer.setPixel(source, 1, 1, rgb(255, 0, 0, 0));
+		renderer.setPixel(source, 0, 1, rgb(255, 0, 0));
+		renderer.setPixel(source, 2, 0, rgb(100, 100, 100));
+		renderer.setPixel(source, 3, 0, rgb(100, 100, 100));
+		renderer.setPixel(source, 2, 1, rgb(200, 200, 200));
+		renderer.setPixel(source, 3, 1, rgb(200, 200, 200));
+		const scaled = resampleImage(source, 2, 1, ResampleFilter.BOX);
+
+		expect(rgba(scaled)).toEqual([
+			[255, 0, 0, 128],
+			[150, 150, 150, 255],
+		]);
+	});
+});
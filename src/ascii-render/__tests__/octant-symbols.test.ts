@@ -0,0 +1,129 @@
+/**
+ * Tests for octant symbols (SymbolSet.OCTANT)
+ * Verifies that octant characters render correctly with 2x4 resolution
+ */
+
+import { describe, expect, test } from "bun:test";
+import { AsciiRenderer, getOctantChar, OCTANT_SYMBOLS, rgb, SymbolSet } from "../index";
+
+describe("Octant symbols", () => {
+	const renderer = new AsciiRenderer({
+		symbolSet: SymbolSet.OCTANT,
+		threshold: 128,
+	});
+
+	test("should render single pixel as top-left octant", () => {
+		const buffer = renderer.createBuffer(2, 4, { r: 0, g: 0, b: 0, a: 255 });
+		renderer.setPixel(buffer, 0, 0, { r: 255, g: 255, b: 255, a: 255 });
+
+		const output = renderer.render(buffer);
+		expect(output).toMatchSnapshot();
+	});
+
+	test("should render full 2x4 block as full character", () => {
+		const buffer = renderer.createBuffer(2, 4, { r: 0, g: 0, b: 0, a: 255 });
+		for (let y = 0; y < 4; y++) {
+			for (let x = 0; x < 2; x++) {
+				renderer.setPixel(buffer, x, y, { r: 255, g: 255, b: 255, a: 255 });
+			}
+		}
+
+		const output = renderer.render(buffer);
+		expect(output).toMatchSnapshot();
+	});
+
+	test("should render diagonal pattern correctly", () => {
+		const buffer = renderer.createBuffer(2, 4, { r: 0, g: 0, b: 0, a: 255 });
+		renderer.setPixel(buffer, 0, 0, { r: 255, g: 255, b: 255, a: 255 });
+		renderer.setPixel(buffer, 1, 1, { r: 255, g: 255, b: 255, a: 255 });
+		renderer.setPixel(buffer, 0, 2, { r: 255, g: 255, b: 255, a: 255 });
+		renderer.setPixel(buffer, 1, 3, { r: 255, g: 255, b: 255, a: 255 });
+
+		const output = renderer.render(buffer);
+		expect(output).toMatchSnapshot();
+	});
+
+	test("should render vertical line with octant symbols", () => {
+		const buffer = renderer.createBuffer(2, 12, { r: 0, g: 0, b: 0, a: 255 });
+		renderer.drawLine(buffer, 0, 0, 0, 11, rgb(255, 255, 255));
+
+		const output = renderer.render(buffer);
+		expect(output).toMatchSnapshot();
+	});
+
+	test("should render horizontal line with octant symbols", () => {
+		const buffer = renderer.createBuffer(8, 4, { r: 0, g: 0, b: 0, a: 255 });
+		renderer.drawLine(buffer, 0, 1, 7, 1, rgb(255, 255, 255));
+
+		const output = renderer.render(buffer);
+		expect(output).toMatchSnapshot();
+	});
+
+	test("should render rectangle with octant symbols", () => {
+		const buffer = renderer.createBuffer(8, 8, { r: 0, g: 0, b: 0, a: 255 });
+		renderer.drawRect(buffer, 1, 1, 6, 6, rgb(255, 255, 255));
+
+		const output = renderer.render(buffer);
+		expect(output).toMatchSnapshot();
+	});
+
+	test("should render filled rectangle with octant symbols", () => {
+		const buffer = renderer.createBuffer(8, 8, { r: 0, g: 0, b: 0, a: 255 });
+		renderer.drawRect(buffer, 1, 1, 6, 6, rgb(255, 255, 255), true);
+
+		const output = renderer.render(buffer);
+		expect(output).toMatchSnapshot();
+	});
+
+	test("should render circle with octant symbols", () => {
+		const buffer = renderer.createBuffer(12, 9, { r: 0, g: 0, b: 0, a: 255 });
+		renderer.drawCircle(buffer, 6, 4, 3, rgb(255, 255, 255));
+
+		const output = renderer.render(buffer);
+		expect(output).toMatchSnapshot();
+	});
+
+	test("should render filled circle with octant symbols", () => {
+		const buffer = renderer.createBuffer(12, 9, { r: 0, g: 0, b: 0, a: 255 });
+		renderer.drawCircle(buffer, 6, 4, 3, rgb(255, 85, 85), true);
+
+		const output = renderer.render(buffer);
+		expect(output).toMatchSnapshot();
+	});
+
+	test("should render diagonal line with octant symbols", () => {
+		const buffer = renderer.createBuffer(8, 8, { r: 0, g: 0, b: 0, a: 255 });
+		renderer.drawLine(buffer, 0, 0, 7, 7, rgb(255, 255, 255));
+
+		const output = renderer.render(buffer);
+		expect(output).toMatchSnapshot();
+	});
+
+	test("should handle empty buffer", () => {
+		const buffer = renderer.createBuffer(4, 8, { r: 0, g: 0, b: 0, a: 255 });
+
+		const output = renderer.render(buffer);
+		expect(output).toMatchSnapshot();
+	});
+
+	test("reuses existing block glyphs for the patterns they cover", () => {
+		expect(getOctantChar(0b00000000)).toBe(" ");
+		expect(getOctantChar(0b11111111)).toBe("█");
+		expect(getOctantChar(0b00001111)).toBe("▀");
+		expect(getOctantChar(0b01010101)).toBe("▌");
+		expect(getOctantChar(0b00000101)).toBe("▘");
+		expect(getOctantChar(0b11000000)).toBe("▂");
+	});
+
+	test("assigns the octant block in pattern order", () => {
+		const octants = OCTANT_SYMBOLS.filter((symbol) => (symbol.char.codePointAt(0) ?? 0) >= 0x1cd00);
+
+		expect(OCTANT_SYMBOLS.every((symbol, i) => symbol.pattern === i)).toBe(true);
+		expect(new Set(OCTANT_SYMBOLS.map((symbol) => symbol.char)).size).toBe(256);
+		expect(getOctantChar(0b00000100)).toBe("\u{1cd00}");
+		expect(getOctantChar(0b11111110)).toBe("\u{1cde5}");
+		expect(octants.filter((symbol) => (symbol.char.codePointAt(0) ?? 0) < 0x1ce00).length).toBe(
+			230,
+		);
+	});
+});
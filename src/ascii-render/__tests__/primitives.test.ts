@@ -0,0 +1,191 @@
+/**
+ * Tests for polyline, polygon, ellipse, arc and Bezier drawing
+ * Verifies continuous dash phase and gradients across segments, fill rules
+ * and adaptive curve flattening
+ */
+
+import { describe, expect, test } from "bun:test";
+import { FillRule, flattenArc, flattenBezier, rgb, SymbolSet, type Vertex } from "../index";
+import { drawn, renderer, WHITE } from "./helpers";
+
+describe("Polylines", () => {
+	test("continue the dash pattern across segments", () => {
+		const points = [
+			{ x: 0, y: 0 },
+			{ x: 3, y: 0 },
+			{ x: 3, y: 3 },
+		];
+		expect(
+			drawn(4, 4, (b) => renderer.drawPolyline(b, points, WHITE, { pattern: [1, 0] })),
+		).toEqual(["#.#.", "...#", "....", "...#"]);
+	});
+
+	test("run the gradient along the whole path", () => {
+		const buffer = renderer.createBuffer(5, 5);
+		const points = [
+			{ x: 0, y: 0 },
+			{ x: 4, y: 0 },
+			{ x: 4, y: 4 },
+		];
+		renderer.drawPolyline(buffer, points, WHITE, {
+			startColor: rgb(0, 0, 0),
+			endColor: rgb(200, 0, 0),
+		});
+
+		expect([0, 2, 4].map((x) => buffer[0]?.[x]?.r)).toEqual([0, 50, 100]);
+		expect(buffer[4]?.[4]?.r).toBe(200);
+	});
+
+	test("closes paths on request", () => {
+		const square = [
+			{ x: 0, y: 0 },
+			{ x: 2, y: 0 },
+			{ x: 2, y: 2 },
+			{ x: 0, y: 2 },
+		];
+		expect(drawn(3, 3, (b) => renderer.drawPolyline(b, square, WHITE, undefined, true))).toEqual([
+			"###",
+			"#.#",
+			"###",
+		]);
+		expect(drawn(3, 3, (b) => renderer.drawPolygon(b, square, WHITE))).toEqual([
+			"###",
+			"#.#",
+			"###",
+		]);
+	});
+});
+
+describe("Polygon fills", () => {
+	test("cover pixels whose centers are inside", () => {
+		const rect = [
+			{ x: 1, y: 1 },
+			{ x: 4, y: 1 },
+			{ x: 4, y: 3 },
+			{ x: 1, y: 3 },
+		];
+		expect(
+			drawn(5, 4, (b) => renderer.drawPolygon(b, rect, WHITE, undefined, FillRule.NONZERO)),
+		).toEqual([".....", ".###.", ".###.", "....."]);
+	});
+
+	test("even-odd leaves the center of a star open, nonzero fills it", () => {
+		const star: Vertex[] = Array.from({ length: 5 }, (_, i) => {
+			const angle = -Math.PI / 2 + (i * 4 * Math.PI) / 5;
+			return { x: 10 + 9 * Math.cos(angle), y: 10 + 9 * Math.sin(angle) };
+		});
+		const center = (rule: FillRule) => {
+			const buffer = renderer.createBuffer(20, 20);
+			renderer.drawPolygon(buffer, star, WHITE, undefined, rule);
+			return buffer[10]?.[10]?.r;
+		};
+
+		expect(center(FillRule.EVEN_ODD)).toBe(0);
+		expect(center(FillRule.NONZERO)).toBe(255);
+	});
+});
+
+describe("Ellipses and arcs", () => {
+	test("outlines reach the radii and both outlines and fills are symmetric", () => {
+		const outline = drawn(13, 9, (b) => renderer.drawEllipse(b, 6, 4, 6, 4, WHITE));
+		const filled = drawn(13, 9, (b) => renderer.drawEllipse(b, 6.5, 4.5, 6, 4, WHITE, true));
+
+		// Extreme points of the outline
+		expect([outline[0]?.[6], outline[8]?.[6], outline[4]?.[0], outline[4]?.[12]]).toEqual([
+			"#",
+			"#",
+			"#",
+			"#",
+		]);
+		expect(outline).toEqual([...outline].reverse());
+		expect(outline.map((row) => [...row].reverse().join(""))).toEqual(outline);
+		expect(filled).toEqual([...filled].reverse());
+		expect(filled.map((row) => [...row].reverse().join(""))).toEqual(filled);
+		expect([outline.join("\n"), filled.join("\n")]).toMatchSnapshot();
+	});
+
+	test("arcs sweep from start to end angle", () => {
+		expect(drawn(5, 5, (b) => renderer.drawArc(b, 0, 0, 4, 4, 0, Math.PI / 2, WHITE))).toEqual([
+			"....#",
+			"....#",
+			"...#.",
+			"..#..",
+			"##...",
+		]);
+		const backwards = flattenArc(0, 0, 1, 1, Math.PI, 0);
+		expect(backwards[0]?.x).toBeCloseTo(-1);
+		expect(backwards[(backwards.length - 1) / 2]?.y).toBeCloseTo(1);
+		expect(backwards[backwards.length - 1]?.x).toBeCloseTo(1);
+	});
+
+	test("huge radii are flattened into a bounded number of segments", () => {
+		expect(flattenArc(0, 0, 1e17, 1e17, 0, 2 * Math.PI).length).toBeLessThanOrEqual(4097);
+
+		const empty = drawn(10, 5, () => {});
+		expect(drawn(10, 5, (b) => renderer.drawEllipse(b, 5, 5, 1e17, 1e17, WHITE))).toEqual(empty);
+		expect(drawn(10, 5, (b) => renderer.drawCircle(b, 5.5, 5, 1e17, WHITE))).toEqual(empty);
+		expect(drawn(10, 5, (b) => renderer.drawArc(b, 5, 5, 1e17, 1e17, 0, 3, WHITE))).toEqual(empty);
+		expect(drawn(10, 5, (b) => renderer.drawCircle(b, 5, 5, 1e17, WHITE, true))).toEqual(
+			empty.map((row) => row.replaceAll(".", "#")),
+		);
+		// Off screen
+		expect(drawn(10, 5, (b) => renderer.drawEllipse(b, 3e9, 0, 1e9, 1e9, WHITE, true))).toEqual(
+			empty,
+		);
+		// The top of a circle far larger than the buffer crosses it as a line
+		expect(drawn(10, 5, (b) => renderer.drawCircle(b, 5, 5e5 + 2, 5e5, WHITE))[2]).toBe(
+			"##########",
+		);
+	});
+});
+
+describe("Bezier curves", () => {
+	test("flatten adaptively", () => {
+		const straight = flattenBezier([
+			{ x: 0, y: 0 },
+			{ x: 5, y: 5 },
+			{ x: 10, y: 10 },
+		]);
+		expect(straight).toEqual([
+			{ x: 0, y: 0 },
+			{ x: 10, y: 10 },
+		]);
+
+		const curve = flattenBezier([
+			{ x: 0, y: 0 },
+			{ x: 0, y: 40 },
+			{ x: 40, y: 40 },
+			{ x: 40, y: 0 },
+		]);
+		expect(curve.length).toBeGreaterThan(8);
+		expect(curve[curve.length - 1]).toEqual({ x: 40, y: 0 });
+		// Points of a cubic from (0,0) to (40,0) bulge towards +y
+		expect(Math.max(...curve.map((p) => p.y))).toBeCloseTo(30, 0);
+	});
+
+	test("draw quadratic and cubic curves with dashes", () => {
+		const buffer = renderer.createBuffer(24, 16);
+		renderer.drawBezier(
+			buffer,
+			[
+				{ x: 0, y: 15 },
+				{ x: 12, y: -14 },
+				{ x: 23, y: 15 },
+			],
+			rgb(0, 200, 255),
+		);
+		renderer.drawBezier(
+			buffer,
+			[
+				{ x: 0, y: 0 },
+				{ x: 8, y: 30 },
+				{ x: 16, y: -15 },
+				{ x: 23, y: 15 },
+			],
+			rgb(255, 100, 0),
+			{ pattern: [1, 1, 0] },
+		);
+
+		expect(renderer.render(buffer, { symbolSet: SymbolSet.BRAILLE })).toMatchSnapshot();
+	});
+});
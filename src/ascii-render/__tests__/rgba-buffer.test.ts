@@ -0,0 +1,80 @@
+/**
+ * Tests for packed RGBA pixel buffers (BufferFormat.RGBA)
+ * Verifies that packed buffers render identically to nested color arrays
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	AsciiRenderer,
+	BufferFormat,
+	type PixelSurface,
+	rgb,
+	SymbolSet,
+	toPixelArray,
+	toRgbaBuffer,
+} from "../index";
+
+const BLACK = { r: 0, g: 0, b: 0, a: 255 };
+
+function drawScene(renderer: AsciiRenderer, buffer: PixelSurface): void {
+	renderer.drawLine(buffer, 0, 0, 11, 8, rgb(255, 255, 255));
+	renderer.drawLine(buffer, 1, 7, 10, 2, rgb(0, 255, 100), { pattern: [1, 1, 0], thickness: 2 });
+	renderer.drawRect(buffer, 2, 2, 5, 4, rgb(255, 85, 85));
+	renderer.drawCircle(buffer, 8, 4, 2, rgb(80, 120, 255), true);
+}
+
+describe("RGBA pixel buffer", () => {
+	const renderer = new AsciiRenderer({ threshold: 128 });
+
+	test("createBuffer returns a packed buffer with width, height and stride", () => {
+		const buffer = renderer.createBuffer(5, 3, rgb(10, 20, 30), BufferFormat.RGBA);
+
+		expect(buffer.width).toBe(5);
+		expect(buffer.height).toBe(3);
+		expect(buffer.stride).toBe(20);
+		expect(buffer.data.length).toBe(60);
+		expect(buffer.pixels.length).toBe(15);
+		expect(Array.from(buffer.data.subarray(56, 60))).toEqual([10, 20, 30, 255]);
+	});
+
+	test("setPixel and getPixel round-trip and ignore out-of-bounds writes", () => {
+		const buffer = renderer.createBuffer(4, 4, BLACK, BufferFormat.RGBA);
+		renderer.setPixel(buffer, 2, 1, rgb(255, 128, 0, 64));
+		renderer.setPixel(buffer, -1, 0, rgb(255, 255, 255));
+		renderer.setPixel(buffer, 4, 0, rgb(255, 255, 255));
+
+		expect(renderer.getPixel(buffer, 2, 1)).toEqual({ r: 255, g: 128, b: 0, a: 64 });
+		expect(renderer.getPixel(buffer, 4, 0)).toBeNull();
+		expect(buffer.data.reduce((sum, v) => sum + v, 0)).toBe(255 + 128 + 64 + 15 * 255);
+	});
+
+	test("clear fills in place without replacing the storage", () => {
+		const buffer = renderer.createBuffer(6, 4, BLACK, BufferFormat.RGBA);
+		const data = buffer.data;
+		renderer.clear(buffer, rgb(26, 26, 26));
+
+		expect(buffer.data).toBe(data);
+		expect(renderer.getPixel(buffer, 5, 3)).toEqual({ r: 26, g: 26, b: 26, a: 255 });
+	});
+
+	for (const symbolSet of Object.values(SymbolSet)) {
+		test(`renders the same output as Color[][] with ${symbolSet} symbols`, () => {
+			const packed = renderer.createBuffer(12, 9, BLACK, BufferFormat.RGBA);
+			const nested = renderer.createBuffer(12, 9, BLACK);
+			drawScene(renderer, packed);
+			drawScene(renderer, nested);
+
+			expect(renderer.render(packed, { symbolSet })).toBe(renderer.render(nested, { symbolSet }));
+		});
+	}
+
+	test("adapters convert between nested arrays and packed buffers", () => {
+		const nested = renderer.createBuffer(3, 2, BLACK);
+		renderer.setPixel(nested, 1, 1, rgb(1, 2, 3));
+
+		const packed = toRgbaBuffer(nested);
+		expect(packed.width).toBe(3);
+		expect(packed.height).toBe(2);
+		expect(toPixelArray(packed)).toEqual(nested.map((row) => row.map((c) => ({ ...c, a: 255 }))));
+	});
+});
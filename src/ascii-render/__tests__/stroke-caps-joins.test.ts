@@ -0,0 +1,191 @@
+/**
+ * Tests for thick stroke outlining
+ * Verifies width in every direction, line caps, line joins and dash
+ * patterns measured in arc length
+ */
+
+import { describe, expect, test } from "bun:test";
+import { LineCap, LineJoin, type LineStyle, rgb, type Vertex } from "../index";
+import { outlineStroke } from "../stroke";
+import { drawn, renderer, WHITE } from "./helpers";
+
+/**
+ * Number of lit pixels in a drawing
+ */
+function count(rows: string[]): number {
+	return rows.join("").split("#").length - 1;
+}
+
+describe("Thick lines", () => {
+	test("are as wide diagonally as along the axes", () => {
+		const style: LineStyle = { thickness: 5 };
+		const horizontal = count(
+			drawn(40, 40, (b) => renderer.drawLine(b, 5, 20, 35, 20, WHITE, style)),
+		);
+		const diagonal = count(drawn(40, 40, (b) => renderer.drawLine(b, 5, 5, 35, 35, WHITE, style)));
+
+		// Both cover about length * width pixels
+		expect(horizontal).toBe(31 * 5);
+		expect(Math.abs(diagonal - (30 * Math.SQRT2 + 1) * 5)).toBeLessThan(12);
+	});
+
+	test("keep the pixels of axis-aligned lines", () => {
+		expect(drawn(6, 5, (b) => renderer.drawLine(b, 1, 2, 4, 2, WHITE, { thickness: 3 }))).toEqual([
+			"......",
+			".####.",
+			".####.",
+			".####.",
+			"......",
+		]);
+	});
+});
+
+describe("Line caps", () => {
+	const capped = (cap: LineCap, thickness = 5) =>
+		drawn(13, 7, (b) => renderer.drawLine(b, 3, 3, 9, 3, WHITE, { thickness, cap }));
+
+	test("butt caps end at the endpoint pixels", () => {
+		expect(capped(LineCap.BUTT)).toEqual([
+			".............",
+			"...#######...",
+			"...#######...",
+			"...#######...",
+			"...#######...",
+			"...#######...",
+			".............",
+		]);
+	});
+
+	test("square caps extend by half the width", () => {
+		expect(capped(LineCap.SQUARE, 4)).toEqual([
+			".............",
+			".###########.",
+			".###########.",
+			".###########.",
+			".###########.",
+			".............",
+			".............",
+		]);
+	});
+
+	test("round caps are half discs", () => {
+		expect(capped(LineCap.ROUND)).toEqual([
+			".............",
+			"..#########..",
+			".###########.",
+			".###########.",
+			".###########.",
+			"..#########..",
+			".............",
+		]);
+	});
+});
+
+describe("Line joins", () => {
+	const corner: Vertex[] = [
+		{ x: 3, y: 17 },
+		{ x: 10, y: 5 },
+		{ x: 17, y: 17 },
+	];
+	const joined = (join: LineJoin, miterLimit?: number) =>
+		drawn(21, 20, (b) =>
+			renderer.drawPolyline(b, corner, WHITE, { thickness: 6, join, miterLimit }),
+		);
+
+	test("miters reach past bevels, and round joins lie between them", () => {
+		const miter = count(joined(LineJoin.MITER));
+		const bevel = count(joined(LineJoin.BEVEL));
+		const round = count(joined(LineJoin.ROUND));
+
+		expect(miter).toBeGreaterThan(round);
+		expect(round).toBeGreaterThan(bevel);
+		// The miter tip sits halfWidth / sin(30°) above the corner
+		expect(joined(LineJoin.MITER)[0]?.[10]).toBe("#");
+		expect(joined(LineJoin.ROUND)[3]?.[10]).toBe("#");
+		expect(joined(LineJoin.BEVEL)[3]?.[10]).toBe(".");
+	});
+
+	test("miters longer than the limit become bevels", () => {
+		expect(joined(LineJoin.MITER, 1.5)).toEqual(joined(LineJoin.BEVEL));
+	});
+
+	test("closed paths join their last segment to the first", () => {
+		const square = [
+			{ x: 2, y: 2 },
+			{ x: 8, y: 2 },
+			{ x: 8, y: 8 },
+			{ x: 2, y: 8 },
+		];
+		expect(
+			drawn(11, 11, (b) => renderer.drawPolyline(b, square, WHITE, { thickness: 3 }, true)),
+		).toMatchSnapshot();
+	});
+});
+
+describe("Thick dashes", () => {
+	/**
+	 * Number of dashes along a diagonal from (3, 3) to (24, 24)
+	 */
+	function diagonalDashes(style: LineStyle): number {
+		const buffer = renderer.createBuffer(30, 30);
+		renderer.drawLine(buffer, 3, 3, 24, 24, WHITE, {
+			...style,
+			pattern: [1, 1, 1, 1, 0, 0, 0, 0],
+		});
+		const dashes = Array.from({ length: 30 }, (_, i) => buffer[i]?.[i]?.r ?? 0);
+		return dashes.filter((r, i) => r > 0 && !(dashes[i - 1] ?? 0)).length;
+	}
+
+	test("are measured in arc length", () => {
+		// A 30px diagonal fits fewer 8px periods than its 21 Bresenham steps would
+		expect(diagonalDashes({ thickness: 3 })).toBe(Math.ceil((21 * Math.SQRT2 + 1) / 8));
+	});
+
+	test("are as long as the dashes of thin and anti-aliased lines", () => {
+		const thick = diagonalDashes({ thickness: 3 });
+
+		expect(diagonalDashes({})).toBe(thick);
+		expect(diagonalDashes({ thickness: 2 })).toBe(thick);
+		expect(diagonalDashes({ antialias: true })).toBe(thick);
+	});
+
+	test("only generate dashes near the visible area", () => {
+		const points = [
+			{ x: -1e7, y: 10 },
+			{ x: 1e7, y: 10 },
+		];
+		const options = {
+			width: 3,
+			cap: LineCap.BUTT,
+			join: LineJoin.MITER,
+			miterLimit: 10,
+			pattern: [1, 0],
+		};
+		// Ten million dashes, of which only those near the 4px wide area are outlined
+		const { polygons } = outlineStroke(points, false, options, {
+			x: 0,
+			y: 0,
+			width: 4,
+			height: 20,
+		});
+		expect(polygons.length).toBeLessThan(50);
+
+		const buffer = renderer.createBuffer(20, 20);
+		renderer.drawLine(buffer, -1e7, 10, 1e7, 10, WHITE, { thickness: 3, pattern: [1, 0] });
+		expect(buffer[10]?.map((c) => (c.r > 0 ? "#" : ".")).join("")).toBe("#.#.#.#.#.#.#.#.#.#.");
+	});
+});
+
+describe("Thick strokes", () => {
+	test("run gradients along the path", () => {
+		const buffer = renderer.createBuffer(12, 5);
+		renderer.drawLine(buffer, 1, 2, 10, 2, WHITE, {
+			thickness: 3,
+			startColor: rgb(0, 0, 0),
+			endColor: rgb(180, 0, 0),
+		});
+
+		expect([1, 10].map((x) => buffer[1]?.[x]?.r)).toEqual([0, 180]);
+		expect(buffer[3]?.[4]?.r).toBe(buffer[1]?.[4]?.r);
+	});
+});
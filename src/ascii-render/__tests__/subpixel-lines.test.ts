@@ -0,0 +1,94 @@
+/**
+ * Tests for sub-pixel (float) coordinates in lines and other primitives
+ * Verifies pixel-center sampling, smooth motion, and gradient and dash
+ * phase that follow the true endpoints
+ */
+
+import { describe, expect, test } from "bun:test";
+import { rgb } from "../index";
+import { lit, renderer, WHITE } from "./helpers";
+
+describe("Float line endpoints", () => {
+	test("each column takes the row nearest the line at its center", () => {
+		const pixels = lit(8, 5, (b) => renderer.drawLine(b, 0.4, 0.3, 6.6, 3.4, WHITE));
+		const slope = (3.4 - 0.3) / (6.6 - 0.4);
+
+		// Columns whose centers lie between the endpoints
+		expect(pixels.map(([x]) => x).sort()).toEqual([1, 2, 3, 4, 5, 6]);
+		for (const [x = 0, y] of pixels) {
+			expect(y).toBe(Math.round(0.3 + (x - 0.4) * slope));
+		}
+	});
+
+	test("a slowly moving line moves monotonically", () => {
+		let previous = -Infinity;
+		for (let shift = 0; shift <= 2; shift += 0.125) {
+			const pixels = lit(10, 5, (b) => renderer.drawLine(b, 0, 1 + shift, 9, 1.8 + shift, WHITE));
+			const total = pixels.reduce((sum, [, y = 0]) => sum + y, 0);
+			expect(pixels).toHaveLength(10);
+			expect(total).toBeGreaterThanOrEqual(previous);
+			previous = total;
+		}
+	});
+
+	test("short and degenerate fractional lines terminate", () => {
+		expect(lit(4, 4, (b) => renderer.drawLine(b, 1.2, 1.3, 1.4, 1.1, WHITE))).toEqual([[1, 1]]);
+		expect(lit(4, 200, (b) => renderer.drawLine(b, 0.3, 0.7, 0.31, 150.2, WHITE))).toHaveLength(
+			150,
+		);
+	});
+
+	test("gradients follow the true endpoints", () => {
+		const buffer = renderer.createBuffer(6, 6);
+		const style = { startColor: rgb(0, 0, 0), endColor: rgb(200, 0, 0) };
+		renderer.drawLine(buffer, 0.5, 0, 4.5, 0, WHITE, style);
+		renderer.drawLine(buffer, 0, 1, 4, 5, WHITE, style);
+
+		expect([1, 2, 3, 4].map((x) => buffer[0]?.[x]?.r)).toEqual([25, 75, 125, 175]);
+		// Diagonal lines reach the end color at their last pixel
+		expect(buffer[5]?.[4]?.r).toBe(200);
+	});
+
+	test("dashes move with the line", () => {
+		const style = { pattern: [1, 1, 0] };
+		const first = lit(14, 1, (b) => renderer.drawLine(b, 0.3, 0, 9.3, 0, WHITE, style));
+		const moved = lit(14, 1, (b) => renderer.drawLine(b, 1.3, 0, 10.3, 0, WHITE, style));
+
+		expect(moved).toEqual(first.map(([x = 0, y = 0]) => [x + 1, y]));
+	});
+
+	test("dashes continue across joints off the pixel centers", () => {
+		const style = { pattern: [1, 0] };
+		const points = [
+			{ x: 0.5, y: 0 },
+			{ x: 3.7, y: 0 },
+			{ x: 7.2, y: 0 },
+			{ x: 12.5, y: 0 },
+		];
+		const path = lit(14, 1, (b) => renderer.drawPolyline(b, points, WHITE, style));
+		const line = lit(14, 1, (b) => renderer.drawLine(b, 0.5, 0, 12.5, 0, WHITE, style));
+
+		expect(path).toEqual(line);
+		expect(path.map(([x]) => x)).toEqual([2, 4, 6, 8, 10, 12]);
+	});
+});
+
+describe("Float coordinates in other primitives", () => {
+	test("pixels and rectangles cover the pixels whose centers they contain", () => {
+		expect(lit(4, 4, (b) => renderer.setPixel(b, 1.7, 0.2, WHITE))).toEqual([[2, 0]]);
+		expect(lit(4, 4, (b) => renderer.drawRect(b, 0.6, 0.4, 2, 2, WHITE, true))).toEqual([
+			[1, 0],
+			[2, 0],
+			[1, 1],
+			[2, 1],
+		]);
+	});
+
+	test("circles with a fractional center keep their radius", () => {
+		const pixels = lit(12, 12, (b) => renderer.drawCircle(b, 5.5, 5.5, 4, WHITE));
+		expect(pixels.length).toBeGreaterThan(16);
+		for (const [x = 0, y = 0] of pixels) {
+			expect(Math.abs(Math.hypot(x - 5.5, y - 5.5) - 4)).toBeLessThan(0.75);
+		}
+	});
+});
@@ -0,0 +1,161 @@
+/**
+ * Tests for the custom symbol set registry
+ * Verifies mapping with registered sets of any grid, custom bit layouts and
+ * lookups, and the validation of definitions
+ */
+
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+	AsciiRenderer,
+	getSymbolDimensions,
+	getSymbolSetDefinition,
+	listSymbolSets,
+	mapPixelsToCells,
+	type PixelBuffer,
+	registerSymbolSet,
+	rgb,
+	type SymbolDef,
+	SymbolSet,
+	unregisterSymbolSet,
+} from "../index";
+
+const WHITE = rgb(255, 255, 255);
+
+/**
+ * Symbols for a 3x1 grid, bit x for column x
+ */
+const THIRDS: SymbolDef[] = [
+	{ char: " ", pattern: 0b000, width: 3, height: 1 },
+	{ char: "[", pattern: 0b001, width: 3, height: 1 },
+	{ char: "|", pattern: 0b010, width: 3, height: 1 },
+	{ char: "]", pattern: 0b100, width: 3, height: 1 },
+	{ char: "=", pattern: 0b111, width: 3, height: 1 },
+];
+
+/**
+ * A one-row buffer with the pixels marked "#" lit
+ */
+function row(pixels: string): PixelBuffer {
+	return [[...pixels].map((p) => (p === "#" ? { ...WHITE } : rgb(0, 0, 0)))];
+}
+
+/**
+ * Characters of the first grid row
+ */
+function chars(buffer: PixelBuffer, symbolSet: string): string {
+	return (
+		mapPixelsToCells(buffer, symbolSet, 128)[0]
+			?.map((cell) => cell.char)
+			.join("") ?? ""
+	);
+}
+
+afterEach(() => {
+	for (const name of listSymbolSets()) {
+		if (!(Object.values(SymbolSet) as string[]).includes(name)) unregisterSymbolSet(name);
+	}
+});
+
+describe("Symbol set registry", () => {
+	test("lists the built-in sets and declares their dimensions", () => {
+		expect(listSymbolSets()).toEqual(Object.values(SymbolSet));
+		expect(getSymbolDimensions(SymbolSet.SEXTANT)).toEqual({ width: 2, height: 3 });
+		expect(getSymbolSetDefinition(SymbolSet.QUADRANT).name).toBe(SymbolSet.QUADRANT);
+	});
+
+	test("maps pixels with a registered set of any grid", () => {
+		registerSymbolSet({ name: "thirds", width: 3, height: 1, symbols: THIRDS });
+
+		expect(getSymbolDimensions("thirds")).toEqual({ width: 3, height: 1 });
+		// The last cell, "##" and a pixel past the edge, takes the nearest symbol
+		expect(chars(row("#..###.#.##"), "thirds")).toBe("[=|[");
+		expect(listSymbolSets()).toContain("thirds");
+	});
+
+	test("uses the declared bit layout and lookup", () => {
+		const seen: number[] = [];
+		registerSymbolSet({
+			name: "mirrored",
+			width: 2,
+			height: 1,
+			symbols: [{ char: " ", pattern: 0, width: 2, height: 1 }],
+			layout: [
+				{ x: 0, y: 0, bit: 0b10 },
+				{ x: 1, y: 0, bit: 0b01 },
+			],
+			lookup: (pattern) => {
+				seen.push(pattern);
+				return "abcd"[pattern] ?? "?";
+			},
+		});
+
+		expect(chars(row("#..###"), "mirrored")).toBe("cbd");
+		expect(seen).toEqual([2, 1, 3]);
+	});
+
+	test("renders through AsciiRenderer.setSymbolSet", () => {
+		registerSymbolSet({ name: "thirds", width: 3, height: 1, symbols: THIRDS });
+		const renderer = new AsciiRenderer({ symbolSet: "thirds" });
+		const buffer = renderer.createBuffer(6, 2);
+		renderer.drawLine(buffer, 0, 1, 5, 1, WHITE);
+
+		expect(renderer.renderToGrid(buffer).map((cells) => cells.map((c) => c.char).join(""))).toEqual(
+			["  ", "=="],
+		);
+		renderer.setSymbolSet(SymbolSet.BRAILLE);
+		expect(renderer.renderToGrid(buffer)[0]?.length).toBe(3);
+	});
+
+	test("replaces custom sets and protects built-in ones", () => {
+		registerSymbolSet({ name: "thirds", width: 3, height: 1, symbols: THIRDS });
+		registerSymbolSet({ name: "thirds", width: 1, height: 1, symbols: THIRDS });
+
+		expect(getSymbolDimensions("thirds")).toEqual({ width: 1, height: 1 });
+		expect(unregisterSymbolSet("thirds")).toBe(true);
+		expect(unregisterSymbolSet("thirds")).toBe(false);
+		expect(() => unregisterSymbolSet(SymbolSet.BRAILLE)).toThrow();
+		expect(() =>
+			registerSymbolSet({ name: SymbolSet.HALF, width: 1, height: 2, symbols: THIRDS }),
+		).toThrow();
+	});
+
+	test("rejects invalid definitions", () => {
+		const define =
+			(width: number, height: number, extra = {}) =>
+			() =>
+				registerSymbolSet({ name: "bad", width, height, symbols: THIRDS, ...extra });
+
+		expect(define(0, 1)).toThrow();
+		expect(define(1.5, 1)).toThrow();
+		expect(define(4, 8)).toThrow();
+		expect(define(1, 1, { symbols: [] })).toThrow();
+		// Two sub-pixels sharing a bit
+		expect(
+			define(2, 1, {
+				layout: [
+					{ x: 0, y: 0, bit: 1 },
+					{ x: 1, y: 0, bit: 1 },
+				],
+			}),
+		).toThrow();
+		// A sub-pixel outside the grid
+		expect(
+			define(2, 1, {
+				layout: [
+					{ x: 0, y: 0, bit: 1 },
+					{ x: 2, y: 0, bit: 2 },
+				],
+			}),
+		).toThrow();
+		expect(listSymbolSets()).not.toContain("bad");
+	});
+
+	test("rejects unknown names instead of falling back", () => {
+		const renderer = new AsciiRenderer();
+
+		expect(() => getSymbolSetDefinition("brail")).toThrow();
+		expect(() => renderer.setSymbolSet("brail")).toThrow();
+		expect(renderer.getOptions().symbolSet).toBe(SymbolSet.HALF);
+		expect(() => chars(row("##"), "brail")).toThrow();
+	});
+});
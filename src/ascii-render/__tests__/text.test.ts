@@ -0,0 +1,168 @@
+/**
+ * Tests for bitmap font text drawing and BDF/PSF font loading
+ * Verifies glyph placement, alignment, scaling and clipping pixel by pixel
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	type BitmapFont,
+	decodeFont,
+	FONT_3X5,
+	FONT_5X7,
+	rgb,
+	SymbolSet,
+	TextAlign,
+} from "../index";
+import { drawn, renderer, WHITE } from "./helpers";
+
+describe("Built-in fonts", () => {
+	test("cover printable ASCII", () => {
+		for (const font of [FONT_3X5, FONT_5X7]) {
+			for (let code = 32; code < 127; code++) {
+				expect(font.glyphs.has(String.fromCharCode(code))).toBe(true);
+			}
+		}
+	});
+
+	test("draw glyphs with spacing and fall back to the default char", () => {
+		expect(drawn(8, 5, (b) => renderer.drawText(b, "Hi", 0, 0, WHITE, { font: FONT_3X5 }))).toEqual(
+			["#.#..#..", "#.#.....", "###.##..", "#.#..#..", "#.#.###."],
+		);
+		expect(drawn(4, 5, (b) => renderer.drawText(b, "é", 0, 0, WHITE, { font: FONT_3X5 }))).toEqual(
+			drawn(4, 5, (b) => renderer.drawText(b, "?", 0, 0, WHITE, { font: FONT_3X5 })),
+		);
+	});
+});
+
+describe("drawText", () => {
+	test("aligns each line relative to x and stacks lines", () => {
+		const options = { font: FONT_3X5, align: TextAlign.RIGHT, lineSpacing: 1 };
+		expect(drawn(9, 12, (b) => renderer.drawText(b, "1\n11", 9, 0, WHITE, options))).toEqual([
+			"......#..",
+			".....##..",
+			"......#..",
+			"......#..",
+			".....###.",
+			".........",
+			".........",
+			"..#...#..",
+			".##..##..",
+			"..#...#..",
+			"..#...#..",
+			".###.###.",
+		]);
+		expect(
+			drawn(8, 1, (b) =>
+				renderer.drawText(b, "_", 4, -4, WHITE, { font: FONT_3X5, align: TextAlign.CENTER }),
+			),
+		).toEqual(["..###..."]);
+	});
+
+	test("scales glyphs and clips to the clip rectangle", () => {
+		expect(
+			drawn(8, 4, (b) =>
+				renderer.drawText(b, "-", 0, -2, WHITE, {
+					font: FONT_3X5,
+					scale: 2,
+					clip: { x: 1, y: 0, width: 4, height: 3 },
+				}),
+			),
+		).toEqual(["........", "........", ".####...", "........"]);
+		expect(renderer.measureText("ab\nc", { font: FONT_3X5, scale: 2 })).toEqual({
+			width: 16,
+			height: 24,
+		});
+	});
+
+	test("renders labels through the cell mapping", () => {
+		const buffer = renderer.createBuffer(24, 8);
+		renderer.drawText(buffer, "x=42", 0, 0, rgb(255, 200, 0));
+
+		expect(renderer.render(buffer, { symbolSet: SymbolSet.BRAILLE })).toMatchSnapshot();
+		expect(renderer.measureText("x=42")).toEqual({ width: 24, height: 8 });
+	});
+});
+
+describe("Font loading", () => {
+	/**
+	 * Check the glyph "A" of a loaded 4x4 test font
+	 */
+	function expectGlyphA(font: BitmapFont): void {
+		const glyph = font.glyphs.get("A");
+		expect(glyph).toBeDefined();
+		expect(drawn(4, 4, (b) => renderer.drawText(b, "A", 0, 0, WHITE, { font })).join("|")).toBe(
+			".##.|#..#|####|#..#",
+		);
+	}
+
+	const rows = [0x60, 0x90, 0xf0, 0x90];
+
+	test("parses BDF fonts with per-glyph bounding boxes", () => {
+		const bdf = [
+			"STARTFONT 2.1",
+			"FONT -test-tiny",
+			"FONTBOUNDINGBOX 4 5 0 -1",
+			"STARTPROPERTIES 3",
+			"FONT_ASCENT 4",
+			"FONT_DESCENT 1",
+			"DEFAULT_CHAR 65",
+			"ENDPROPERTIES",
+			"CHARS 2",
+			"STARTCHAR A",
+			"ENCODING 65",
+			"DWIDTH 5 0",
+			"BBX 4 4 0 0",
+			"BITMAP",
+			...rows.map((row) => row.toString(16)),
+			"ENDCHAR",
+			"STARTCHAR period",
+			"ENCODING 46",
+			"DWIDTH 2 0",
+			"BBX 1 1 0 -1",
+			"BITMAP",
+			"80",
+			"ENDCHAR",
+			"ENDFONT",
+		].join("\n");
+		const font = decodeFont(new TextEncoder().encode(bdf));
+
+		expect(font.name).toBe("-test-tiny");
+		expect(font.height).toBe(5);
+		expect(font.defaultChar).toBe("A");
+		expectGlyphA(font);
+		// The period sits one pixel below the baseline
+		expect(drawn(2, 5, (b) => renderer.drawText(b, ".", 0, 0, WHITE, { font }))[4]).toBe("#.");
+	});
+
+	test("decodes PSF1 and PSF2 fonts with Unicode tables", () => {
+		// PSF1: 8x4 glyphs, 256 of them, with a Unicode table mapping glyph 1 to "A"
+		const psf1 = new Uint8Array(4 + 256 * 4 + 256 * 4);
+		psf1.set([0x36, 0x04, 0x02, 4]);
+		psf1.set(rows, 4 + 4);
+		const table = new DataView(psf1.buffer, 4 + 256 * 4);
+		for (let n = 0; n < 256; n++) {
+			table.setUint16(n * 4, n === 1 ? 0x41 : 0xfffe, true);
+			table.setUint16(n * 4 + 2, 0xffff, true);
+		}
+		expectGlyphA(decodeFont(psf1));
+
+		// PSF2: one 4x4 glyph mapped to "A" and "Ä"
+		const header = new DataView(new ArrayBuffer(32));
+		[0x864ab572, 0, 32, 1, 1, 4, 4, 4].forEach((value, i) => {
+			header.setUint32(i * 4, value, true);
+		});
+		const psf2 = new Uint8Array([
+			...new Uint8Array(header.buffer),
+			...rows,
+			...new TextEncoder().encode("AÄ"),
+			0xff,
+		]);
+		const font = decodeFont(psf2);
+		expectGlyphA(font);
+		expect(font.glyphs.get("Ä")).toBe(font.glyphs.get("A"));
+	});
+
+	test("rejects unknown formats", () => {
+		expect(() => decodeFont(new Uint8Array([1, 2, 3]))).toThrow("Unknown font format");
+	});
+});
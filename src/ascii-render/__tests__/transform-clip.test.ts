@@ -0,0 +1,157 @@
+/**
+ * Tests for the save/restore transform stack, clip rectangles and
+ * analytic line clipping
+ */
+
+import { describe, expect, test } from "bun:test";
+import { AsciiRenderer, clipLine, type LineStyle, rgb, SymbolSet } from "../index";
+import { drawn, WHITE } from "./helpers";
+
+describe("Transforms", () => {
+	test("translate applies to every primitive until restore", () => {
+		const renderer = new AsciiRenderer();
+		const rows = drawn(6, 4, (b) => {
+			renderer.save();
+			renderer.translate(2, 1);
+			renderer.drawRect(b, 0, 0, 2, 2, WHITE, true);
+			renderer.restore();
+			renderer.setPixel(b, 0, 0, WHITE);
+		});
+
+		expect(rows).toEqual(["#.....", "..##..", "..##..", "......"]);
+		expect(renderer.getTransform()).toEqual({ a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 });
+	});
+
+	test("scale enlarges pixels and rotate turns lines", () => {
+		const renderer = new AsciiRenderer();
+		renderer.scale(2);
+		expect(drawn(4, 4, (b) => renderer.setPixel(b, 1, 1, WHITE))).toEqual([
+			"....",
+			"....",
+			"..##",
+			"..##",
+		]);
+
+		renderer.resetTransform();
+		renderer.translate(1, 0);
+		renderer.rotate(Math.PI / 2);
+		expect(drawn(4, 4, (b) => renderer.drawLine(b, 0, 0, 3, 0, WHITE))).toEqual([
+			".#..",
+			".#..",
+			".#..",
+			".#..",
+		]);
+	});
+
+	test("triangles and polygons follow the transform", () => {
+		const renderer = new AsciiRenderer();
+		const reference = drawn(8, 8, (b) =>
+			renderer.fillTriangle(b, { x: 3, y: 2 }, { x: 7, y: 2 }, { x: 3, y: 6 }, WHITE),
+		);
+
+		renderer.translate(1, 2);
+		renderer.scale(2);
+		expect(
+			drawn(8, 8, (b) =>
+				renderer.fillTriangle(b, { x: 1, y: 0 }, { x: 3, y: 0 }, { x: 1, y: 2 }, WHITE),
+			),
+		).toEqual(reference);
+	});
+});
+
+describe("Clip rectangles", () => {
+	test("restrict drawing, intersect when nested and restore", () => {
+		const renderer = new AsciiRenderer();
+		const rows = drawn(8, 3, (b) => {
+			renderer.save();
+			renderer.clipRect(2, 0, 5, 3);
+			renderer.save();
+			renderer.translate(3, 0);
+			renderer.clipRect(-10, 1, 20, 1);
+			expect(renderer.getClipRect()).toEqual({ x: 2, y: 1, width: 5, height: 1 });
+			renderer.drawLine(b, -3, 1, 4, 1, WHITE);
+			renderer.restore();
+			renderer.drawLine(b, 0, 0, 7, 0, WHITE);
+			renderer.restore();
+			renderer.drawLine(b, 0, 2, 1, 2, WHITE);
+		});
+
+		expect(rows).toEqual(["..#####.", "..#####.", "##......"]);
+		expect(renderer.getClipRect()).toBeNull();
+	});
+
+	test("clip text, fills and circles", () => {
+		const renderer = new AsciiRenderer({ symbolSet: SymbolSet.QUADRANT });
+		const buffer = renderer.createBuffer(16, 8);
+		renderer.clipRect(4, 0, 8, 8);
+		renderer.drawRect(buffer, 0, 0, 16, 2, rgb(0, 0, 255), true);
+		renderer.drawCircle(buffer, 8, 5, 6, rgb(255, 0, 0));
+		renderer.drawText(buffer, "W", 1, 2, WHITE);
+
+		expect(renderer.render(buffer)).toMatchSnapshot();
+	});
+
+	test("leave the depth of clipped pixels untouched", () => {
+		const renderer = new AsciiRenderer();
+		const buffer = renderer.createBuffer(10, 10);
+		renderer.attachDepthBuffer(buffer);
+		renderer.save();
+		renderer.clipRect(0, 0, 5, 10);
+		renderer.drawLineDepth(buffer, 0, 5, 0.5, 9, 5, 0.5, rgb(255, 0, 0));
+		renderer.drawLineDepth(buffer, 0, 6, 0.5, 9, 6, 0.5, rgb(255, 0, 0), { antialias: true });
+		renderer.restore();
+		renderer.drawLineDepth(buffer, 0, 5, 0.9, 9, 5, 0.9, rgb(0, 255, 0));
+		renderer.drawLineDepth(buffer, 0, 6, 0.9, 9, 6, 0.9, rgb(0, 255, 0), { antialias: true });
+
+		const row = (y: number) => buffer[y]?.map((c) => (c.r ? "R" : c.g ? "G" : ".")).join("");
+		expect(row(5)).toBe("RRRRRGGGGG");
+		expect(row(6)).toBe("RRRRRGGGGG");
+	});
+});
+
+describe("Analytic line clipping", () => {
+	test("clipLine returns the visible parameter range", () => {
+		const rect = { x: 0, y: 0, width: 10, height: 10 };
+		expect(clipLine(-10, 5, 20, 5, rect)).toEqual([1 / 3, 2 / 3]);
+		expect(clipLine(2, 2, 3, 3, rect)).toEqual([0, 1]);
+		expect(clipLine(-5, -5, -1, 20, rect)).toBeNull();
+	});
+
+	test("clipped lines keep their dash phase, gradient and anti-aliasing", () => {
+		const renderer = new AsciiRenderer();
+		const styles: LineStyle[] = [
+			{ pattern: [1, 1, 0], startColor: rgb(0, 0, 0), endColor: rgb(0, 190, 0) },
+			{ antialias: true, pattern: [1, 0, 1, 1], thickness: 2 },
+		];
+		for (const style of styles) {
+			// The same line, once fully inside a wide buffer, once mostly off-screen
+			const wide = renderer.createBuffer(40, 6);
+			renderer.drawLine(wide, 0, 1, 39, 4, WHITE, style);
+			const narrow = renderer.createBuffer(10, 6);
+			renderer.drawLine(narrow, -30, 1, 9, 4, WHITE, style);
+
+			expect(narrow).toEqual(wide.map((row) => row.slice(30)));
+		}
+	});
+
+	test("huge off-screen segments are skipped", () => {
+		const renderer = new AsciiRenderer();
+		const buffer = renderer.createBuffer(4, 2);
+		renderer.drawLine(buffer, -1e9, 0, 1e9, 0, WHITE);
+		renderer.drawLine(buffer, -1e9, -5, 1e9, -5, WHITE);
+		renderer.drawPolyline(
+			buffer,
+			[
+				{ x: -1e9, y: 1 },
+				{ x: 1e9, y: 1 },
+			],
+			WHITE,
+			{ pattern: [1, 0] },
+		);
+
+		expect(buffer.map((row) => row.map((c) => (c.r ? "#" : ".")).join(""))).toEqual([
+			"####",
+			"#.#.",
+		]);
+	});
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for triangle rasterization
+ * Verifies fill rules, Gouraud shading and depth-tested fills
+ */
+
+import { describe, expect, test } from "bun:test";
+import { AsciiRenderer, BufferFormat, type RgbaBuffer, rgb, SymbolSet } from "../index";
+
+const BLACK = { r: 0, g: 0, b: 0, a: 255 };
+const WHITE = rgb(255, 255, 255);
+
+/**
+ * Count pixels whose red channel is non-zero
+ */
+function countLit(buffer: RgbaBuffer): number {
+	let count = 0;
+	for (let i = 0; i < buffer.data.length; i += 4) {
+		if ((buffer.data[i] ?? 0) > 0) count++;
+	}
+	return count;
+}
+
+describe("Triangle rasterization", () => {
+	const renderer = new AsciiRenderer({
+		symbolSet: SymbolSet.SEXTANT,
+		threshold: 128,
+	});
+
+	test("two triangles sharing a diagonal cover a square exactly once", () => {
+		const first = renderer.createBuffer(8, 8, BLACK, BufferFormat.RGBA);
+		const second = renderer.createBuffer(8, 8, BLACK, BufferFormat.RGBA);
+		const a = { x: 0, y: 0 };
+		const b = { x: 8, y: 0 };
+		const c = { x: 8, y: 8 };
+		const d = { x: 0, y: 8 };
+		renderer.fillTriangle(first, a, b, c, WHITE);
+		renderer.fillTriangle(second, a, c, d, WHITE);
+
+		let overlap = 0;
+		for (let i = 0; i < first.data.length; i += 4) {
+			if (first.data[i] && second.data[i]) overlap++;
+		}
+		expect(overlap).toBe(0);
+		expect(countLit(first) + countLit(second)).toBe(64);
+	});
+
+	test("winding order does not change coverage", () => {
+		const cw = renderer.createBuffer(10, 10, BLACK, BufferFormat.RGBA);
+		const ccw = renderer.createBuffer(10, 10, BLACK, BufferFormat.RGBA);
+		const a = { x: 1.3, y: 0.7 };
+		const b = { x: 9.1, y: 4.2 };
+		const c = { x: 3.6, y: 9.5 };
+		renderer.fillTriangle(cw, a, b, c, WHITE);
+		renderer.fillTriangle(ccw, a, c, b, WHITE);
+
+		expect(Array.from(cw.data)).toEqual(Array.from(ccw.data));
+	});
+
+	test("degenerate and non-finite triangles draw nothing", () => {
+		const buffer = renderer.createBuffer(6, 6, BLACK, BufferFormat.RGBA);
+		renderer.fillTriangle(buffer, { x: 0, y: 0 }, { x: 3, y: 3 }, { x: 6, y: 6 }, WHITE);
+		renderer.fillTriangle(buffer, { x: Number.NaN, y: 0 }, { x: 3, y: 3 }, { x: 0, y: 6 }, WHITE);
+
+		expect(countLit(buffer)).toBe(0);
+	});
+
+	test("per-vertex colors are interpolated barycentrically", () => {
+		const buffer = renderer.createBuffer(30, 30, BLACK, BufferFormat.RGBA);
+		renderer.fillTriangle(buffer, { x: 0, y: 0 }, { x: 30, y: 0 }, { x: 0, y: 30 }, [
+			rgb(255, 0, 0),
+			rgb(0, 255, 0),
+			rgb(0, 0, 255),
+		]);
+
+		const nearA = renderer.getPixel(buffer, 0, 0);
+		const nearB = renderer.getPixel(buffer, 28, 0);
+		const middle = renderer.getPixel(buffer, 9, 9);
+		expect(nearA?.r).toBeGreaterThan(240);
+		expect(nearB?.g).toBeGreaterThan(220);
+		expect(middle?.r).toBeGreaterThan(60);
+		expect(middle?.g).toBeGreaterThan(60);
+		expect(middle?.b).toBeGreaterThan(60);
+	});
+
+	test("depth-tested fills occlude farther triangles regardless of order", () => {
+		const draw = (nearFirst: boolean) => {
+			const buffer = renderer.createBuffer(12, 9, BLACK, BufferFormat.RGBA);
+			renderer.attachDepthBuffer(buffer);
+			const near = () =>
+				renderer.fillTriangle(
+					buffer,
+					{ x: 0, y: 0, z: 1 },
+					{ x: 12, y: 0, z: 1 },
+					{ x: 0, y: 9, z: 1 },
+					rgb(255, 85, 85),
+					{ depthTest: true },
+				);
+			const far = () =>
+				renderer.fillTriangle(
+					buffer,
+					{ x: 12, y: 9, z: 2 },
+					{ x: 0, y: 4, z: 2 },
+					{ x: 8, y: 0, z: 2 },
+					rgb(80, 120, 255),
+					{ depthTest: true },
+				);
+			if (nearFirst) {
+				near();
+				far();
+			} else {
+				far();
+				near();
+			}
+			return renderer.render(buffer);
+		};
+
+		expect(draw(true)).toBe(draw(false));
+		expect(draw(true)).toMatchSnapshot();
+	});
+
+	test("should render triangle outline and fill with sextant symbols", () => {
+		const buffer = renderer.createBuffer(12, 9, BLACK);
+		renderer.fillTriangle(
+			buffer,
+			{ x: 1, y: 1 },
+			{ x: 11, y: 4 },
+			{ x: 3, y: 9 },
+			rgb(255, 255, 0),
+		);
+		renderer.drawTriangle(buffer, { x: 1, y: 1 }, { x: 11, y: 4 }, { x: 3, y: 9 }, WHITE);
+
+		const output = renderer.render(buffer);
+		expect(output).toMatchSnapshot();
+	});
+});
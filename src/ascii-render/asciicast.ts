@@ -0,0 +1,317 @@
+/**
+ * Header line of an asciicast v2 file
+ */
+export interface AsciicastHeader {
+	version: 2;
+	/** Terminal width in columns */
+	width: number;
+	/** Terminal height in rows */
+	height: number;
+	/** Unix timestamp (seconds) of the recording start */
+	timestamp?: number;
+	title?: string;
+	env?: Record<string, string>;
+}
+
+/**
+ * One asciicast v2 event: [seconds since start, event type, data].
+ * Type "o" is terminal output; other types are kept but not replayed.
+ */
+export type AsciicastEvent = [time: number, type: string, data: string];
+
+/**
+ * A parsed asciicast v2 recording
+ */
+export interface Asciicast {
+	header: AsciicastHeader;
+	events: AsciicastEvent[];
+}
+
+/**
+ * Options for the asciicast recorder
+ */
+export interface AsciicastRecorderOptions {
+	/** Terminal width in columns */
+	width: number;
+	/** Terminal height in rows */
+	height: number;
+	title?: string;
+	/** Unix timestamp stored in the header (default: none) */
+	timestamp?: number;
+	/**
+	 * Clock in seconds used when no time is passed to record() or write()
+	 * (default: performance.now() / 1000, relative to the first event)
+	 */
+	clock?: () => number;
+}
+
+/**
+ * Sequence that starts every frame written by AsciicastRecorder.record():
+ * move the cursor home so the frame overwrites the previous one
+ */
+export const FRAME_START = "\x1b[H";
+
+/** Clear from the cursor to the end of the screen */
+const CLEAR_TO_END = "\x1b[J";
+
+/**
+ * Records terminal output with timestamps as an asciicast v2 file.
+ *
+ * The recorder only collects strings, so it works headless: pass explicit
+ * times (e.g. frame / fps) to get deterministic recordings in CI.
+ */
+export class AsciicastRecorder {
+	private readonly header: AsciicastHeader;
+	private readonly events: AsciicastEvent[] = [];
+	private readonly clock: () => number;
+	private startTime: number | null = null;
+
+	constructor(options: AsciicastRecorderOptions) {
+		const { width, height, title, timestamp } = options;
+		if (width <= 0 || height <= 0) {
+			throw new Error(`Terminal size must be positive: ${width}x${height}`);
+		}
+		this.header = { version: 2, width, height };
+		if (timestamp !== undefined) this.header.timestamp = timestamp;
+		if (title !== undefined) this.header.title = title;
+		this.clock = options.clock ?? (() => performance.now() / 1000);
+	}
+
+	/**
+	 * Record a full frame, such as the string returned by AsciiRenderer.render().
+	 * The frame is drawn from the top-left corner, with line feeds turned into
+	 * CR LF and the rest of the screen cleared.
+	 * @param time Seconds since the start of the recording (default: from the clock)
+	 */
+	record(frame: string, time?: number): void {
+		this.write(`${FRAME_START}${frame.replace(/\r?\n/g, "\r\n")}${CLEAR_TO_END}`, time);
+	}
+
+	/**
+	 * Record raw terminal output, such as FrameEncoder output
+	 * @param time Seconds since the start of the recording (default: from the clock)
+	 * @throws {Error} If the time is earlier than the previous event
+	 */
+	write(data: string, time?: number): void {
+		let t: number;
+		if (time === undefined) {
+			const now = this.clock();
+			this.startTime ??= now;
+			t = now - this.startTime;
+		} else {
+			t = time;
+		}
+		const last = this.events[this.events.length - 1];
+		if (last && t < last[0]) {
+			throw new Error(`Event time ${t} is earlier than the previous event at ${last[0]}`);
+		}
+		this.events.push([t, "o", data]);
+	}
+
+	/**
+	 * Number of recorded events
+	 */
+	get length(): number {
+		return this.events.length;
+	}
+
+	/**
+	 * Get the recording as a parsed asciicast
+	 */
+	toAsciicast(): Asciicast {
+		return { header: { ...this.header }, events: this.events.map((e) => [...e]) };
+	}
+
+	/**
+	 * Serialize the recording as asciicast v2 (newline-delimited JSON)
+	 */
+	toString(): string {
+		return serializeAsciicast(this.toAsciicast());
+	}
+}
+
+/**
+ * Serialize an asciicast as v2 newline-delimited JSON
+ */
+export function serializeAsciicast(cast: Asciicast): string {
+	const lines = [JSON.stringify(cast.header)];
+	for (const [time, type, data] of cast.events) {
+		lines.push(JSON.stringify([Number(time.toFixed(6)), type, data]));
+	}
+	return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Parse an asciicast v2 file
+ * @throws {Error} If the header or an event line is invalid
+ */
+export function parseAsciicast(text: string): Asciicast {
+	const lines = text.split("\n").filter((line) => line.trim() !== "");
+	const [first, ...rest] = lines;
+	if (first === undefined) {
+		throw new Error("Asciicast is empty");
+	}
+
+	const header = JSON.parse(first) as Partial<AsciicastHeader>;
+	if (header.version !== 2) {
+		throw new Error(`Unsupported asciicast version: ${String(header.version)}`);
+	}
+	if (typeof header.width !== "number" || typeof header.height !== "number") {
+		throw new Error("Asciicast header is missing width or height");
+	}
+
+	const events = rest.map((line, i): AsciicastEvent => {
+		const event: unknown = JSON.parse(line);
+		if (
+			!Array.isArray(event) ||
+			typeof event[0] !== "number" ||
+			typeof event[1] !== "string" ||
+			typeof event[2] !== "string"
+		) {
+			throw new Error(`Invalid asciicast event on line ${i + 2}`);
+		}
+		return [event[0], event[1], event[2]];
+	});
+
+	return { header: header as AsciicastHeader, events };
+}
+
+/**
+ * Options for the asciicast player
+ */
+export interface AsciicastPlayerOptions {
+	/** Playback speed multiplier (default: 1) */
+	speed?: number;
+	/** Start over after the last event (default: false) */
+	loop?: boolean;
+}
+
+/**
+ * Replays an asciicast as a sequence of terminal screens.
+ *
+ * The player is a clock-driven state machine without timers or I/O: call
+ * advance() from an animation loop and display `output`. Output events are
+ * accumulated from the most recent full frame (one that starts with
+ * FRAME_START), so `output` always reproduces the current screen.
+ */
+export class AsciicastPlayer {
+	readonly header: AsciicastHeader;
+	private readonly events: AsciicastEvent[];
+	private readonly loop: boolean;
+	private currentTime = 0;
+	/** Number of events shown so far */
+	private position = 0;
+	private _speed: number;
+	private _paused = false;
+
+	constructor(cast: Asciicast, options: AsciicastPlayerOptions = {}) {
+		this.header = cast.header;
+		this.events = cast.events.filter(([, type]) => type === "o");
+		this.loop = options.loop ?? false;
+		this._speed = options.speed ?? 1;
+		this.seek(0);
+	}
+
+	/** Current playback time in seconds */
+	get time(): number {
+		return this.currentTime;
+	}
+
+	/** Time of the last event in seconds */
+	get duration(): number {
+		return this.events[this.events.length - 1]?.[0] ?? 0;
+	}
+
+	get paused(): boolean {
+		return this._paused;
+	}
+
+	get speed(): number {
+		return this._speed;
+	}
+
+	/** Whether playback reached the last event (never true when looping) */
+	get finished(): boolean {
+		return !this.loop && this.position >= this.events.length;
+	}
+
+	/**
+	 * Set the playback speed multiplier
+	 * @throws {Error} If the speed is not positive
+	 */
+	setSpeed(speed: number): void {
+		if (!(speed > 0)) {
+			throw new Error(`Playback speed must be positive: ${speed}`);
+		}
+		this._speed = speed;
+	}
+
+	pause(): void {
+		this._paused = true;
+	}
+
+	resume(): void {
+		this._paused = false;
+	}
+
+	togglePause(): void {
+		this._paused = !this._paused;
+	}
+
+	/**
+	 * Advance playback by a wall-clock interval, scaled by the speed.
+	 * Does nothing while paused.
+	 * @returns Whether new events were shown
+	 */
+	advance(seconds: number): boolean {
+		if (this._paused) return false;
+		let target = this.currentTime + seconds * this._speed;
+		const duration = this.duration;
+		if (this.loop && duration > 0 && target > duration) {
+			target %= duration;
+			if (target < this.currentTime) {
+				this.seek(target);
+				return true;
+			}
+		}
+		const before = this.position;
+		this.seek(target);
+		return this.position !== before;
+	}
+
+	/**
+	 * Pause and jump to the next (or previous) event
+	 * @param direction 1 to step forward, -1 to step back
+	 */
+	step(direction: 1 | -1 = 1): void {
+		this._paused = true;
+		const index = Math.min(this.events.length, Math.max(1, this.position + direction));
+		this.seek(this.events[index - 1]?.[0] ?? 0, index);
+	}
+
+	/**
+	 * Jump to a time in seconds
+	 * @param count Number of events to show, for events sharing a timestamp
+	 */
+	seek(time: number, count?: number): void {
+		this.currentTime = Math.min(Math.max(0, time), this.duration);
+		let position = 0;
+		while (position < this.events.length && (this.events[position]?.[0] ?? 0) <= time) {
+			position++;
+		}
+		this.position = count ?? position;
+	}
+
+	/**
+	 * Terminal output reproducing the screen at the current time
+	 */
+	get output(): string {
+		let start = this.position - 1;
+		while (start > 0 && !this.events[start]?.[2].startsWith(FRAME_START)) start--;
+		let output = "";
+		for (let i = Math.max(0, start); i < this.position; i++) {
+			output += this.events[i]?.[2] ?? "";
+		}
+		return output;
+	}
+}
@@ -0,0 +1,177 @@
+import { BLACK } from "./colors";
+import type { Color, PixelBuffer, PixelSurface, RgbaBuffer } from "./types";
+
+/** Bytes per packed RGBA pixel */
+const BYTES_PER_PIXEL = 4;
+
+/**
+ * Scratch storage used to pack a color into a 32-bit word.
+ * Writing through the byte view and reading through the word view keeps
+ * the packed value correct regardless of platform endianness.
+ */
+const packBytes = new Uint8ClampedArray(BYTES_PER_PIXEL);
+const packWord = new Uint32Array(packBytes.buffer);
+
+/**
+ * Pack a color into a 32-bit word matching the layout of RgbaBuffer.pixels
+ */
+export function packColor(color: Color): number {
+	packBytes[0] = color.r;
+	packBytes[1] = color.g;
+	packBytes[2] = color.b;
+	packBytes[3] = color.a ?? 255;
+	return packWord[0] ?? 0;
+}
+
+/**
+ * Check whether a surface is a packed RGBA buffer
+ */
+export function isRgbaBuffer(surface: PixelSurface): surface is RgbaBuffer {
+	return !Array.isArray(surface);
+}
+
+/**
+ * Create a packed RGBA buffer
+ * @throws {Error} If width or height are not positive
+ */
+export function createRgbaBuffer(width: number, height: number, fillColor?: Color): RgbaBuffer {
+	if (width <= 0 || height <= 0) {
+		throw new Error(`Buffer dimensions must be positive: ${width}x${height}`);
+	}
+	const stride = width * BYTES_PER_PIXEL;
+	const data = new Uint8ClampedArray(stride * height);
+	const buffer: RgbaBuffer = {
+		width,
+		height,
+		stride,
+		data,
+		pixels: new Uint32Array(data.buffer, data.byteOffset, data.byteLength / BYTES_PER_PIXEL),
+	};
+	fillRgbaBuffer(buffer, fillColor ?? BLACK);
+	return buffer;
+}
+
+/**
+ * Fill every pixel of a packed buffer with a color without allocating
+ */
+export function fillRgbaBuffer(buffer: RgbaBuffer, color: Color): void {
+	const packed = packColor(color);
+	const rowPixels = buffer.stride / BYTES_PER_PIXEL;
+	if (rowPixels === buffer.width) {
+		buffer.pixels.fill(packed, 0, buffer.width * buffer.height);
+		return;
+	}
+	for (let y = 0; y < buffer.height; y++) {
+		const start = y * rowPixels;
+		buffer.pixels.fill(packed, start, start + buffer.width);
+	}
+}
+
+/**
+ * Get the pixel dimensions of any surface.
+ * For nested arrays, the width is taken from the first row.
+ */
+export function getSurfaceSize(surface: PixelSurface): { width: number; height: number } {
+	if (isRgbaBuffer(surface)) {
+		return { width: surface.width, height: surface.height };
+	}
+	return { width: surface[0]?.length ?? 0, height: surface.length };
+}
+
+/**
+ * Write a pixel, ignoring out-of-bounds coordinates
+ */
+export function writePixel(surface: PixelSurface, x: number, y: number, color: Color): void {
+	if (isRgbaBuffer(surface)) {
+		if (x >= 0 && x < surface.width && y >= 0 && y < surface.height) {
+			const i = y * surface.stride + x * BYTES_PER_PIXEL;
+			const data = surface.data;
+			data[i] = color.r;
+			data[i + 1] = color.g;
+			data[i + 2] = color.b;
+			data[i + 3] = color.a ?? 255;
+		}
+		return;
+	}
+	if (y >= 0 && y < surface.length) {
+		const row = surface[y];
+		if (row && x >= 0 && x < row.length) {
+			row[x] = color;
+		}
+	}
+}
+
+/**
+ * Read a pixel, returning null for out-of-bounds coordinates
+ */
+export function readPixel(surface: PixelSurface, x: number, y: number): Color | null {
+	if (isRgbaBuffer(surface)) {
+		if (x >= 0 && x < surface.width && y >= 0 && y < surface.height) {
+			const i = y * surface.stride + x * BYTES_PER_PIXEL;
+			const data = surface.data;
+			return {
+				r: data[i] ?? 0,
+				g: data[i + 1] ?? 0,
+				b: data[i + 2] ?? 0,
+				a: data[i + 3] ?? 255,
+			};
+		}
+		return null;
+	}
+	if (y >= 0 && y < surface.length) {
+		const row = surface[y];
+		if (row && x >= 0 && x < row.length) {
+			return row[x] ?? null;
+		}
+	}
+	return null;
+}
+
+/**
+ * Adapter from a nested color array to a packed buffer.
+ * Copies the region starting at (startX, startY); pixels outside the source
+ * (including short rows) become opaque black.
+ * @throws {Error} If the region is empty
+ */
+export function toRgbaBuffer(
+	pixels: PixelBuffer,
+	startX = 0,
+	startY = 0,
+	width = pixels[0]?.length ?? 0,
+	height = pixels.length,
+): RgbaBuffer {
+	const buffer = createRgbaBuffer(width, height);
+	const data = buffer.data;
+	for (let y = 0; y < height; y++) {
+		const row = pixels[startY + y];
+		if (!row) continue;
+		for (let x = 0; x < width; x++) {
+			const color = row[startX + x];
+			if (!color) continue;
+			const i = y * buffer.stride + x * BYTES_PER_PIXEL;
+			data[i] = color.r;
+			data[i + 1] = color.g;
+			data[i + 2] = color.b;
+			data[i + 3] = color.a ?? 255;
+		}
+	}
+	return buffer;
+}
+
+/**
+ * Adapter from a packed buffer back to a nested color array
+ */
+export function toPixelArray(buffer: RgbaBuffer): PixelBuffer {
+	const data = buffer.data;
+	return Array.from({ length: buffer.height }, (_, y) =>
+		Array.from({ length: buffer.width }, (_, x) => {
+			const i = y * buffer.stride + x * BYTES_PER_PIXEL;
+			return {
+				r: data[i] ?? 0,
+				g: data[i + 1] ?? 0,
+				b: data[i + 2] ?? 0,
+				a: data[i + 3] ?? 255,
+			};
+		}),
+	);
+}
@@ -0,0 +1,361 @@
+import type { RenderOptions } from "./types";
+import { ColorMode, SymbolSet } from "./types";
+
+/**
+ * What a terminal can display, as far as it could be detected
+ */
+export interface TerminalCapabilities {
+	/** Terminal emulator, e.g. "kitty" or "vscode"; null if unknown */
+	terminal: string | null;
+	/** Multiplexer between the program and the terminal ("tmux", "screen", "zellij") */
+	multiplexer: string | null;
+	/** Deepest color mode supported */
+	colorMode: ColorMode;
+	/** Built-in symbol sets whose glyphs the terminal displays */
+	symbolSets: SymbolSet[];
+	/** Whether the Kitty graphics protocol is available */
+	kittyGraphics: boolean;
+	/** Whether Sixel graphics are available */
+	sixel: boolean;
+}
+
+/**
+ * Send a request to the terminal and collect its replies.
+ * Resolves with everything received until the reply to the primary device
+ * attributes request (DA1) that ends every capability query, or with what
+ * arrived so far once the timeout passes.
+ */
+export type TerminalQuery = (request: string, timeoutMs: number) => Promise<string>;
+
+/** Environment variables, as in process.env */
+type Environment = Record<string, string | undefined>;
+
+/**
+ * What the environment tells about well-known terminals
+ */
+interface TerminalTraits {
+	truecolor: boolean;
+	/** Draws sextants (Unicode 13) itself, independent of the font */
+	sextants: boolean;
+	/** Draws octants (Unicode 16) itself */
+	octants: boolean;
+	kittyGraphics: boolean;
+	sixel: boolean;
+}
+
+/** Traits of terminals that can be recognized from their environment */
+const KNOWN_TERMINALS: Record<string, TerminalTraits> = {
+	kitty: { truecolor: true, sextants: true, octants: true, kittyGraphics: true, sixel: false },
+	ghostty: { truecolor: true, sextants: true, octants: true, kittyGraphics: true, sixel: false },
+	foot: { truecolor: true, sextants: true, octants: true, kittyGraphics: false, sixel: true },
+	wezterm: { truecolor: true, sextants: true, octants: false, kittyGraphics: true, sixel: true },
+	vscode: { truecolor: true, sextants: true, octants: false, kittyGraphics: false, sixel: false },
+	"windows-terminal": {
+		truecolor: true,
+		sextants: true,
+		octants: false,
+		kittyGraphics: false,
+		sixel: true,
+	},
+	iterm: { truecolor: true, sextants: false, octants: false, kittyGraphics: false, sixel: true },
+	konsole: { truecolor: true, sextants: false, octants: false, kittyGraphics: false, sixel: true },
+	alacritty: {
+		truecolor: true,
+		sextants: false,
+		octants: false,
+		kittyGraphics: false,
+		sixel: false,
+	},
+	"apple-terminal": {
+		truecolor: false,
+		sextants: false,
+		octants: false,
+		kittyGraphics: false,
+		sixel: false,
+	},
+};
+
+/** Terminal names by TERM_PROGRAM value */
+const TERM_PROGRAMS: Record<string, string> = {
+	ghostty: "ghostty",
+	WezTerm: "wezterm",
+	vscode: "vscode",
+	"iTerm.app": "iterm",
+	Apple_Terminal: "apple-terminal",
+};
+
+/** Terminal names by TERM value */
+const TERM_NAMES: Record<string, string> = {
+	"xterm-kitty": "kitty",
+	"xterm-ghostty": "ghostty",
+	foot: "foot",
+	"foot-extra": "foot",
+	wezterm: "wezterm",
+	alacritty: "alacritty",
+};
+
+/**
+ * Variables set inside particular terminals. Unlike TERM_PROGRAM these are
+ * usually passed through multiplexers.
+ */
+const TERMINAL_VARIABLES: [variable: string, terminal: string][] = [
+	["KITTY_WINDOW_ID", "kitty"],
+	["GHOSTTY_RESOURCES_DIR", "ghostty"],
+	["WEZTERM_PANE", "wezterm"],
+	["WT_SESSION", "windows-terminal"],
+	["KONSOLE_VERSION", "konsole"],
+];
+
+/** Variables identifying a multiplexer */
+const MULTIPLEXER_VARIABLES: [variable: string, multiplexer: string][] = [
+	["TMUX", "tmux"],
+	["STY", "screen"],
+	["ZELLIJ", "zellij"],
+];
+
+/** Symbol sets in order of preference for recommendOptions: most sub-pixels first */
+const SYMBOL_SET_PREFERENCE: readonly SymbolSet[] = [
+	SymbolSet.OCTANT,
+	SymbolSet.BRAILLE,
+	SymbolSet.SEXTANT,
+	SymbolSet.QUADRANT,
+	SymbolSet.HALF,
+	SymbolSet.ASCII,
+];
+
+/** Default time to wait for the terminal to answer queries */
+const QUERY_TIMEOUT_MS = 200;
+
+/** Default time to keep discarding late replies after the query timed out */
+const QUERY_DRAIN_MS = 1000;
+
+/** Escape sequence introducers (CSI, DCS, APC) and the string terminator */
+const CSI = "\x1b[";
+const DCS = "\x1bP";
+const APC = "\x1b_";
+const ST = "\x1b\\";
+
+/**
+ * Hex-encode a terminfo capability name for XTGETTCAP
+ */
+function hexName(name: string): string {
+	return [...name].map((c) => c.charCodeAt(0).toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Decode a hex-encoded XTGETTCAP value
+ */
+function unhex(value: string): string {
+	return (value.match(/../g) ?? []).map((pair) => String.fromCharCode(parseInt(pair, 16))).join("");
+}
+
+/**
+ * Queries sent by queryCapabilities: a Kitty graphics query for a 1x1
+ * image, XTGETTCAP for the truecolor flags and the color count, and DA1
+ * last, which every terminal answers
+ */
+const CAPABILITY_QUERY = [
+	`${APC}Gi=31,s=1,v=1,a=q,t=d,f=24;AAAA${ST}`,
+	...["RGB", "Tc", "colors"].map((name) => `${DCS}+q${hexName(name)}${ST}`),
+	`${CSI}c`,
+].join("");
+
+/**
+ * Parameters of the reply to DA1 (CSI ? class ; features c), or null if it
+ * has not arrived
+ */
+function parseDeviceAttributes(response: string): string[] | null {
+	const start = response.indexOf(`${CSI}?`);
+	const end = start >= 0 ? response.indexOf("c", start) : -1;
+	return end >= 0 ? response.slice(start + CSI.length + 1, end).split(";") : null;
+}
+
+/**
+ * Recognize the terminal emulator from its environment variables
+ */
+function detectTerminal(env: Environment): string | null {
+	const program = env.TERM_PROGRAM ? TERM_PROGRAMS[env.TERM_PROGRAM] : undefined;
+	if (program) return program;
+	const term = env.TERM ? TERM_NAMES[env.TERM] : undefined;
+	if (term) return term;
+	for (const [variable, terminal] of TERMINAL_VARIABLES) {
+		if (env[variable]) return terminal;
+	}
+	if (env.LC_TERMINAL === "iTerm2") return "iterm";
+	return null;
+}
+
+/**
+ * Detect terminal capabilities from environment variables alone: COLORTERM,
+ * TERM, TERM_PROGRAM, variables particular to some terminals, the locale
+ * and the multiplexer variables (TMUX, STY, ZELLIJ). NO_COLOR disables color.
+ *
+ * Glyph support can only be guessed: Braille and block elements need a
+ * UTF-8 locale, sextants and octants a terminal known to draw them itself.
+ * @param env Environment to inspect (default: process.env)
+ */
+export function detectCapabilities(env: Environment = process.env): TerminalCapabilities {
+	const terminal = detectTerminal(env);
+	const traits = terminal ? KNOWN_TERMINALS[terminal] : undefined;
+	const multiplexer =
+		MULTIPLEXER_VARIABLES.find(([variable]) => env[variable] !== undefined)?.[1] ?? null;
+	const term = env.TERM ?? "";
+	const colorTerm = (env.COLORTERM ?? "").toLowerCase();
+
+	let colorMode: ColorMode;
+	if (env.NO_COLOR || term === "dumb") {
+		colorMode = ColorMode.NONE;
+	} else if (
+		colorTerm === "truecolor" ||
+		colorTerm === "24bit" ||
+		traits?.truecolor ||
+		term.endsWith("-direct")
+	) {
+		colorMode = ColorMode.TRUECOLOR;
+	} else if (term.includes("256color") || traits) {
+		colorMode = ColorMode.ANSI256;
+	} else {
+		colorMode = ColorMode.ANSI16;
+	}
+	// GNU screen does not pass 24-bit color through
+	if (multiplexer === "screen" && colorMode === ColorMode.TRUECOLOR) {
+		colorMode = ColorMode.ANSI256;
+	}
+
+	const locale = env.LC_ALL || env.LC_CTYPE || env.LANG || "";
+	const unicode = /utf-?8/i.test(locale) || traits !== undefined;
+	const symbolSets = [SymbolSet.ASCII];
+	if (term === "linux") {
+		// The console font has half blocks but no Braille or quadrants
+		symbolSets.push(SymbolSet.HALF);
+	} else if (unicode) {
+		symbolSets.push(SymbolSet.HALF, SymbolSet.QUADRANT, SymbolSet.BRAILLE);
+		if (traits?.sextants) symbolSets.push(SymbolSet.SEXTANT);
+		if (traits?.octants) symbolSets.push(SymbolSet.OCTANT);
+	}
+
+	// Multiplexers answer graphics for themselves and don't pass them through
+	return {
+		terminal,
+		multiplexer,
+		colorMode,
+		symbolSets,
+		kittyGraphics: multiplexer === null && (traits?.kittyGraphics ?? false),
+		sixel: multiplexer === null && (traits?.sixel ?? false),
+	};
+}
+
+/**
+ * Refine detected capabilities with the terminal's replies to queries:
+ * the Kitty graphics query, XTGETTCAP for RGB, Tc and colors, and DA1 for
+ * Sixel. Capabilities the terminal does not confirm keep their detected
+ * value, so a terminal that does not answer changes nothing. Under a
+ * multiplexer the multiplexer answers, so its graphics replies are ignored:
+ * it would not pass the images through.
+ * @param query Sends the queries; see createTerminalQuery
+ * @param detected Capabilities detected from the environment
+ */
+export async function queryCapabilities(
+	query: TerminalQuery,
+	detected: TerminalCapabilities,
+	timeoutMs = QUERY_TIMEOUT_MS,
+): Promise<TerminalCapabilities> {
+	const response = await query(CAPABILITY_QUERY, timeoutMs);
+	const capabilities = { ...detected, symbolSets: [...detected.symbolSets] };
+
+	// A multiplexer answers graphics queries for itself but draws no images
+	const graphics = detected.multiplexer === null;
+
+	// Kitty graphics: APC G i=31;OK ST
+	if (graphics && response.includes(`${APC}Gi=31;OK${ST}`)) {
+		capabilities.kittyGraphics = true;
+	}
+
+	// XTGETTCAP: DCS 1 + r name=value ST for each capability found
+	let colors = 0;
+	let truecolor = false;
+	for (const reply of response.split(DCS).slice(1)) {
+		const body = reply.slice(0, reply.indexOf(ST));
+		if (!body.startsWith("1+r")) continue;
+		for (const entry of body.slice(3).split(";")) {
+			const [name = "", value = ""] = entry.split("=");
+			const capability = unhex(name);
+			if (capability === "RGB" || capability === "Tc") truecolor = true;
+			if (capability === "colors") colors = Number(unhex(value)) || 0;
+		}
+	}
+	if (detected.colorMode !== ColorMode.NONE) {
+		if (truecolor || colors >= 2 ** 24) {
+			capabilities.colorMode = ColorMode.TRUECOLOR;
+		} else if (colors >= 256 && detected.colorMode === ColorMode.ANSI16) {
+			capabilities.colorMode = ColorMode.ANSI256;
+		}
+	}
+
+	// DA1 feature 4 is Sixel
+	if (graphics && parseDeviceAttributes(response)?.slice(1).includes("4")) {
+		capabilities.sixel = true;
+	}
+
+	return capabilities;
+}
+
+/**
+ * Create a TerminalQuery that talks to the terminal over standard streams,
+ * in raw mode while waiting. Streams that are not terminals get no reply.
+ * Replies that arrive after the timeout are discarded until the DA1 reply,
+ * which terminals send last, so they are not read as keypresses later.
+ * @param drainMs Longest time to keep discarding late replies
+ */
+export function createTerminalQuery(
+	input: NodeJS.ReadStream,
+	output: NodeJS.WriteStream,
+	drainMs = QUERY_DRAIN_MS,
+): TerminalQuery {
+	return (request, timeoutMs) =>
+		new Promise((resolve) => {
+			if (!input.isTTY || !output.isTTY) {
+				resolve("");
+				return;
+			}
+
+			let received = "";
+			// What arrived before the timeout, once it has passed
+			let response: string | null = null;
+			const wasRaw = input.isRaw;
+			const finish = () => {
+				clearTimeout(timer);
+				input.off("data", onData);
+				input.setRawMode(wasRaw);
+				input.pause();
+				resolve(response ?? received);
+			};
+			const onData = (data: Buffer | string) => {
+				received += data.toString();
+				if (parseDeviceAttributes(received)) finish();
+			};
+			let timer = setTimeout(() => {
+				response = received;
+				timer = setTimeout(finish, drainMs);
+			}, timeoutMs);
+
+			input.setRawMode(true);
+			input.on("data", onData);
+			input.resume();
+			output.write(request);
+		});
+}
+
+/**
+ * Recommend render options for a terminal: its richest color mode and the
+ * supported symbol set with the most sub-pixels per cell
+ * @param overrides Options that take precedence over the recommendation
+ */
+export function recommendOptions(
+	capabilities: TerminalCapabilities,
+	overrides: Partial<RenderOptions> = {},
+): RenderOptions {
+	const symbolSet =
+		SYMBOL_SET_PREFERENCE.find((set) => capabilities.symbolSets.includes(set)) ?? SymbolSet.ASCII;
+	return { symbolSet, colorMode: capabilities.colorMode, ...overrides };
+}
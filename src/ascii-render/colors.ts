@@ -1,4 +1,5 @@
 import type { Color } from "./types";
+import { BlendMode, ColorMode, ColorSpace } from "./types";
 
 /**
  * Clamp a value to the byte range [0, 255] and round to the nearest integer
@@ -31,35 +32,47 @@ export function getBrightness(color: Color): number {
  * Check if a color is "on" based on brightness threshold
  */
 export function isPixelOn(color: Color, threshold: number): boolean {
-	if (color.a !== undefined && color.a < ALPHA_THRESHOLD) {
+	return isRgbaOn(color.r, color.g, color.b, color.a ?? 255, threshold);
+}
+
+/**
+ * Channel-wise variant of isPixelOn for packed buffers
+ */
+export function isRgbaOn(r: number, g: number, b: number, a: number, threshold: number): boolean {
+	if (a < ALPHA_THRESHOLD) {
 		return false; // Transparent
 	}
-	return getBrightness(color) >= threshold;
+	return clampByte(0.299 * r + 0.587 * g + 0.114 * b) >= threshold;
 }
 
 /**
  * Calculate the average of multiple colors
+ * @param linearLight Average the channels in linear light, so that e.g.
+ *   black and white average to the gray that looks like their mix rather
+ *   than a darker one (default: false)
  */
-export function averageColors(colors: Color[]): Color {
+export function averageColors(colors: Color[], linearLight = false): Color {
 	if (colors.length === 0) {
 		return { ...BLACK };
 	}
 
+	const decode = linearLight ? srgbToLinear : (channel: number) => channel;
+	const encode = linearLight ? linearToSrgb : (channel: number) => channel;
 	let r = 0,
 		g = 0,
 		b = 0,
 		a = 0;
 	for (const color of colors) {
-		r += color.r;
-		g += color.g;
-		b += color.b;
+		r += decode(color.r);
+		g += decode(color.g);
+		b += decode(color.b);
 		a += color.a ?? 255;
 	}
 
 	return {
-		r: clampByte(r / colors.length),
-		g: clampByte(g / colors.length),
-		b: clampByte(b / colors.length),
+		r: clampByte(encode(r / colors.length)),
+		g: clampByte(encode(g / colors.length)),
+		b: clampByte(encode(b / colors.length)),
 		a: clampByte(a / colors.length),
 	};
 }
@@ -85,19 +98,102 @@ export function blendColors(fg: Color, bg: Color): Color {
 }
 
 /**
- * Interpolate between two colors
+ * Separable blend functions on channels normalized to 0-1
+ */
+const BLEND_FUNCTIONS: Record<BlendMode, (src: number, dst: number) => number> = {
+	[BlendMode.REPLACE]: (src) => src,
+	[BlendMode.SOURCE_OVER]: (src) => src,
+	[BlendMode.ADD]: (src, dst) => Math.min(1, src + dst),
+	[BlendMode.MULTIPLY]: (src, dst) => src * dst,
+	[BlendMode.SCREEN]: (src, dst) => src + dst - src * dst,
+	[BlendMode.MAX]: (src, dst) => Math.max(src, dst),
+};
+
+/**
+ * Blend a color onto another with a blend mode. The blended channels are
+ * composited over bg by fg's alpha, as in the W3C compositing model, so
+ * where bg is transparent the result is fg itself.
+ */
+export function blendWithMode(fg: Color, bg: Color, mode: BlendMode): Color {
+	if (mode === BlendMode.REPLACE) {
+		return { ...fg };
+	}
+	if (mode === BlendMode.SOURCE_OVER) {
+		return blendColors(fg, bg);
+	}
+
+	const fgA = (fg.a ?? 255) / 255;
+	const bgA = (bg.a ?? 255) / 255;
+	const outA = fgA + bgA * (1 - fgA);
+	if (outA === 0) {
+		return { ...TRANSPARENT };
+	}
+
+	const blend = BLEND_FUNCTIONS[mode];
+	const channel = (src: number, dst: number) => {
+		const mixed = blend(src / 255, dst / 255) * 255;
+		return clampByte((fgA * (1 - bgA) * src + fgA * bgA * mixed + (1 - fgA) * bgA * dst) / outA);
+	};
+	return {
+		r: channel(fg.r, bg.r),
+		g: channel(fg.g, bg.g),
+		b: channel(fg.b, bg.b),
+		a: clampByte(outA * 255),
+	};
+}
+
+/**
+ * Interpolate between two colors. Alpha is always interpolated linearly.
  * @param t Interpolation factor (0-1), clamped internally
+ * @param space Color space to interpolate in (default: SRGB)
  */
-export function interpolateColor(color1: Color, color2: Color, t: number): Color {
+export function interpolateColor(
+	color1: Color,
+	color2: Color,
+	t: number,
+	space = ColorSpace.SRGB,
+): Color {
 	const clampedT = Math.max(0, Math.min(1, t));
 	const a1 = color1.a ?? 255;
 	const a2 = color2.a ?? 255;
-	return {
-		r: clampByte(color1.r + (color2.r - color1.r) * clampedT),
-		g: clampByte(color1.g + (color2.g - color1.g) * clampedT),
-		b: clampByte(color1.b + (color2.b - color1.b) * clampedT),
-		a: clampByte(a1 + (a2 - a1) * clampedT),
-	};
+	const a = clampByte(a1 + (a2 - a1) * clampedT);
+	const lerp = (from: number, to: number) => from + (to - from) * clampedT;
+
+	switch (space) {
+		case ColorSpace.SRGB:
+			return {
+				r: clampByte(lerp(color1.r, color2.r)),
+				g: clampByte(lerp(color1.g, color2.g)),
+				b: clampByte(lerp(color1.b, color2.b)),
+				a,
+			};
+		case ColorSpace.LINEAR_RGB: {
+			const channel = (from: number, to: number) =>
+				clampByte(linearToSrgb(lerp(srgbToLinear(from), srgbToLinear(to))));
+			return {
+				r: channel(color1.r, color2.r),
+				g: channel(color1.g, color2.g),
+				b: channel(color1.b, color2.b),
+				a,
+			};
+		}
+		case ColorSpace.HSL: {
+			let [h1, s1, l1] = toHsl(color1);
+			let [h2, s2, l2] = toHsl(color2);
+			// Grays have no hue of their own; take the other color's
+			if (s1 === 0) h1 = h2;
+			if (s2 === 0) h2 = h1;
+			// Shorter way round the hue circle
+			if (h2 - h1 > 180) h1 += 360;
+			if (h1 - h2 > 180) h2 += 360;
+			return hsl(lerp(h1, h2), lerp(s1, s2), lerp(l1, l2), a);
+		}
+		case ColorSpace.OKLAB: {
+			const [L1, A1, B1] = toOklab(color1);
+			const [L2, A2, B2] = toOklab(color2);
+			return { ...fromOklab([lerp(L1, L2), lerp(A1, A2), lerp(B1, B2)]), a };
+		}
+	}
 }
 
 /**
@@ -114,6 +210,243 @@ export function bgTruecolor(color: Color): string {
 	return `\x1b[48;2;${clampByte(color.r)};${clampByte(color.g)};${clampByte(color.b)}m`;
 }
 
+/**
+ * Convert a color to OKLab coordinates [L, a, b] for perceptual distance
+ */
+export function toOklab(color: Color): [number, number, number] {
+	const r = srgbToLinear(color.r);
+	const g = srgbToLinear(color.g);
+	const b = srgbToLinear(color.b);
+
+	const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+	const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+	const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+	return [
+		0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+		1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+		0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+	];
+}
+
+/**
+ * Convert OKLab coordinates [L, a, b] back to an opaque color. Colors
+ * outside the sRGB gamut are clamped channel-wise.
+ */
+export function fromOklab([L, A, B]: readonly [number, number, number]): Color {
+	const l = (L + 0.3963377774 * A + 0.2158037573 * B) ** 3;
+	const m = (L - 0.1055613458 * A - 0.0638541728 * B) ** 3;
+	const s = (L - 0.0894841775 * A - 1.291485548 * B) ** 3;
+
+	return {
+		r: clampByte(linearToSrgb(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s)),
+		g: clampByte(linearToSrgb(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s)),
+		b: clampByte(linearToSrgb(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s)),
+		a: 255,
+	};
+}
+
+/**
+ * Convert a color to HSL: hue in degrees [0, 360), saturation and
+ * lightness in [0, 1]. Grays have hue 0 and saturation 0.
+ */
+export function toHsl(color: Color): [number, number, number] {
+	const r = color.r / 255;
+	const g = color.g / 255;
+	const b = color.b / 255;
+	const max = Math.max(r, g, b);
+	const min = Math.min(r, g, b);
+	const lightness = (max + min) / 2;
+	const chroma = max - min;
+	if (chroma === 0) {
+		return [0, 0, lightness];
+	}
+
+	let hue: number;
+	if (max === r) {
+		hue = ((g - b) / chroma + 6) % 6;
+	} else if (max === g) {
+		hue = (b - r) / chroma + 2;
+	} else {
+		hue = (r - g) / chroma + 4;
+	}
+	return [hue * 60, chroma / (1 - Math.abs(2 * lightness - 1)), lightness];
+}
+
+/**
+ * Convert an sRGB channel (0-255) to linear light (0-1)
+ */
+function srgbToLinear(channel: number): number {
+	const c = channel / 255;
+	return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
+
+/**
+ * Convert linear light (0-1, clamped) to an sRGB channel (0-255)
+ */
+function linearToSrgb(value: number): number {
+	const c = Math.max(0, Math.min(1, value));
+	return (c <= 0.0031308 ? c * 12.92 : 1.055 * c ** (1 / 2.4) - 0.055) * 255;
+}
+
+/** Channel levels of the xterm 6x6x6 color cube */
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+/** xterm's default colors for the 16 standard and bright ANSI colors */
+const SYSTEM_COLORS = [
+	0x000000, 0xcd0000, 0x00cd00, 0xcdcd00, 0x0000ee, 0xcd00cd, 0x00cdcd, 0xe5e5e5, 0x7f7f7f,
+	0xff0000, 0x00ff00, 0xffff00, 0x5c5cff, 0xff00ff, 0x00ffff, 0xffffff,
+];
+
+/**
+ * The xterm 256-color palette: 16 system colors, the 6x6x6 cube (16-231)
+ * and the 24-step grayscale ramp (232-255)
+ */
+export const XTERM_PALETTE: readonly Color[] = [
+	...SYSTEM_COLORS.map((v) => ({ r: (v >> 16) & 0xff, g: (v >> 8) & 0xff, b: v & 0xff, a: 255 })),
+	...Array.from({ length: 216 }, (_, i) => ({
+		r: CUBE_LEVELS[Math.floor(i / 36)] ?? 0,
+		g: CUBE_LEVELS[Math.floor(i / 6) % 6] ?? 0,
+		b: CUBE_LEVELS[i % 6] ?? 0,
+		a: 255,
+	})),
+	...Array.from({ length: 24 }, (_, i) => {
+		const v = 8 + i * 10;
+		return { r: v, g: v, b: v, a: 255 };
+	}),
+];
+
+/** OKLab coordinates of every XTERM_PALETTE entry */
+const PALETTE_OKLAB = XTERM_PALETTE.map(toOklab);
+
+/** Upper bound on cached quantization results per palette */
+const MAX_PALETTE_CACHE_SIZE = 65536;
+
+/** Quantization caches keyed by 24-bit RGB value */
+const ansi256Cache = new Map<number, number>();
+const ansi16Cache = new Map<number, number>();
+
+/**
+ * Find the perceptually nearest palette index in [first, last] (OKLab distance)
+ */
+function nearestPaletteIndex(
+	color: Color,
+	first: number,
+	last: number,
+	cache: Map<number, number> | null,
+): number {
+	const key = (clampByte(color.r) << 16) | (clampByte(color.g) << 8) | clampByte(color.b);
+	const cached = cache?.get(key);
+	if (cached !== undefined) return cached;
+
+	const [l, a, b] = toOklab(color);
+	let best = first;
+	let bestDistance = Infinity;
+	for (let i = first; i <= last; i++) {
+		const entry = PALETTE_OKLAB[i];
+		if (!entry) continue;
+		const distance = (entry[0] - l) ** 2 + (entry[1] - a) ** 2 + (entry[2] - b) ** 2;
+		if (distance < bestDistance) {
+			bestDistance = distance;
+			best = i;
+		}
+	}
+
+	if (cache) {
+		if (cache.size >= MAX_PALETTE_CACHE_SIZE) cache.clear();
+		cache.set(key, best);
+	}
+	return best;
+}
+
+/**
+ * Map a color to the nearest xterm 256-color index.
+ * Only the cube and grayscale ramp (16-255) are considered, since the 16
+ * system colors are commonly redefined by terminal themes.
+ * @param useCache Reuse results for previously seen colors (default: true)
+ */
+export function nearestAnsi256(color: Color, useCache = true): number {
+	return nearestPaletteIndex(color, 16, 255, useCache ? ansi256Cache : null);
+}
+
+/**
+ * Map a color to the nearest of the 16 ANSI colors (0-7 standard, 8-15 bright)
+ * @param useCache Reuse results for previously seen colors (default: true)
+ */
+export function nearestAnsi16(color: Color, useCache = true): number {
+	return nearestPaletteIndex(color, 0, 15, useCache ? ansi16Cache : null);
+}
+
+/**
+ * Drop all cached palette quantization results
+ */
+export function clearPaletteCache(): void {
+	ansi256Cache.clear();
+	ansi16Cache.clear();
+}
+
+/**
+ * Generate ANSI escape code for foreground 256-color
+ */
+export function fgAnsi256(color: Color): string {
+	return `\x1b[38;5;${nearestAnsi256(color)}m`;
+}
+
+/**
+ * Generate ANSI escape code for background 256-color
+ */
+export function bgAnsi256(color: Color): string {
+	return `\x1b[48;5;${nearestAnsi256(color)}m`;
+}
+
+/**
+ * Generate ANSI escape code for foreground 16-color (SGR 30-37, 90-97)
+ */
+export function fgAnsi16(color: Color): string {
+	const index = nearestAnsi16(color);
+	return `\x1b[${index < 8 ? 30 + index : 82 + index}m`;
+}
+
+/**
+ * Generate ANSI escape code for background 16-color (SGR 40-47, 100-107)
+ */
+export function bgAnsi16(color: Color): string {
+	const index = nearestAnsi16(color);
+	return `\x1b[${index < 8 ? 40 + index : 92 + index}m`;
+}
+
+/**
+ * Generate the foreground escape code for a color mode ("" for NONE)
+ */
+export function fgColor(color: Color, mode: ColorMode): string {
+	switch (mode) {
+		case ColorMode.TRUECOLOR:
+			return fgTruecolor(color);
+		case ColorMode.ANSI256:
+			return fgAnsi256(color);
+		case ColorMode.ANSI16:
+			return fgAnsi16(color);
+		case ColorMode.NONE:
+			return "";
+	}
+}
+
+/**
+ * Generate the background escape code for a color mode ("" for NONE)
+ */
+export function bgColor(color: Color, mode: ColorMode): string {
+	switch (mode) {
+		case ColorMode.TRUECOLOR:
+			return bgTruecolor(color);
+		case ColorMode.ANSI256:
+			return bgAnsi256(color);
+		case ColorMode.ANSI16:
+			return bgAnsi16(color);
+		case ColorMode.NONE:
+			return "";
+	}
+}
+
 /**
  * Reset ANSI color codes
  */
@@ -133,6 +466,29 @@ export function rgb(r: number, g: number, b: number, a?: number): Color {
 	};
 }
 
+/**
+ * Create a color from HSL values
+ * @param h Hue in degrees, wrapped to [0, 360)
+ * @param s Saturation (0-1)
+ * @param l Lightness (0-1)
+ */
+export function hsl(h: number, s: number, l: number, a?: number): Color {
+	const chroma = (1 - Math.abs(2 * l - 1)) * s;
+	const sector = (((h % 360) + 360) % 360) / 60;
+	const x = chroma * (1 - Math.abs((sector % 2) - 1));
+	const sectors: [number, number, number][] = [
+		[chroma, x, 0],
+		[x, chroma, 0],
+		[0, chroma, x],
+		[0, x, chroma],
+		[x, 0, chroma],
+		[chroma, 0, x],
+	];
+	const [r, g, b] = sectors[Math.floor(sector)] ?? [0, 0, 0];
+	const m = l - chroma / 2;
+	return rgb((r + m) * 255, (g + m) * 255, (b + m) * 255, a);
+}
+
 /**
  * Create a color from a hex string (#RGB, #RRGGBB)
  * Returns black for invalid input.
@@ -0,0 +1,181 @@
+import { BLACK, blendColors, TRANSPARENT, WHITE } from "./colors";
+import { mapPixelsToCells } from "./mapper";
+import type { Cell, Color, Grid, PixelSurface, RenderOptions } from "./types";
+import { DEFAULT_OPTIONS } from "./types";
+
+/**
+ * Placement of a layer in the composited grid
+ */
+export interface LayerOptions {
+	/** Column of the layer's left edge; may be negative (default: 0) */
+	x?: number;
+	/** Row of the layer's top edge; may be negative (default: 0) */
+	y?: number;
+	/** Stacking order; higher layers are drawn on top, ties keep insertion order (default: 0) */
+	z?: number;
+	/** Layer opacity, 0-1 (default: 1) */
+	opacity?: number;
+}
+
+/**
+ * Options for pixel layers
+ */
+export interface PixelLayerOptions extends LayerOptions {
+	/** Options used to map the pixels to cells (default: DEFAULT_OPTIONS) */
+	render?: Partial<RenderOptions>;
+}
+
+/**
+ * Options for text layers
+ */
+export interface TextLayerOptions extends LayerOptions {
+	/** Text color (default: white) */
+	fg?: Color;
+	/** Background behind the text (default: transparent) */
+	bg?: Color;
+}
+
+/**
+ * A grid placed in the compositor
+ */
+interface Layer {
+	grid: Grid;
+	x: number;
+	y: number;
+	z: number;
+	opacity: number;
+}
+
+/**
+ * Whether a character draws nothing, so the glyph below stays visible
+ */
+function isBlankGlyph(char: string): boolean {
+	return char === " " || char === "" || char === "\u2800";
+}
+
+/**
+ * Scale a color's alpha by a layer opacity
+ */
+function withOpacity(color: Color, opacity: number): Color {
+	return opacity >= 1 ? color : { ...color, a: (color.a ?? 255) * opacity };
+}
+
+/**
+ * Composite one cell over another.
+ * The top background covers everything below it (blended by its alpha);
+ * a non-blank top glyph replaces the glyph below, while a blank one lets
+ * the lower glyph show through a translucent top background.
+ */
+function compositeCell(top: Cell, below: Cell, opacity: number): Cell {
+	const topBg = withOpacity(top.bg, opacity);
+	const bg = blendColors(topBg, below.bg);
+	if (isBlankGlyph(top.char)) {
+		if ((topBg.a ?? 255) >= 255) return { char: top.char, fg: { ...top.fg }, bg };
+		return { char: below.char, fg: blendColors(topBg, below.fg), bg };
+	}
+	return { char: top.char, fg: blendColors(withOpacity(top.fg, opacity), bg), bg };
+}
+
+/**
+ * Stacks grids, pixel layers and text into one grid.
+ *
+ * Layers are composited back to front over an opaque background with
+ * alpha blending. Cells with a transparent background and a blank glyph
+ * (such as the empty cells a transparent pixel region maps to) leave the
+ * cells below untouched, so text overlays like labels or a HUD can be
+ * placed over a render without drawing them into its pixels.
+ */
+export class Compositor {
+	readonly width: number;
+	readonly height: number;
+	private readonly background: Color;
+	private layers: Layer[] = [];
+
+	/**
+	 * @param width Width in cells
+	 * @param height Height in cells
+	 * @param background Color shown where no layer is opaque (default: black)
+	 * @throws {Error} If width or height are not positive
+	 */
+	constructor(width: number, height: number, background: Color = BLACK) {
+		if (width <= 0 || height <= 0) {
+			throw new Error(`Compositor dimensions must be positive: ${width}x${height}`);
+		}
+		this.width = width;
+		this.height = height;
+		this.background = { ...background, a: 255 };
+	}
+
+	/**
+	 * Number of layers added since the last clear()
+	 */
+	get length(): number {
+		return this.layers.length;
+	}
+
+	/**
+	 * Add a grid of cells as a layer. The grid is kept by reference until
+	 * the next clear(), so it must not be mutated before compose().
+	 */
+	addGrid(grid: Grid, options: LayerOptions = {}): void {
+		const { x = 0, y = 0, z = 0, opacity = 1 } = options;
+		this.layers.push({ grid, x, y, z, opacity: Math.max(0, Math.min(1, opacity)) });
+	}
+
+	/**
+	 * Map a pixel buffer to cells and add it as a layer.
+	 * Transparent pixels become transparent cells.
+	 */
+	addPixels(pixels: PixelSurface, options: PixelLayerOptions = {}): void {
+		const opts = { ...DEFAULT_OPTIONS, ...options.render };
+		this.addGrid(mapPixelsToCells(pixels, opts.symbolSet, opts.threshold, opts), options);
+	}
+
+	/**
+	 * Add text as a layer, one row per line. Spaces are transparent unless a
+	 * background color is given.
+	 */
+	addText(text: string, options: TextLayerOptions = {}): void {
+		const { fg = WHITE, bg = TRANSPARENT } = options;
+		const grid = text
+			.split("\n")
+			.map((line) => Array.from(line, (char) => ({ char, fg: { ...fg }, bg: { ...bg } })));
+		this.addGrid(grid, options);
+	}
+
+	/**
+	 * Remove all layers
+	 */
+	clear(): void {
+		this.layers = [];
+	}
+
+	/**
+	 * Composite all layers into a new grid of the compositor's size
+	 */
+	compose(): Grid {
+		const result: Grid = Array.from({ length: this.height }, () =>
+			Array.from({ length: this.width }, () => ({
+				char: " ",
+				fg: { ...this.background },
+				bg: { ...this.background },
+			})),
+		);
+
+		// Array.prototype.sort is stable, so equal z keeps insertion order
+		const layers = [...this.layers].sort((a, b) => a.z - b.z);
+		for (const layer of layers) {
+			if (layer.opacity <= 0) continue;
+			layer.grid.forEach((row, ly) => {
+				const target = result[layer.y + ly];
+				if (!target) return;
+				row.forEach((cell, lx) => {
+					const x = layer.x + lx;
+					const below = target[x];
+					if (below) target[x] = compositeCell(cell, below, layer.opacity);
+				});
+			});
+		}
+		return result;
+	}
+}
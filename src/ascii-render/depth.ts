@@ -0,0 +1,82 @@
+import { getSurfaceSize } from "./buffer";
+import type { DepthBuffer, DepthBufferOptions, PixelSurface } from "./types";
+import { DepthTest } from "./types";
+
+/**
+ * Depth buffers keyed by the pixel buffer they belong to.
+ * A WeakMap lets both packed buffers and nested arrays carry depth
+ * without changing their shape, and frees the depth data with the buffer.
+ */
+const attachedDepth = new WeakMap<PixelSurface, DepthBuffer>();
+
+/**
+ * Create a depth buffer matching the surface size and attach it.
+ * Replaces any depth buffer previously attached to the surface.
+ */
+export function attachDepthBuffer(
+	surface: PixelSurface,
+	options: DepthBufferOptions = {},
+): DepthBuffer {
+	const { width, height } = getSurfaceSize(surface);
+	const depth: DepthBuffer = {
+		width,
+		height,
+		data: new Float32Array(width * height),
+		test: options.test ?? DepthTest.LESS,
+		clearValue: options.clearValue ?? Infinity,
+	};
+	clearDepthBuffer(depth);
+	attachedDepth.set(surface, depth);
+	return depth;
+}
+
+/**
+ * Get the depth buffer attached to a surface, if any
+ */
+export function getDepthBuffer(surface: PixelSurface): DepthBuffer | undefined {
+	return attachedDepth.get(surface);
+}
+
+/**
+ * Remove the depth buffer attached to a surface
+ */
+export function detachDepthBuffer(surface: PixelSurface): void {
+	attachedDepth.delete(surface);
+}
+
+/**
+ * Reset every depth value to the buffer's clear value
+ */
+export function clearDepthBuffer(depth: DepthBuffer): void {
+	depth.data.fill(depth.clearValue);
+}
+
+/**
+ * Compare a depth against the stored value and store it if the test passes
+ * @returns Whether the test passed; out-of-bounds coordinates always fail
+ */
+export function testAndWriteDepth(depth: DepthBuffer, x: number, y: number, z: number): boolean {
+	if (x < 0 || x >= depth.width || y < 0 || y >= depth.height) {
+		return false;
+	}
+	const i = y * depth.width + x;
+	const stored = depth.data[i] ?? depth.clearValue;
+
+	let pass: boolean;
+	switch (depth.test) {
+		case DepthTest.LESS:
+			pass = z < stored;
+			break;
+		case DepthTest.LESS_EQUAL:
+			pass = z <= stored;
+			break;
+		case DepthTest.ALWAYS:
+			pass = true;
+			break;
+	}
+
+	if (pass) {
+		depth.data[i] = z;
+	}
+	return pass;
+}
@@ -0,0 +1,304 @@
+import type { RgbaBuffer } from "./types";
+import { DitherMode } from "./types";
+
+/**
+ * Build a Bayer index matrix of size 2^order, stored row-major.
+ * Each step expands M into [[4M, 4M+2], [4M+3, 4M+1]].
+ */
+function createBayerMatrix(order: number): Uint8Array {
+	let size = 1;
+	let matrix = new Uint8Array([0]);
+	for (let i = 0; i < order; i++) {
+		const next = new Uint8Array(size * 2 * size * 2);
+		for (let y = 0; y < size; y++) {
+			for (let x = 0; x < size; x++) {
+				const v = (matrix[y * size + x] ?? 0) * 4;
+				const row = y * size * 2;
+				const below = (y + size) * size * 2;
+				next[row + x] = v;
+				next[row + x + size] = v + 2;
+				next[below + x] = v + 3;
+				next[below + x + size] = v + 1;
+			}
+		}
+		matrix = next;
+		size *= 2;
+	}
+	return matrix;
+}
+
+/**
+ * Threshold texture: values in [0, 1), tiled across the image
+ */
+interface ThresholdMap {
+	size: number;
+	values: Float32Array;
+}
+
+/**
+ * Normalize ranks 0..n-1 to (rank + 0.5) / n
+ */
+function toThresholdMap(ranks: ArrayLike<number>, size: number): ThresholdMap {
+	const count = size * size;
+	const values = new Float32Array(count);
+	for (let i = 0; i < count; i++) {
+		values[i] = ((ranks[i] ?? 0) + 0.5) / count;
+	}
+	return { size, values };
+}
+
+/** Side length of the generated blue-noise texture */
+const BLUE_NOISE_SIZE = 32;
+
+/** Gaussian sigma used by void-and-cluster to measure clustering */
+const BLUE_NOISE_SIGMA = 1.5;
+
+/**
+ * Deterministic PRNG (mulberry32) so the blue-noise texture is stable across runs
+ */
+function mulberry32(seed: number): () => number {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+/**
+ * Generate blue-noise ranks with Ulichney's void-and-cluster method.
+ * Energy at each cell is the toroidal Gaussian-weighted count of nearby
+ * ones; the tightest cluster is the one with the highest energy and the
+ * largest void the zero with the lowest.
+ */
+function createBlueNoiseRanks(size: number): Uint16Array {
+	const count = size * size;
+	const kernel = new Float64Array(count);
+	for (let y = 0; y < size; y++) {
+		for (let x = 0; x < size; x++) {
+			const dx = Math.min(x, size - x);
+			const dy = Math.min(y, size - y);
+			kernel[y * size + x] = Math.exp(-(dx * dx + dy * dy) / (2 * BLUE_NOISE_SIGMA ** 2));
+		}
+	}
+
+	const energy = new Float64Array(count);
+	const bits = new Uint8Array(count);
+	const toggle = (i: number, on: boolean) => {
+		bits[i] = on ? 1 : 0;
+		const sign = on ? 1 : -1;
+		const ix = i % size;
+		const iy = Math.floor(i / size);
+		for (let y = 0; y < size; y++) {
+			const ky = ((y - iy + size) % size) * size;
+			for (let x = 0; x < size; x++) {
+				energy[y * size + x] =
+					(energy[y * size + x] ?? 0) + sign * (kernel[ky + ((x - ix + size) % size)] ?? 0);
+			}
+		}
+	};
+	const extreme = (value: 0 | 1, findMax: boolean) => {
+		let best = -1;
+		let bestEnergy = findMax ? -Infinity : Infinity;
+		for (let i = 0; i < count; i++) {
+			if (bits[i] !== value) continue;
+			const e = energy[i] ?? 0;
+			if (findMax ? e > bestEnergy : e < bestEnergy) {
+				bestEnergy = e;
+				best = i;
+			}
+		}
+		return best;
+	};
+
+	// Initial random pattern with ~10% ones
+	const random = mulberry32(0x5eed);
+	const initialOnes = Math.floor(count / 10);
+	let placed = 0;
+	while (placed < initialOnes) {
+		const i = Math.floor(random() * count);
+		if (!bits[i]) {
+			toggle(i, true);
+			placed++;
+		}
+	}
+
+	// Relax: move the tightest cluster into the largest void until stable
+	for (let guard = 0; guard < count; guard++) {
+		const cluster = extreme(1, true);
+		toggle(cluster, false);
+		const voidIndex = extreme(0, false);
+		toggle(voidIndex, true);
+		if (voidIndex === cluster) break;
+	}
+
+	const ranks = new Uint16Array(count);
+	const prototype = bits.slice();
+	const prototypeEnergy = energy.slice();
+
+	// Phase 1: rank the initial ones by removing tightest clusters
+	for (let rank = initialOnes - 1; rank >= 0; rank--) {
+		const cluster = extreme(1, true);
+		toggle(cluster, false);
+		ranks[cluster] = rank;
+	}
+
+	// Phases 2 and 3: restore the prototype and fill the largest voids
+	bits.set(prototype);
+	energy.set(prototypeEnergy);
+	for (let rank = initialOnes; rank < count; rank++) {
+		const voidIndex = extreme(0, false);
+		toggle(voidIndex, true);
+		ranks[voidIndex] = rank;
+	}
+
+	return ranks;
+}
+
+/** Threshold maps built on first use */
+const thresholdMaps = new Map<DitherMode, ThresholdMap>();
+
+/**
+ * Get the tiled threshold map for an ordered dithering mode
+ */
+function getThresholdMap(mode: DitherMode): ThresholdMap | null {
+	const cached = thresholdMaps.get(mode);
+	if (cached) return cached;
+
+	let map: ThresholdMap;
+	switch (mode) {
+		case DitherMode.BAYER2:
+			map = toThresholdMap(createBayerMatrix(1), 2);
+			break;
+		case DitherMode.BAYER4:
+			map = toThresholdMap(createBayerMatrix(2), 4);
+			break;
+		case DitherMode.BAYER8:
+			map = toThresholdMap(createBayerMatrix(3), 8);
+			break;
+		case DitherMode.BLUE_NOISE:
+			map = toThresholdMap(createBlueNoiseRanks(BLUE_NOISE_SIZE), BLUE_NOISE_SIZE);
+			break;
+		default:
+			return null;
+	}
+	thresholdMaps.set(mode, map);
+	return map;
+}
+
+/**
+ * Coverage-weighted luminance of every pixel (0-255)
+ */
+export function getLuminance(pixels: RgbaBuffer): Float32Array {
+	const { width, height, stride, data } = pixels;
+	const luminance = new Float32Array(width * height);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const i = y * stride + x * 4;
+			const brightness =
+				0.299 * (data[i] ?? 0) + 0.587 * (data[i + 1] ?? 0) + 0.114 * (data[i + 2] ?? 0);
+			luminance[y * width + x] = (brightness * (data[i + 3] ?? 255)) / 255;
+		}
+	}
+	return luminance;
+}
+
+/**
+ * Error diffusion kernels as [dx, dy, weight] in scan direction
+ */
+const FLOYD_STEINBERG_KERNEL = [
+	[1, 0, 7 / 16],
+	[-1, 1, 3 / 16],
+	[0, 1, 5 / 16],
+	[1, 1, 1 / 16],
+] as const;
+
+const ATKINSON_KERNEL = [
+	[1, 0, 1 / 8],
+	[2, 0, 1 / 8],
+	[-1, 1, 1 / 8],
+	[0, 1, 1 / 8],
+	[1, 1, 1 / 8],
+	[0, 2, 1 / 8],
+] as const;
+
+/**
+ * Threshold pixels while diffusing the quantization error to unvisited neighbours
+ * @param serpentine Alternate the scan direction on every row
+ */
+function diffuseError(
+	luminance: Float32Array,
+	width: number,
+	height: number,
+	threshold: number,
+	kernel: readonly (readonly [number, number, number])[],
+	serpentine: boolean,
+): Uint8Array {
+	const mask = new Uint8Array(width * height);
+	for (let y = 0; y < height; y++) {
+		const reverse = serpentine && y % 2 === 1;
+		const dir = reverse ? -1 : 1;
+		for (let step = 0; step < width; step++) {
+			const x = reverse ? width - 1 - step : step;
+			const i = y * width + x;
+			const value = luminance[i] ?? 0;
+			const on = value >= threshold;
+			mask[i] = on ? 1 : 0;
+			const error = value - (on ? 255 : 0);
+			for (const [dx, dy, weight] of kernel) {
+				const nx = x + dx * dir;
+				const ny = y + dy;
+				if (nx >= 0 && nx < width && ny < height) {
+					const n = ny * width + nx;
+					luminance[n] = (luminance[n] ?? 0) + error * weight;
+				}
+			}
+		}
+	}
+	return mask;
+}
+
+/**
+ * Decide which pixels are "on" using the given dithering mode.
+ *
+ * Ordered modes vary the threshold per pixel around `threshold` by up to
+ * half the brightness range, clamped to [1, 255] so that black stays off
+ * and white stays on; error-diffusion modes compare against
+ * `threshold` and spread the difference to neighbours. Luminance is
+ * weighted by alpha coverage, so transparent pixels stay off.
+ * @returns One byte per pixel (row-major, 1 = on), or null for DitherMode.NONE
+ */
+export function createDitherMask(
+	pixels: RgbaBuffer,
+	mode: DitherMode,
+	threshold: number,
+): Uint8Array | null {
+	if (mode === DitherMode.NONE) return null;
+
+	const { width, height } = pixels;
+	const luminance = getLuminance(pixels);
+
+	if (mode === DitherMode.FLOYD_STEINBERG) {
+		return diffuseError(luminance, width, height, threshold, FLOYD_STEINBERG_KERNEL, true);
+	}
+	if (mode === DitherMode.ATKINSON) {
+		return diffuseError(luminance, width, height, threshold, ATKINSON_KERNEL, false);
+	}
+
+	const map = getThresholdMap(mode);
+	if (!map) return null;
+
+	const mask = new Uint8Array(width * height);
+	for (let y = 0; y < height; y++) {
+		const mapRow = (y % map.size) * map.size;
+		for (let x = 0; x < width; x++) {
+			const offset = (map.values[mapRow + (x % map.size)] ?? 0.5) - 0.5;
+			const pixelThreshold = Math.min(255, Math.max(1, threshold + offset * 255));
+			const i = y * width + x;
+			mask[i] = (luminance[i] ?? 0) >= pixelThreshold ? 1 : 0;
+		}
+	}
+	return mask;
+}
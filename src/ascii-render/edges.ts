@@ -0,0 +1,140 @@
+import { getLuminance } from "./dither";
+import type { RgbaBuffer } from "./types";
+
+/**
+ * Edge orientation bits stored in an edge map and matched against EDGE_SYMBOLS.
+ * Directions are in screen space (y down).
+ */
+export const EDGE_ORIENTATION = {
+	HORIZONTAL: 0b00001,
+	RISING: 0b00010,
+	VERTICAL: 0b00100,
+	FALLING: 0b01000,
+	/** Set together with HORIZONTAL when the bright side is above the edge */
+	LOW: 0b10000,
+	/** Corners, crossings and other points without a single direction */
+	CROSS: 0b01111,
+};
+
+/** Minimum structure tensor energy, for luminance normalized to 0-1 */
+const MIN_EDGE_ENERGY = 0.5;
+
+/** Minimum coherence (0-1) for an edge to get a single orientation */
+const MIN_COHERENCE = 0.4;
+
+/** Luminance difference to a neighbor that puts a pixel on an edge, or marks it LOW */
+const EDGE_CONTRAST = 0.25;
+
+/**
+ * Compute the edge orientation of every pixel.
+ *
+ * Sobel gradients are accumulated into a structure tensor over each pixel's
+ * 3x3 neighborhood. Averaging the outer products, rather than the gradients
+ * themselves, keeps the orientation of one-pixel lines whose own gradient
+ * cancels out. Strong, coherent tensors get the orientation of the line
+ * (perpendicular to the dominant gradient) in 45 degree steps; strong but
+ * incoherent ones, such as corners and crossings, get CROSS. Only pixels with
+ * a noticeably darker 8-neighbor are considered, so the inside of filled
+ * shapes stays edge-free.
+ * @returns One EDGE_ORIENTATION pattern per pixel (row-major), 0 where there is no edge
+ */
+export function createEdgeMap(pixels: RgbaBuffer): Uint8Array {
+	const { width, height } = pixels;
+	const luminance = getLuminance(pixels);
+	const count = width * height;
+
+	// Luminance at a clamped position, normalized to 0-1
+	const at = (x: number, y: number): number => {
+		const cx = Math.min(width - 1, Math.max(0, x));
+		const cy = Math.min(height - 1, Math.max(0, y));
+		return (luminance[cy * width + cx] ?? 0) / 255;
+	};
+
+	const gxx = new Float32Array(count);
+	const gxy = new Float32Array(count);
+	const gyy = new Float32Array(count);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const gx =
+				at(x + 1, y - 1) +
+				2 * at(x + 1, y) +
+				at(x + 1, y + 1) -
+				at(x - 1, y - 1) -
+				2 * at(x - 1, y) -
+				at(x - 1, y + 1);
+			const gy =
+				at(x - 1, y + 1) +
+				2 * at(x, y + 1) +
+				at(x + 1, y + 1) -
+				at(x - 1, y - 1) -
+				2 * at(x, y - 1) -
+				at(x + 1, y - 1);
+			const i = y * width + x;
+			gxx[i] = gx * gx;
+			gxy[i] = gx * gy;
+			gyy[i] = gy * gy;
+		}
+	}
+
+	const edges = new Uint8Array(count);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			let jxx = 0;
+			let jxy = 0;
+			let jyy = 0;
+			for (let dy = -1; dy <= 1; dy++) {
+				const ny = y + dy;
+				if (ny < 0 || ny >= height) continue;
+				for (let dx = -1; dx <= 1; dx++) {
+					const nx = x + dx;
+					if (nx < 0 || nx >= width) continue;
+					const j = ny * width + nx;
+					jxx += gxx[j] ?? 0;
+					jxy += gxy[j] ?? 0;
+					jyy += gyy[j] ?? 0;
+				}
+			}
+
+			const energy = jxx + jyy;
+			if (energy < MIN_EDGE_ENERGY) continue;
+
+			const i = y * width + x;
+			const own = at(x, y);
+			let boundary = false;
+			for (let dy = -1; dy <= 1 && !boundary; dy++) {
+				for (let dx = -1; dx <= 1; dx++) {
+					// Clamped reads at the border compare the pixel with itself
+					if (own - at(x + dx, y + dy) >= EDGE_CONTRAST) {
+						boundary = true;
+						break;
+					}
+				}
+			}
+			if (!boundary) continue;
+
+			const coherence = Math.sqrt((jxx - jyy) ** 2 + 4 * jxy * jxy) / energy;
+			if (coherence < MIN_COHERENCE) {
+				edges[i] = EDGE_ORIENTATION.CROSS;
+				continue;
+			}
+
+			// Dominant gradient angle; the line runs perpendicular to it
+			const gradient = 0.5 * Math.atan2(2 * jxy, jxx - jyy);
+			const line = gradient + Math.PI / 2;
+			const step = ((Math.round(line / (Math.PI / 4)) % 4) + 4) % 4;
+
+			if (step === 0) {
+				const low = at(x, y - 1) - at(x, y + 1) >= EDGE_CONTRAST;
+				edges[i] = EDGE_ORIENTATION.HORIZONTAL | (low ? EDGE_ORIENTATION.LOW : 0);
+			} else if (step === 1) {
+				// Right and down in screen space
+				edges[i] = EDGE_ORIENTATION.FALLING;
+			} else if (step === 2) {
+				edges[i] = EDGE_ORIENTATION.VERTICAL;
+			} else {
+				edges[i] = EDGE_ORIENTATION.RISING;
+			}
+		}
+	}
+	return edges;
+}
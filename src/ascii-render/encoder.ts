@@ -0,0 +1,165 @@
+import { bgColor, colorsEqual, fgColor, resetColors } from "./colors";
+import type { Cell, Grid } from "./types";
+import { ColorMode } from "./types";
+
+/**
+ * Statistics about one encoded frame
+ */
+export interface FrameStats {
+	/** Number of cells written this frame */
+	changedCells: number;
+	/** Number of cells in the frame */
+	totalCells: number;
+	/** Whether every cell was written (first frame, size change or reset) */
+	fullRedraw: boolean;
+	/** Length of the encoded output in UTF-16 code units */
+	length: number;
+}
+
+/**
+ * Output of FrameEncoder.encode
+ */
+export interface EncodedFrame {
+	/** Cursor-move and SGR sequences that update the terminal to the new frame */
+	output: string;
+	/** Change statistics for the frame */
+	stats: FrameStats;
+}
+
+/**
+ * Options for the frame encoder
+ */
+export interface FrameEncoderOptions {
+	/** 1-based terminal row of the frame's top-left cell (default: 1) */
+	row?: number;
+	/** 1-based terminal column of the frame's top-left cell (default: 1) */
+	col?: number;
+}
+
+/**
+ * Generate the ANSI sequence that moves the cursor to a 1-based position
+ */
+export function cursorTo(row: number, col: number): string {
+	return `\x1b[${row};${col}H`;
+}
+
+/**
+ * Stateful encoder that turns successive grids into incremental terminal output.
+ *
+ * The encoder remembers the last grid it encoded and only emits cursor-move
+ * and SGR sequences for the cells that changed since then. It assumes the
+ * terminal region it draws to is not modified by anything else; call reset()
+ * after the screen was cleared or resized to force a full redraw.
+ */
+export class FrameEncoder {
+	private options: Required<FrameEncoderOptions>;
+	private previous: Grid | null = null;
+	private previousColorMode: ColorMode | null = null;
+
+	constructor(options: FrameEncoderOptions = {}) {
+		this.options = { row: 1, col: 1, ...options };
+	}
+
+	/**
+	 * Update encoder options. Changing options forces a full redraw.
+	 */
+	setOptions(options: FrameEncoderOptions): void {
+		this.options = { ...this.options, ...options };
+		this.reset();
+	}
+
+	/**
+	 * Forget the previous frame so the next encode writes every cell
+	 */
+	reset(): void {
+		this.previous = null;
+		this.previousColorMode = null;
+	}
+
+	/**
+	 * Encode a grid relative to the previously encoded one.
+	 * The grid is kept by reference as the baseline for the next call, so it
+	 * must not be mutated afterwards. A color mode change forces a full redraw.
+	 */
+	encode(grid: Grid, colorMode: ColorMode = ColorMode.TRUECOLOR): EncodedFrame {
+		const { row: originRow, col: originCol } = this.options;
+		const previous = this.previous;
+		const fullRedraw =
+			!previous || colorMode !== this.previousColorMode || !sameShape(previous, grid);
+		const useColor = colorMode !== ColorMode.NONE;
+
+		let output = "";
+		let changedCells = 0;
+		let totalCells = 0;
+		let lastFg: string | null = null;
+		let lastBg: string | null = null;
+
+		for (let y = 0; y < grid.length; y++) {
+			const row = grid[y] ?? [];
+			const previousRow = fullRedraw ? undefined : previous?.[y];
+			// Column the cursor will be at after the last write, or -1 if unknown
+			let cursorX = -1;
+
+			for (let x = 0; x < row.length; x++) {
+				totalCells++;
+				const cell = row[x];
+				if (!cell) continue;
+
+				const before = previousRow?.[x];
+				if (before && cellsEqual(before, cell, useColor)) continue;
+
+				changedCells++;
+				if (cursorX !== x) {
+					output += cursorTo(originRow + y, originCol + x);
+				}
+
+				if (useColor) {
+					const fg = fgColor(cell.fg, colorMode);
+					if (fg !== lastFg) {
+						output += fg;
+						lastFg = fg;
+					}
+					const bg = bgColor(cell.bg, colorMode);
+					if (bg !== lastBg) {
+						output += bg;
+						lastBg = bg;
+					}
+				}
+
+				output += cell.char;
+				cursorX = x + 1;
+			}
+		}
+
+		if (useColor && changedCells > 0) {
+			output += resetColors();
+		}
+
+		this.previous = grid;
+		this.previousColorMode = colorMode;
+
+		return {
+			output,
+			stats: { changedCells, totalCells, fullRedraw, length: output.length },
+		};
+	}
+}
+
+/**
+ * Check whether two grids have identical dimensions
+ */
+function sameShape(a: Grid, b: Grid): boolean {
+	if (a.length !== b.length) return false;
+	for (let y = 0; y < a.length; y++) {
+		if ((a[y]?.length ?? 0) !== (b[y]?.length ?? 0)) return false;
+	}
+	return true;
+}
+
+/**
+ * Check whether two cells render identically
+ */
+function cellsEqual(a: Cell, b: Cell, compareColors: boolean): boolean {
+	if (a.char !== b.char) return false;
+	return !compareColors || (colorsEqual(a.fg, b.fg) && colorsEqual(a.bg, b.bg));
+}
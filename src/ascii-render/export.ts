@@ -0,0 +1,295 @@
+import { deflateSync } from "node:zlib";
+import { getSurfaceSize, isRgbaBuffer, toRgbaBuffer } from "./buffer";
+import { HALF_BLOCK_SYMBOLS, OCTANT_SYMBOLS, QUADRANT_SYMBOLS, SEXTANT_SYMBOLS } from "./symbols";
+import type { Cell, Color, Grid, PixelSurface, RgbaBuffer, SymbolDef } from "./types";
+
+/**
+ * Options for HTML export
+ */
+export interface HtmlExportOptions {
+	/** CSS font-family of the <pre> element (default: "monospace") */
+	fontFamily?: string;
+	/** CSS font-size of the <pre> element (default: "14px") */
+	fontSize?: string;
+	/** CSS line-height; 1 keeps block glyphs touching (default: "1") */
+	lineHeight?: string;
+}
+
+/**
+ * Options for SVG export
+ */
+export interface SvgExportOptions {
+	/** Width of one cell in SVG units (default: 8) */
+	cellWidth?: number;
+	/** Height of one cell in SVG units (default: 16) */
+	cellHeight?: number;
+	/** Font family for text cells (default: "monospace") */
+	fontFamily?: string;
+	/**
+	 * Draw half, quadrant, sextant and octant glyphs as rectangles instead of
+	 * text, so they render without font support and without gaps (default: true)
+	 */
+	blocks?: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Pixel formats
+// ---------------------------------------------------------------------------
+
+/** CRC-32 lookup table for PNG chunks */
+const CRC_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		table[n] = c >>> 0;
+	}
+	return table;
+})();
+
+/**
+ * CRC-32 of a byte range
+ */
+function crc32(bytes: Uint8Array): number {
+	let crc = 0xffffffff;
+	for (let i = 0; i < bytes.length; i++) {
+		crc = (CRC_TABLE[(crc ^ (bytes[i] ?? 0)) & 0xff] ?? 0) ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Serialize one PNG chunk (length, type, body, CRC)
+ */
+function pngChunk(type: string, body: Uint8Array): Uint8Array {
+	const chunk = new Uint8Array(12 + body.length);
+	const view = new DataView(chunk.buffer);
+	view.setUint32(0, body.length);
+	for (let i = 0; i < 4; i++) {
+		chunk[4 + i] = type.charCodeAt(i);
+	}
+	chunk.set(body, 8);
+	view.setUint32(8 + body.length, crc32(chunk.subarray(4, 8 + body.length)));
+	return chunk;
+}
+
+/**
+ * Get a packed view of any surface
+ */
+function toPacked(pixels: PixelSurface): RgbaBuffer | null {
+	const { width, height } = getSurfaceSize(pixels);
+	if (width === 0 || height === 0) return null;
+	return isRgbaBuffer(pixels) ? pixels : toRgbaBuffer(pixels);
+}
+
+/**
+ * Encode pixels as an 8-bit RGBA PNG.
+ * Every channel, including alpha, is stored exactly.
+ * @throws {Error} If the surface is empty
+ */
+export function encodePng(pixels: PixelSurface): Uint8Array {
+	const image = toPacked(pixels);
+	if (!image) {
+		throw new Error("Cannot encode an empty image");
+	}
+	const { width, height, stride, data } = image;
+
+	const header = new Uint8Array(13);
+	const view = new DataView(header.buffer);
+	view.setUint32(0, width);
+	view.setUint32(4, height);
+	header[8] = 8; // bit depth
+	header[9] = 6; // RGBA
+
+	// Each scanline is prefixed with filter type 0 (None)
+	const rowBytes = width * 4;
+	const raw = new Uint8Array((rowBytes + 1) * height);
+	for (let y = 0; y < height; y++) {
+		raw.set(data.subarray(y * stride, y * stride + rowBytes), y * (rowBytes + 1) + 1);
+	}
+
+	const parts = [
+		new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+		pngChunk("IHDR", header),
+		pngChunk("IDAT", new Uint8Array(deflateSync(raw))),
+		pngChunk("IEND", new Uint8Array(0)),
+	];
+	const png = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+	let offset = 0;
+	for (const part of parts) {
+		png.set(part, offset);
+		offset += part.length;
+	}
+	return png;
+}
+
+/**
+ * Encode pixels as a binary PPM (P6). Alpha is dropped.
+ * @throws {Error} If the surface is empty
+ */
+export function encodePpm(pixels: PixelSurface): Uint8Array {
+	const image = toPacked(pixels);
+	if (!image) {
+		throw new Error("Cannot encode an empty image");
+	}
+	const { width, height, stride, data } = image;
+
+	const header = new TextEncoder().encode(`P6\n${width} ${height}\n255\n`);
+	const ppm = new Uint8Array(header.length + width * height * 3);
+	ppm.set(header);
+	let offset = header.length;
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const i = y * stride + x * 4;
+			ppm[offset++] = data[i] ?? 0;
+			ppm[offset++] = data[i + 1] ?? 0;
+			ppm[offset++] = data[i + 2] ?? 0;
+		}
+	}
+	return ppm;
+}
+
+// ---------------------------------------------------------------------------
+// Grid formats
+// ---------------------------------------------------------------------------
+
+/**
+ * Format a color for CSS and SVG. Opaque colors use #rrggbb.
+ */
+function cssColor(color: Color): string {
+	const a = color.a ?? 255;
+	if (a < 255) {
+		return `rgba(${color.r},${color.g},${color.b},${Number((a / 255).toFixed(3))})`;
+	}
+	const hex = (v: number) => v.toString(16).padStart(2, "0");
+	return `#${hex(color.r)}${hex(color.g)}${hex(color.b)}`;
+}
+
+/**
+ * Escape text for HTML and XML content and attributes
+ */
+function escapeXml(text: string): string {
+	return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+/**
+ * Export a grid as an HTML <pre> block.
+ * Runs of cells with the same colors share one span with inline styles.
+ */
+export function gridToHtml(grid: Grid, options: HtmlExportOptions = {}): string {
+	const { fontFamily = "monospace", fontSize = "14px", lineHeight = "1" } = options;
+	const style = `font-family:${fontFamily};font-size:${fontSize};line-height:${lineHeight};margin:0`;
+
+	const lines = grid.map((row) => {
+		let html = "";
+		let run = "";
+		let runStyle: string | null = null;
+		for (const cell of row) {
+			const cellStyle = `color:${cssColor(cell.fg)};background-color:${cssColor(cell.bg)}`;
+			if (cellStyle !== runStyle) {
+				if (runStyle !== null) html += `<span style="${runStyle}">${escapeXml(run)}</span>`;
+				run = "";
+				runStyle = cellStyle;
+			}
+			run += cell.char;
+		}
+		if (runStyle !== null) html += `<span style="${runStyle}">${escapeXml(run)}</span>`;
+		return html;
+	});
+
+	return `<pre style="${escapeXml(style)}">${lines.join("\n")}</pre>`;
+}
+
+/**
+ * Block glyph shapes by character: sub-cell grid size and row-major bit pattern
+ */
+const BLOCK_SHAPES: ReadonlyMap<string, SymbolDef> = (() => {
+	const shapes = new Map<string, SymbolDef>();
+	// Earlier sets win, so shared glyphs use the coarsest (fewest rects) layout
+	for (const set of [HALF_BLOCK_SYMBOLS, QUADRANT_SYMBOLS, SEXTANT_SYMBOLS, OCTANT_SYMBOLS]) {
+		for (const symbol of set) {
+			if (!shapes.has(symbol.char)) shapes.set(symbol.char, symbol);
+		}
+	}
+	return shapes;
+})();
+
+/**
+ * Round to a short decimal for SVG coordinates
+ */
+function svgNumber(value: number): string {
+	return String(Math.round(value * 1000) / 1000);
+}
+
+/**
+ * Export a grid as an SVG document.
+ * Backgrounds are drawn as rectangles merged along each row. Block glyphs
+ * become rectangles in the cell's fg color; other characters become text.
+ */
+export function gridToSvg(grid: Grid, options: SvgExportOptions = {}): string {
+	const { cellWidth = 8, cellHeight = 16, fontFamily = "monospace", blocks = true } = options;
+	const columns = grid.reduce((max, row) => Math.max(max, row.length), 0);
+	const width = columns * cellWidth;
+	const height = grid.length * cellHeight;
+
+	const backgrounds: string[] = [];
+	const foregrounds: string[] = [];
+	const rect = (x: number, y: number, w: number, h: number, color: Color) =>
+		`<rect x="${svgNumber(x)}" y="${svgNumber(y)}" width="${svgNumber(w)}" height="${svgNumber(h)}" fill="${cssColor(color)}"/>`;
+
+	grid.forEach((row, cy) => {
+		const y = cy * cellHeight;
+
+		// Merge equal backgrounds along the row
+		let start = 0;
+		for (let cx = 1; cx <= row.length; cx++) {
+			const first = row[start];
+			const cell = row[cx];
+			if (first && (!cell || cssColor(cell.bg) !== cssColor(first.bg))) {
+				backgrounds.push(
+					rect(start * cellWidth, y, (cx - start) * cellWidth, cellHeight, first.bg),
+				);
+				start = cx;
+			}
+		}
+
+		row.forEach((cell: Cell, cx) => {
+			if (cell.char === " ") return;
+			const x = cx * cellWidth;
+			const shape = blocks ? BLOCK_SHAPES.get(cell.char) : undefined;
+			if (shape) {
+				const w = cellWidth / shape.width;
+				const h = cellHeight / shape.height;
+				for (let sy = 0; sy < shape.height; sy++) {
+					// Merge set sub-cells along each sub-row
+					let sx = 0;
+					while (sx < shape.width) {
+						if (!(shape.pattern & (1 << (sy * shape.width + sx)))) {
+							sx++;
+							continue;
+						}
+						let end = sx;
+						while (end < shape.width && shape.pattern & (1 << (sy * shape.width + end))) end++;
+						foregrounds.push(rect(x + sx * w, y + sy * h, (end - sx) * w, h, cell.fg));
+						sx = end;
+					}
+				}
+				return;
+			}
+			foregrounds.push(
+				`<text x="${svgNumber(x + cellWidth / 2)}" y="${svgNumber(y + cellHeight * 0.8)}" fill="${cssColor(cell.fg)}">${escapeXml(cell.char)}</text>`,
+			);
+		});
+	});
+
+	return [
+		`<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" shape-rendering="crispEdges">`,
+		`<g font-family="${escapeXml(fontFamily)}" font-size="${svgNumber(cellHeight * 0.875)}" text-anchor="middle">`,
+		...backgrounds,
+		...foregrounds,
+		"</g>",
+		"</svg>",
+	].join("\n");
+}
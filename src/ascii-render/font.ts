@@ -0,0 +1,516 @@
+import { readFile } from "node:fs/promises";
+import type { BitmapFont, BitmapGlyph } from "./types";
+
+/** PSF1 magic bytes */
+const PSF1_MAGIC = [0x36, 0x04];
+
+/** PSF2 magic bytes */
+const PSF2_MAGIC = [0x72, 0xb5, 0x4a, 0x86];
+
+/**
+ * Build a fixed-width font from glyph rows drawn with "#" (ink) and "."
+ * @param data Characters with the space-separated rows of their glyph, top to bottom
+ */
+function createBuiltinFont(
+	name: string,
+	width: number,
+	height: number,
+	data: readonly (readonly [string, string])[],
+): BitmapFont {
+	const glyphs = new Map<string, BitmapGlyph>();
+	for (const [char, rows] of data) {
+		const pixels = rows.replace(/ /g, "");
+		const bitmap = new Uint8Array(width * height);
+		for (let i = 0; i < bitmap.length; i++) {
+			bitmap[i] = pixels[i] === "#" ? 1 : 0;
+		}
+		glyphs.set(char, { width, height, xOffset: 0, yOffset: 0, advance: width + 1, bitmap });
+	}
+	return { name, height: height + 1, ascent: height, glyphs, defaultChar: "?" };
+}
+
+/**
+ * Built-in 3x5 font covering printable ASCII (4x6 pixels per character
+ * including spacing). Lowercase letters are drawn at a smaller x-height
+ * without descenders.
+ */
+export const FONT_3X5: BitmapFont = createBuiltinFont("3x5", 3, 5, [
+	[" ", "... ... ... ... ..."],
+	["!", ".#. .#. .#. ... .#."],
+	['"', "#.# #.# ... ... ..."],
+	["#", "#.# ### #.# ### #.#"],
+	["$", ".## ##. .#. .## ##."],
+	["%", "#.# ..# .#. #.. #.#"],
+	["&", ".#. #.# .#. #.# .##"],
+	["'", ".#. .#. ... ... ..."],
+	["(", "..# .#. .#. .#. ..#"],
+	[")", "#.. .#. .#. .#. #.."],
+	["*", "... #.# .#. #.# ..."],
+	["+", "... .#. ### .#. ..."],
+	[",", "... ... ... .#. #.."],
+	["-", "... ... ### ... ..."],
+	[".", "... ... ... ... .#."],
+	["/", "..# ..# .#. #.. #.."],
+	["0", "### #.# #.# #.# ###"],
+	["1", ".#. ##. .#. .#. ###"],
+	["2", "### ..# ### #.. ###"],
+	["3", "### ..# .## ..# ###"],
+	["4", "#.# #.# ### ..# ..#"],
+	["5", "### #.. ### ..# ###"],
+	["6", "### #.. ### #.# ###"],
+	["7", "### ..# ..# .#. .#."],
+	["8", "### #.# ### #.# ###"],
+	["9", "### #.# ### ..# ###"],
+	[":", "... .#. ... .#. ..."],
+	[";", "... .#. ... .#. #.."],
+	["<", "..# .#. #.. .#. ..#"],
+	["=", "... ### ... ### ..."],
+	[">", "#.. .#. ..# .#. #.."],
+	["?", "### ..# .## ... .#."],
+	["@", ".#. #.# ### #.. .##"],
+	["A", ".#. #.# ### #.# #.#"],
+	["B", "##. #.# ##. #.# ##."],
+	["C", ".## #.. #.. #.. .##"],
+	["D", "##. #.# #.# #.# ##."],
+	["E", "### #.. ##. #.. ###"],
+	["F", "### #.. ##. #.. #.."],
+	["G", ".## #.. #.# #.# .##"],
+	["H", "#.# #.# ### #.# #.#"],
+	["I", "### .#. .#. .#. ###"],
+	["J", "..# ..# ..# #.# .#."],
+	["K", "#.# #.# ##. #.# #.#"],
+	["L", "#.. #.. #.. #.. ###"],
+	["M", "#.# ### ### #.# #.#"],
+	["N", "##. #.# #.# #.# #.#"],
+	["O", ".#. #.# #.# #.# .#."],
+	["P", "##. #.# ##. #.. #.."],
+	["Q", ".#. #.# #.# ##. .##"],
+	["R", "##. #.# ##. #.# #.#"],
+	["S", ".## #.. .#. ..# ##."],
+	["T", "### .#. .#. .#. .#."],
+	["U", "#.# #.# #.# #.# ###"],
+	["V", "#.# #.# #.# #.# .#."],
+	["W", "#.# #.# ### ### #.#"],
+	["X", "#.# #.# .#. #.# #.#"],
+	["Y", "#.# #.# .#. .#. .#."],
+	["Z", "### ..# .#. #.. ###"],
+	["[", "##. #.. #.. #.. ##."],
+	["\\", "#.. #.. .#. ..# ..#"],
+	["]", ".## ..# ..# ..# .##"],
+	["^", ".#. #.# ... ... ..."],
+	["_", "... ... ... ... ###"],
+	["`", "#.. .#. ... ... ..."],
+	["a", "... .## #.# #.# .##"],
+	["b", "#.. ##. #.# #.# ##."],
+	["c", "... .## #.. #.. .##"],
+	["d", "..# .## #.# #.# .##"],
+	["e", "... .#. ### #.. .##"],
+	["f", "..# .#. ### .#. .#."],
+	["g", "... .## #.# .## ##."],
+	["h", "#.. ##. #.# #.# #.#"],
+	["i", ".#. ... ##. .#. ###"],
+	["j", "..# ... ..# #.# .#."],
+	["k", "#.. #.# ##. ##. #.#"],
+	["l", "##. .#. .#. .#. ###"],
+	["m", "... ### ### #.# #.#"],
+	["n", "... ##. #.# #.# #.#"],
+	["o", "... .#. #.# #.# .#."],
+	["p", "... ##. #.# ##. #.."],
+	["q", "... .## #.# .## ..#"],
+	["r", "... #.# ##. #.. #.."],
+	["s", "... .## #.. ..# ##."],
+	["t", ".#. ### .#. .#. ..#"],
+	["u", "... #.# #.# #.# .##"],
+	["v", "... #.# #.# #.# .#."],
+	["w", "... #.# #.# ### ###"],
+	["x", "... #.# .#. .#. #.#"],
+	["y", "... #.# #.# .#. #.."],
+	["z", "... ### .## #.. ###"],
+	["{", ".## .#. ##. .#. .##"],
+	["|", ".#. .#. .#. .#. .#."],
+	["}", "##. .#. .## .#. ##."],
+	["~", "... ..# ### #.. ..."],
+]);
+
+/**
+ * Built-in 5x7 font covering printable ASCII (6x8 pixels per character
+ * including spacing), in the style of classic LCD character ROMs
+ */
+export const FONT_5X7: BitmapFont = createBuiltinFont("5x7", 5, 7, [
+	[" ", "..... ..... ..... ..... ..... ..... ....."],
+	["!", "..#.. ..#.. ..#.. ..#.. ..#.. ..... ..#.."],
+	['"', ".#.#. .#.#. .#.#. ..... ..... ..... ....."],
+	["#", ".#.#. .#.#. ##### .#.#. ##### .#.#. .#.#."],
+	["$", "..#.. .#### #.#.. .###. ..#.# ####. ..#.."],
+	["%", "##... ##..# ...#. ..#.. .#... #..## ...##"],
+	["&", ".##.. #..#. #.#.. .#... #.#.# #..#. .##.#"],
+	["'", "..#.. ..#.. ..#.. ..... ..... ..... ....."],
+	["(", "...#. ..#.. .#... .#... .#... ..#.. ...#."],
+	[")", ".#... ..#.. ...#. ...#. ...#. ..#.. .#..."],
+	["*", "..... ..#.. #.#.# .###. #.#.# ..#.. ....."],
+	["+", "..... ..#.. ..#.. ##### ..#.. ..#.. ....."],
+	[",", "..... ..... ..... ..... .##.. ..#.. .#..."],
+	["-", "..... ..... ..... ##### ..... ..... ....."],
+	[".", "..... ..... ..... ..... ..... .##.. .##.."],
+	["/", "..... ....# ...#. ..#.. .#... #.... ....."],
+	["0", ".###. #...# #..## #.#.# ##..# #...# .###."],
+	["1", "..#.. .##.. ..#.. ..#.. ..#.. ..#.. .###."],
+	["2", ".###. #...# ....# ...#. ..#.. .#... #####"],
+	["3", "##### ...#. ..#.. ...#. ....# #...# .###."],
+	["4", "...#. ..##. .#.#. #..#. ##### ...#. ...#."],
+	["5", "##### #.... ####. ....# ....# #...# .###."],
+	["6", "..##. .#... #.... ####. #...# #...# .###."],
+	["7", "##### ....# ...#. ..#.. .#... .#... .#..."],
+	["8", ".###. #...# #...# .###. #...# #...# .###."],
+	["9", ".###. #...# #...# .#### ....# ...#. .##.."],
+	[":", "..... .##.. .##.. ..... .##.. .##.. ....."],
+	[";", "..... .##.. .##.. ..... .##.. ..#.. .#..."],
+	["<", "...#. ..#.. .#... #.... .#... ..#.. ...#."],
+	["=", "..... ..... ##### ..... ##### ..... ....."],
+	[">", ".#... ..#.. ...#. ....# ...#. ..#.. .#..."],
+	["?", ".###. #...# ....# ...#. ..#.. ..... ..#.."],
+	["@", ".###. #...# ....# .##.# #.#.# #.#.# .###."],
+	["A", ".###. #...# #...# #...# ##### #...# #...#"],
+	["B", "####. #...# #...# ####. #...# #...# ####."],
+	["C", ".###. #...# #.... #.... #.... #...# .###."],
+	["D", "###.. #..#. #...# #...# #...# #..#. ###.."],
+	["E", "##### #.... #.... ####. #.... #.... #####"],
+	["F", "##### #.... #.... ####. #.... #.... #...."],
+	["G", ".###. #...# #.... #.### #...# #...# .####"],
+	["H", "#...# #...# #...# ##### #...# #...# #...#"],
+	["I", ".###. ..#.. ..#.. ..#.. ..#.. ..#.. .###."],
+	["J", "..### ...#. ...#. ...#. ...#. #..#. .##.."],
+	["K", "#...# #..#. #.#.. ##... #.#.. #..#. #...#"],
+	["L", "#.... #.... #.... #.... #.... #.... #####"],
+	["M", "#...# ##.## #.#.# #.#.# #...# #...# #...#"],
+	["N", "#...# #...# ##..# #.#.# #..## #...# #...#"],
+	["O", ".###. #...# #...# #...# #...# #...# .###."],
+	["P", "####. #...# #...# ####. #.... #.... #...."],
+	["Q", ".###. #...# #...# #...# #.#.# #..#. .##.#"],
+	["R", "####. #...# #...# ####. #.#.. #..#. #...#"],
+	["S", ".#### #.... #.... .###. ....# ....# ####."],
+	["T", "##### ..#.. ..#.. ..#.. ..#.. ..#.. ..#.."],
+	["U", "#...# #...# #...# #...# #...# #...# .###."],
+	["V", "#...# #...# #...# #...# #...# .#.#. ..#.."],
+	["W", "#...# #...# #...# #.#.# #.#.# #.#.# .#.#."],
+	["X", "#...# #...# .#.#. ..#.. .#.#. #...# #...#"],
+	["Y", "#...# #...# .#.#. ..#.. ..#.. ..#.. ..#.."],
+	["Z", "##### ....# ...#. ..#.. .#... #.... #####"],
+	["[", ".###. .#... .#... .#... .#... .#... .###."],
+	["\\", "..... #.... .#... ..#.. ...#. ....# ....."],
+	["]", ".###. ...#. ...#. ...#. ...#. ...#. .###."],
+	["^", "..#.. .#.#. #...# ..... ..... ..... ....."],
+	["_", "..... ..... ..... ..... ..... ..... #####"],
+	["`", ".#... ..#.. ...#. ..... ..... ..... ....."],
+	["a", "..... ..... .###. ....# .#### #...# .####"],
+	["b", "#.... #.... #.##. ##..# #...# #...# ####."],
+	["c", "..... ..... .###. #.... #.... #...# .###."],
+	["d", "....# ....# .##.# #..## #...# #...# .####"],
+	["e", "..... ..... .###. #...# ##### #.... .###."],
+	["f", "..##. .#..# .#... ###.. .#... .#... .#..."],
+	["g", "..... .#### #...# #...# .#### ....# .###."],
+	["h", "#.... #.... #.##. ##..# #...# #...# #...#"],
+	["i", "..#.. ..... .##.. ..#.. ..#.. ..#.. .###."],
+	["j", "...#. ..... ..##. ...#. ...#. #..#. .##.."],
+	["k", "#.... #.... #..#. #.#.. ##... #.#.. #..#."],
+	["l", ".##.. ..#.. ..#.. ..#.. ..#.. ..#.. .###."],
+	["m", "..... ..... ##.#. #.#.# #.#.# #...# #...#"],
+	["n", "..... ..... #.##. ##..# #...# #...# #...#"],
+	["o", "..... ..... .###. #...# #...# #...# .###."],
+	["p", "..... ..... ####. #...# ####. #.... #...."],
+	["q", "..... ..... .##.# #..## .#### ....# ....#"],
+	["r", "..... ..... #.##. ##..# #.... #.... #...."],
+	["s", "..... ..... .###. #.... .###. ....# ####."],
+	["t", ".#... .#... ###.. .#... .#... .#..# ..##."],
+	["u", "..... ..... #...# #...# #...# #..## .##.#"],
+	["v", "..... ..... #...# #...# #...# .#.#. ..#.."],
+	["w", "..... ..... #...# #...# #.#.# #.#.# .#.#."],
+	["x", "..... ..... #...# .#.#. ..#.. .#.#. #...#"],
+	["y", "..... ..... #...# #...# .#### ....# .###."],
+	["z", "..... ..... ##### ...#. ..#.. .#... #####"],
+	["{", "...#. ..#.. ..#.. .#... ..#.. ..#.. ...#."],
+	["|", "..#.. ..#.. ..#.. ..#.. ..#.. ..#.. ..#.."],
+	["}", ".#... ..#.. ..#.. ...#. ..#.. ..#.. .#..."],
+	["~", "..... ..... .#... #.#.# ...#. ..... ....."],
+]);
+
+/**
+ * Get the glyph drawn for a character, falling back to the font's default
+ */
+export function getGlyph(font: BitmapFont, char: string): BitmapGlyph | undefined {
+	return (
+		font.glyphs.get(char) ?? (font.defaultChar ? font.glyphs.get(font.defaultChar) : undefined)
+	);
+}
+
+/**
+ * Width of one line of text in pixels, before scaling
+ */
+export function measureLine(font: BitmapFont, line: string): number {
+	let width = 0;
+	for (const char of line) {
+		width += getGlyph(font, char)?.advance ?? 0;
+	}
+	return width;
+}
+
+/**
+ * Size of a (possibly multi-line) text block in pixels, before scaling.
+ * The last glyph's trailing spacing is included in the width.
+ */
+export function measureText(
+	font: BitmapFont,
+	text: string,
+	lineSpacing = 0,
+): { width: number; height: number } {
+	const lines = text.split("\n");
+	return {
+		width: lines.reduce((max, line) => Math.max(max, measureLine(font, line)), 0),
+		height: lines.length * font.height + (lines.length - 1) * lineSpacing,
+	};
+}
+
+// ---------------------------------------------------------------------------
+// Font files
+// ---------------------------------------------------------------------------
+
+/**
+ * Decode a BDF or PSF (version 1 or 2) font.
+ * The format is detected from the file signature.
+ * @throws {Error} If the format is unknown or the data is malformed
+ */
+export function decodeFont(data: Uint8Array): BitmapFont {
+	if (PSF1_MAGIC.every((byte, i) => data[i] === byte)) {
+		return decodePsf1(data);
+	}
+	if (PSF2_MAGIC.every((byte, i) => data[i] === byte)) {
+		return decodePsf2(data);
+	}
+	const text = new TextDecoder("latin1").decode(data);
+	if (text.startsWith("STARTFONT")) {
+		return parseBdf(text);
+	}
+	throw new Error("Unknown font format");
+}
+
+/**
+ * Read and decode a BDF or PSF font file
+ * @throws {Error} If the file cannot be read or decoded
+ */
+export async function loadFont(path: string): Promise<BitmapFont> {
+	const data = await readFile(path);
+	return decodeFont(new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
+}
+
+/**
+ * Parse a BDF (Glyph Bitmap Distribution Format) font.
+ * Glyphs are keyed by their ENCODING as a Unicode code point.
+ * @throws {Error} If a glyph's bitmap is malformed
+ */
+function parseBdf(text: string): BitmapFont {
+	const lines = text.split(/\r?\n/);
+	let name = "bdf";
+	let boundingBox = [0, 0, 0, 0];
+	let ascent: number | null = null;
+	let descent: number | null = null;
+	let defaultCode: number | null = null;
+	const glyphs = new Map<string, BitmapGlyph>();
+
+	const numbers = (line: string) => line.trim().split(/\s+/).slice(1).map(Number);
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i]?.trim() ?? "";
+		const keyword = line.split(/\s+/, 1)[0];
+		if (keyword === "FONT") {
+			name = line.slice(5).trim();
+		} else if (keyword === "FONTBOUNDINGBOX") {
+			boundingBox = numbers(line);
+		} else if (keyword === "FONT_ASCENT") {
+			ascent = numbers(line)[0] ?? null;
+		} else if (keyword === "FONT_DESCENT") {
+			descent = numbers(line)[0] ?? null;
+		} else if (keyword === "DEFAULT_CHAR") {
+			defaultCode = numbers(line)[0] ?? null;
+		} else if (keyword === "STARTCHAR") {
+			let code = -1;
+			let advance = boundingBox[0] ?? 0;
+			let bbx = boundingBox;
+			let rows: string[] | null = null;
+			for (i++; i < lines.length; i++) {
+				const glyphLine = lines[i]?.trim() ?? "";
+				if (glyphLine === "ENDCHAR") break;
+				if (rows) {
+					rows.push(glyphLine);
+				} else if (glyphLine.startsWith("ENCODING")) {
+					code = numbers(glyphLine)[0] ?? -1;
+				} else if (glyphLine.startsWith("DWIDTH")) {
+					advance = numbers(glyphLine)[0] ?? advance;
+				} else if (glyphLine.startsWith("BBX")) {
+					bbx = numbers(glyphLine);
+				} else if (glyphLine === "BITMAP") {
+					rows = [];
+				}
+			}
+			if (code < 0 || !rows) continue;
+
+			const [width = 0, height = 0, xOffset = 0, yOffset = 0] = bbx;
+			if (rows.length < height) {
+				throw new Error(`BDF glyph ${code} has ${rows.length} of ${height} bitmap rows`);
+			}
+			const bitmap = new Uint8Array(width * height);
+			for (let y = 0; y < height; y++) {
+				const row = rows[y] ?? "";
+				for (let x = 0; x < width; x++) {
+					const nibble = Number.parseInt(row[x >> 2] ?? "0", 16);
+					bitmap[y * width + x] = (nibble >> (3 - (x & 3))) & 1;
+				}
+			}
+			// yOffset is measured from the baseline up to the bitmap's bottom edge
+			glyphs.set(String.fromCodePoint(code), {
+				width,
+				height,
+				xOffset,
+				yOffset: -(yOffset + height),
+				advance,
+				bitmap,
+			});
+		}
+	}
+
+	const fontAscent = ascent ?? (boundingBox[1] ?? 0) + (boundingBox[3] ?? 0);
+	const fontDescent = descent ?? -(boundingBox[3] ?? 0);
+	// Glyph offsets were stored relative to the baseline; make them line-relative
+	for (const glyph of glyphs.values()) {
+		glyph.yOffset += fontAscent;
+	}
+	const font: BitmapFont = { name, height: fontAscent + fontDescent, ascent: fontAscent, glyphs };
+	if (defaultCode !== null && glyphs.has(String.fromCodePoint(defaultCode))) {
+		font.defaultChar = String.fromCodePoint(defaultCode);
+	}
+	return font;
+}
+
+/**
+ * Read glyph bitmaps stored as byte-aligned rows, as in PSF files
+ */
+function readPsfGlyphs(
+	data: Uint8Array,
+	offset: number,
+	count: number,
+	width: number,
+	height: number,
+): BitmapGlyph[] {
+	const rowBytes = Math.ceil(width / 8);
+	const glyphBytes = rowBytes * height;
+	if (offset + count * glyphBytes > data.length) {
+		throw new Error("PSF font data is truncated");
+	}
+	return Array.from({ length: count }, (_, n) => {
+		const bitmap = new Uint8Array(width * height);
+		const start = offset + n * glyphBytes;
+		for (let y = 0; y < height; y++) {
+			for (let x = 0; x < width; x++) {
+				const byte = data[start + y * rowBytes + (x >> 3)] ?? 0;
+				bitmap[y * width + x] = (byte >> (7 - (x & 7))) & 1;
+			}
+		}
+		// PSF glyphs fill the cell; spacing is part of the bitmap
+		return { width, height, xOffset: 0, yOffset: 0, advance: width, bitmap };
+	});
+}
+
+/**
+ * Build a PSF font, mapping glyphs to characters through the Unicode table
+ * if present, or by glyph index otherwise
+ */
+function createPsfFont(
+	name: string,
+	height: number,
+	glyphs: BitmapGlyph[],
+	table: string[][] | null,
+): BitmapFont {
+	const map = new Map<string, BitmapGlyph>();
+	glyphs.forEach((glyph, index) => {
+		for (const char of table ? (table[index] ?? []) : [String.fromCharCode(index)]) {
+			if (!map.has(char)) map.set(char, glyph);
+		}
+	});
+	const font: BitmapFont = { name, height, ascent: height, glyphs: map };
+	if (map.has("?")) font.defaultChar = "?";
+	return font;
+}
+
+/**
+ * Decode a PSF1 console font (8 pixels wide, 256 or 512 glyphs)
+ */
+function decodePsf1(data: Uint8Array): BitmapFont {
+	const mode = data[2] ?? 0;
+	const height = data[3] ?? 0;
+	const count = mode & 0x01 ? 512 : 256;
+	const glyphs = readPsfGlyphs(data, 4, count, 8, height);
+
+	let table: string[][] | null = null;
+	if (mode & 0x06) {
+		// One run of UCS-2 values per glyph, ended by 0xFFFF; 0xFFFE starts
+		// combining sequences, which are skipped
+		table = [];
+		let offset = 4 + count * height;
+		for (let n = 0; n < count; n++) {
+			const chars: string[] = [];
+			let inSequence = false;
+			while (offset + 1 < data.length) {
+				const value = (data[offset] ?? 0) | ((data[offset + 1] ?? 0) << 8);
+				offset += 2;
+				if (value === 0xffff) break;
+				if (value === 0xfffe) inSequence = true;
+				else if (!inSequence) chars.push(String.fromCharCode(value));
+			}
+			table.push(chars);
+		}
+	}
+	return createPsfFont("psf1", height, glyphs, table);
+}
+
+/**
+ * Decode a PSF2 font (any glyph size)
+ * @throws {Error} If the header is malformed
+ */
+function decodePsf2(data: Uint8Array): BitmapFont {
+	if (data.length < 32) {
+		throw new Error("PSF2 header is truncated");
+	}
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+	const headerSize = view.getUint32(8, true);
+	const flags = view.getUint32(12, true);
+	const count = view.getUint32(16, true);
+	const glyphSize = view.getUint32(20, true);
+	const height = view.getUint32(24, true);
+	const width = view.getUint32(28, true);
+	if (glyphSize !== Math.ceil(width / 8) * height) {
+		throw new Error(`PSF2 glyph size ${glyphSize} does not match ${width}x${height}`);
+	}
+	const glyphs = readPsfGlyphs(data, headerSize, count, width, height);
+
+	let table: string[][] | null = null;
+	if (flags & 0x01) {
+		// One run of UTF-8 characters per glyph, ended by 0xFF; 0xFE starts
+		// combining sequences, which are skipped
+		table = [];
+		const decoder = new TextDecoder();
+		let offset = headerSize + count * glyphSize;
+		for (let n = 0; n < count; n++) {
+			let end = offset;
+			while (end < data.length && data[end] !== 0xff) end++;
+			let single = end;
+			for (let i = offset; i < end; i++) {
+				if (data[i] === 0xfe) {
+					single = i;
+					break;
+				}
+			}
+			table.push(Array.from(decoder.decode(data.subarray(offset, single))));
+			offset = end + 1;
+		}
+	}
+	return createPsfFont("psf2", height, glyphs, table);
+}
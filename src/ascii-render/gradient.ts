@@ -0,0 +1,108 @@
+import { hex, interpolateColor } from "./colors";
+import type { Color, Gradient, GradientStop } from "./types";
+import { Colormap, ColorSpace } from "./types";
+
+/**
+ * Create a gradient through colors spaced evenly from offset 0 to 1
+ * @param space Color space to interpolate in (default: SRGB)
+ * @throws {Error} If no colors are given
+ */
+export function createGradient(colors: readonly Color[], space = ColorSpace.SRGB): Gradient {
+	if (colors.length === 0) {
+		throw new Error("A gradient needs at least one color");
+	}
+	const last = Math.max(1, colors.length - 1);
+	return {
+		stops: colors.map((color, i) => ({ offset: i / last, color })),
+		space,
+	};
+}
+
+/**
+ * Color of a gradient at position t. Positions before the first stop take
+ * its color, positions after the last stop the last one's.
+ * @throws {Error} If the gradient has no stops
+ */
+export function sampleGradient(gradient: Gradient, t: number): Color {
+	const { stops } = gradient;
+	if (stops.length === 0) {
+		throw new Error("A gradient needs at least one stop");
+	}
+
+	// Last stop at or before t; at a hard edge this is the later stop
+	let i = 0;
+	while (i < stops.length - 1 && (stops[i + 1]?.offset ?? 0) <= t) i++;
+	const from = stops[i] as GradientStop;
+	const to = stops[i + 1] ?? from;
+	const span = to.offset - from.offset;
+	return interpolateColor(
+		from.color,
+		to.color,
+		span > 0 ? (t - from.offset) / span : 0,
+		gradient.space,
+	);
+}
+
+/**
+ * Built-in colormaps, sampled at evenly spaced stops and interpolated in
+ * sRGB like their lookup tables. Viridis and magma come from matplotlib,
+ * turbo from its polynomial approximation.
+ */
+export const COLORMAPS: Readonly<Record<Colormap, Gradient>> = {
+	[Colormap.VIRIDIS]: createGradient(
+		[
+			"#440154",
+			"#482878",
+			"#3e4989",
+			"#31688e",
+			"#26828e",
+			"#1f9e89",
+			"#35b779",
+			"#6ece58",
+			"#fde725",
+		].map(hex),
+	),
+	[Colormap.MAGMA]: createGradient(
+		[
+			"#000004",
+			"#1c1044",
+			"#4f127b",
+			"#812581",
+			"#b5367a",
+			"#e55064",
+			"#fb8761",
+			"#fec287",
+			"#fcfdbf",
+		].map(hex),
+	),
+	[Colormap.TURBO]: createGradient(
+		[
+			"#23171b",
+			"#493eae",
+			"#4569ee",
+			"#3295f7",
+			"#26bce1",
+			"#29dcbc",
+			"#3ff393",
+			"#65fd6e",
+			"#95fb51",
+			"#c5ec3c",
+			"#ecd12e",
+			"#ffad24",
+			"#ff821d",
+			"#f05616",
+			"#cb2f0d",
+			"#a31302",
+			"#900c00",
+		].map(hex),
+	),
+	[Colormap.GRAYSCALE]: createGradient(["#000000", "#ffffff"].map(hex)),
+};
+
+/**
+ * Color of a built-in colormap at position t (0-1), e.g. for heatmaps or
+ * coloring depth
+ */
+export function sampleColormap(colormap: Colormap, t: number): Color {
+	return sampleGradient(COLORMAPS[colormap], t);
+}
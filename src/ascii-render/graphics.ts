@@ -0,0 +1,347 @@
+import { getSurfaceSize, isRgbaBuffer, toRgbaBuffer } from "./buffer";
+import { encodePng } from "./export";
+import type { PixelSurface, RgbaBuffer } from "./types";
+import { KittyFormat } from "./types";
+
+/**
+ * Options for Sixel output
+ */
+export interface SixelOptions {
+	/** Maximum palette size, 2-256 (default: 256) */
+	maxColors?: number;
+	/**
+	 * Alpha below which pixels are left unpainted, so the terminal background
+	 * shows through (default: 128)
+	 */
+	alphaThreshold?: number;
+}
+
+/**
+ * Options for Kitty graphics output
+ */
+export interface KittyOptions {
+	/** Payload format (default: PNG) */
+	format?: KittyFormat;
+	/** Image id for reusing the upload with kittyPlace() / kittyDelete() */
+	imageId?: number;
+	/** Placement id, to move or replace one placement of the image */
+	placementId?: number;
+	/** Number of terminal columns to scale the image to */
+	columns?: number;
+	/** Number of terminal rows to scale the image to */
+	rows?: number;
+	/** Display the image at the cursor after transmitting it (default: true) */
+	display?: boolean;
+	/** Suppress terminal responses (default: true) */
+	quiet?: boolean;
+}
+
+/** Device control string introducer for Sixel, with transparent background (P2 = 1) */
+const SIXEL_START = "\x1bP0;1;0q";
+
+/** String terminator ending Sixel and Kitty sequences */
+const ST = "\x1b\\";
+
+/** Maximum base64 characters per Kitty graphics chunk */
+const KITTY_CHUNK_SIZE = 4096;
+
+/**
+ * Get a packed view of any surface
+ * @throws {Error} If the surface is empty
+ */
+function toPackedImage(pixels: PixelSurface): RgbaBuffer {
+	const { width, height } = getSurfaceSize(pixels);
+	if (width === 0 || height === 0) {
+		throw new Error("Cannot encode an empty image");
+	}
+	return isRgbaBuffer(pixels) ? pixels : toRgbaBuffer(pixels);
+}
+
+// ---------------------------------------------------------------------------
+// Palette quantization
+// ---------------------------------------------------------------------------
+
+/**
+ * A set of distinct colors (0xRRGGBB) with pixel counts, split by median cut
+ */
+interface ColorBox {
+	colors: number[];
+	counts: number[];
+}
+
+/**
+ * Channel (0 = red, 1 = green, 2 = blue) of a 0xRRGGBB color
+ */
+function channel(color: number, c: number): number {
+	return (color >> (16 - c * 8)) & 0xff;
+}
+
+/**
+ * Widest channel of a box and its range
+ */
+function widestChannel(box: ColorBox): { channel: number; range: number } {
+	let best = { channel: 0, range: -1 };
+	for (let c = 0; c < 3; c++) {
+		let min = 255;
+		let max = 0;
+		for (const color of box.colors) {
+			const v = channel(color, c);
+			if (v < min) min = v;
+			if (v > max) max = v;
+		}
+		if (max - min > best.range) best = { channel: c, range: max - min };
+	}
+	return best;
+}
+
+/**
+ * Build a palette of at most `maxColors` colors with median cut.
+ * Images with few enough distinct colors get an exact palette.
+ */
+function buildPalette(histogram: Map<number, number>, maxColors: number): number[] {
+	if (histogram.size <= maxColors) {
+		return [...histogram.keys()];
+	}
+
+	const boxes: ColorBox[] = [{ colors: [...histogram.keys()], counts: [...histogram.values()] }];
+	while (boxes.length < maxColors) {
+		// Split the box with the widest channel range
+		let index = -1;
+		let split = { channel: 0, range: 0 };
+		boxes.forEach((box, i) => {
+			if (box.colors.length < 2) return;
+			const widest = widestChannel(box);
+			if (widest.range > split.range) {
+				index = i;
+				split = widest;
+			}
+		});
+		const box = boxes[index];
+		if (!box) break;
+
+		const order = box.colors
+			.map((color, i) => ({ color, count: box.counts[i] ?? 0 }))
+			.sort((a, b) => channel(a.color, split.channel) - channel(b.color, split.channel));
+		const total = order.reduce((sum, entry) => sum + entry.count, 0);
+		// Split at the pixel-weighted median, keeping both halves non-empty
+		let seen = 0;
+		let cut = 1;
+		for (; cut < order.length - 1; cut++) {
+			seen += order[cut - 1]?.count ?? 0;
+			if (seen >= total / 2) break;
+		}
+		const lower = order.slice(0, cut);
+		const upper = order.slice(cut);
+		boxes.splice(
+			index,
+			1,
+			{ colors: lower.map((e) => e.color), counts: lower.map((e) => e.count) },
+			{ colors: upper.map((e) => e.color), counts: upper.map((e) => e.count) },
+		);
+	}
+
+	// Each palette entry is the pixel-weighted mean of its box
+	return boxes.map((box) => {
+		const sum = [0, 0, 0];
+		let total = 0;
+		box.colors.forEach((color, i) => {
+			const count = box.counts[i] ?? 0;
+			for (let c = 0; c < 3; c++) sum[c] = (sum[c] ?? 0) + channel(color, c) * count;
+			total += count;
+		});
+		const [r = 0, g = 0, b = 0] = sum.map((v) => Math.round(v / total));
+		return (r << 16) | (g << 8) | b;
+	});
+}
+
+/**
+ * Index of the palette color closest to `color` (squared RGB distance)
+ */
+function nearestPaletteIndex(palette: number[], color: number): number {
+	let best = 0;
+	let bestDistance = Infinity;
+	palette.forEach((entry, i) => {
+		let distance = 0;
+		for (let c = 0; c < 3; c++) {
+			distance += (channel(entry, c) - channel(color, c)) ** 2;
+		}
+		if (distance < bestDistance) {
+			bestDistance = distance;
+			best = i;
+		}
+	});
+	return best;
+}
+
+// ---------------------------------------------------------------------------
+// Sixel
+// ---------------------------------------------------------------------------
+
+/**
+ * One run of identical sixel characters, run-length encoded when longer than 3
+ */
+function sixelRun(char: string, count: number): string {
+	return count > 3 ? `!${count}${char}` : char.repeat(count);
+}
+
+/**
+ * Encode pixels as a Sixel image.
+ *
+ * Colors are quantized to a palette with median cut (exact when the image
+ * has few enough colors). Palette channels are sent as percentages, the
+ * precision Sixel supports. Pixels below the alpha threshold are not
+ * painted. The image is drawn at the cursor position.
+ * @throws {Error} If the surface is empty or maxColors is out of range
+ */
+export function encodeSixel(pixels: PixelSurface, options: SixelOptions = {}): string {
+	const { maxColors = 256, alphaThreshold = 128 } = options;
+	if (!(maxColors >= 2 && maxColors <= 256)) {
+		throw new Error(`Sixel palette size must be between 2 and 256: ${maxColors}`);
+	}
+	const image = toPackedImage(pixels);
+	const { width, height, stride, data } = image;
+
+	// Histogram of opaque colors
+	const rgbs = new Int32Array(width * height).fill(-1);
+	const histogram = new Map<number, number>();
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const i = y * stride + x * 4;
+			if ((data[i + 3] ?? 255) < alphaThreshold) continue;
+			const color = ((data[i] ?? 0) << 16) | ((data[i + 1] ?? 0) << 8) | (data[i + 2] ?? 0);
+			rgbs[y * width + x] = color;
+			histogram.set(color, (histogram.get(color) ?? 0) + 1);
+		}
+	}
+
+	const palette = buildPalette(histogram, maxColors);
+	const lookup = new Map<number, number>();
+	for (const color of histogram.keys()) {
+		lookup.set(color, nearestPaletteIndex(palette, color));
+	}
+
+	const percent = (v: number) => Math.round((v * 100) / 255);
+	let output = `${SIXEL_START}"1;1;${width};${height}`;
+	palette.forEach((color, i) => {
+		output += `#${i};2;${percent(channel(color, 0))};${percent(channel(color, 1))};${percent(channel(color, 2))}`;
+	});
+
+	const bits = new Map<number, Uint8Array>();
+	for (let top = 0; top < height; top += 6) {
+		bits.clear();
+		for (let dy = 0; dy < 6 && top + dy < height; dy++) {
+			for (let x = 0; x < width; x++) {
+				const color = rgbs[(top + dy) * width + x] ?? -1;
+				if (color < 0) continue;
+				const index = lookup.get(color) ?? 0;
+				let row = bits.get(index);
+				if (!row) {
+					row = new Uint8Array(width);
+					bits.set(index, row);
+				}
+				row[x] = (row[x] ?? 0) | (1 << dy);
+			}
+		}
+
+		// One pass per color; "$" returns to the start of the band
+		const indices = [...bits.keys()].sort((a, b) => a - b);
+		indices.forEach((index, n) => {
+			const row = bits.get(index) ?? new Uint8Array(0);
+			let end = row.length;
+			while (end > 0 && row[end - 1] === 0) end--;
+
+			output += `${n > 0 ? "$" : ""}#${index}`;
+			let run = 0;
+			let runChar = "";
+			for (let x = 0; x < end; x++) {
+				const char = String.fromCharCode(63 + (row[x] ?? 0));
+				if (char === runChar) {
+					run++;
+				} else {
+					output += sixelRun(runChar, run);
+					runChar = char;
+					run = 1;
+				}
+			}
+			output += sixelRun(runChar, run);
+		});
+
+		if (top + 6 < height) output += "-";
+	}
+
+	return output + ST;
+}
+
+// ---------------------------------------------------------------------------
+// Kitty graphics protocol
+// ---------------------------------------------------------------------------
+
+/**
+ * Build one Kitty graphics escape sequence
+ */
+function kittyCommand(keys: string, payload = ""): string {
+	return `\x1b_G${keys}${payload ? `;${payload}` : ""}${ST}`;
+}
+
+/**
+ * Encode pixels as Kitty graphics protocol commands.
+ *
+ * The image is transmitted directly (base64 in the escape sequence), split
+ * into chunks of at most 4096 characters. With an image id the upload can be
+ * shown again with kittyPlace() without resending the pixels.
+ * @throws {Error} If the surface is empty
+ */
+export function encodeKitty(pixels: PixelSurface, options: KittyOptions = {}): string {
+	const { format = KittyFormat.PNG, display = true, quiet = true } = options;
+	const image = toPackedImage(pixels);
+	const { width, height, stride, data } = image;
+
+	let payload: Uint8Array;
+	if (format === KittyFormat.PNG) {
+		payload = encodePng(image);
+	} else {
+		payload = new Uint8Array(width * height * 4);
+		for (let y = 0; y < height; y++) {
+			payload.set(data.subarray(y * stride, y * stride + width * 4), y * width * 4);
+		}
+	}
+	const base64 = Buffer.from(payload).toString("base64");
+
+	const keys = [`a=${display ? "T" : "t"}`, `f=${format}`, `s=${width}`, `v=${height}`];
+	if (options.imageId !== undefined) keys.push(`i=${options.imageId}`);
+	if (options.placementId !== undefined) keys.push(`p=${options.placementId}`);
+	if (options.columns !== undefined) keys.push(`c=${options.columns}`);
+	if (options.rows !== undefined) keys.push(`r=${options.rows}`);
+	if (quiet) keys.push("q=2");
+
+	let output = "";
+	for (let offset = 0; offset < base64.length; offset += KITTY_CHUNK_SIZE) {
+		const chunk = base64.slice(offset, offset + KITTY_CHUNK_SIZE);
+		const more = offset + KITTY_CHUNK_SIZE < base64.length ? 1 : 0;
+		// Only the first chunk carries the control keys
+		output += kittyCommand(offset === 0 ? `${keys.join(",")},m=${more}` : `m=${more}`, chunk);
+	}
+	return output;
+}
+
+/**
+ * Display a previously transmitted Kitty image at the cursor
+ */
+export function kittyPlace(
+	imageId: number,
+	options: Pick<KittyOptions, "placementId" | "columns" | "rows" | "quiet"> = {},
+): string {
+	const keys = ["a=p", `i=${imageId}`];
+	if (options.placementId !== undefined) keys.push(`p=${options.placementId}`);
+	if (options.columns !== undefined) keys.push(`c=${options.columns}`);
+	if (options.rows !== undefined) keys.push(`r=${options.rows}`);
+	if (options.quiet ?? true) keys.push("q=2");
+	return kittyCommand(keys.join(","));
+}
+
+/**
+ * Delete a Kitty image and free its data, or every image when no id is given
+ */
+export function kittyDelete(imageId?: number): string {
+	return kittyCommand(imageId === undefined ? "a=d,d=A,q=2" : `a=d,d=I,i=${imageId},q=2`);
+}
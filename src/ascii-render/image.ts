@@ -0,0 +1,734 @@
+import { readFile } from "node:fs/promises";
+import { inflateSync } from "node:zlib";
+import { createRgbaBuffer, toPixelArray } from "./buffer";
+import type { PixelBuffer, PixelSurface, RgbaBuffer } from "./types";
+import { BufferFormat } from "./types";
+
+/** PNG file signature */
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/**
+ * Largest image, in pixels, that is decoded (e.g. 8192x4096). Headers are
+ * checked against it before anything is allocated, so a few bytes of input
+ * cannot ask for gigabytes.
+ */
+export const MAX_IMAGE_PIXELS = 2 ** 25;
+
+/**
+ * Decode a PNG, PPM/PGM/PBM/PAM or uncompressed BMP image.
+ * The format is detected from the file signature.
+ * @throws {Error} If the format is unknown, unsupported or the data is
+ *   malformed, or the image has more than MAX_IMAGE_PIXELS pixels
+ */
+export function decodeImage(data: Uint8Array): PixelBuffer;
+export function decodeImage(data: Uint8Array, format: BufferFormat.RGBA): RgbaBuffer;
+export function decodeImage(data: Uint8Array, format?: BufferFormat): PixelSurface;
+export function decodeImage(
+	data: Uint8Array,
+	format: BufferFormat = BufferFormat.ARRAY,
+): PixelSurface {
+	const image = decodeToRgba(data);
+	return format === BufferFormat.RGBA ? image : toPixelArray(image);
+}
+
+/**
+ * Read and decode an image file
+ * @throws {Error} If the file cannot be read or decoded
+ */
+export async function loadImage(path: string): Promise<PixelBuffer>;
+export async function loadImage(path: string, format: BufferFormat.RGBA): Promise<RgbaBuffer>;
+export async function loadImage(path: string, format?: BufferFormat): Promise<PixelSurface>;
+export async function loadImage(
+	path: string,
+	format: BufferFormat = BufferFormat.ARRAY,
+): Promise<PixelSurface> {
+	const data = await readFile(path);
+	return decodeImage(new Uint8Array(data.buffer, data.byteOffset, data.byteLength), format);
+}
+
+/**
+ * Dispatch on the file signature
+ */
+function decodeToRgba(data: Uint8Array): RgbaBuffer {
+	if (PNG_SIGNATURE.every((byte, i) => data[i] === byte)) {
+		return decodePng(data);
+	}
+	if (data[0] === 0x50 && (data[1] ?? 0) >= 0x31 && (data[1] ?? 0) <= 0x37) {
+		return decodePnm(data);
+	}
+	if (data[0] === 0x42 && data[1] === 0x4d) {
+		return decodeBmp(data);
+	}
+	throw new Error("Unknown image format");
+}
+
+/**
+ * Reject images too large to decode
+ * @throws {Error} If the image has more than MAX_IMAGE_PIXELS pixels
+ */
+function checkImageSize(format: string, width: number, height: number): void {
+	if (width * height > MAX_IMAGE_PIXELS) {
+		throw new Error(
+			`${format} image is too large: ${width}x${height} exceeds ${MAX_IMAGE_PIXELS} pixels`,
+		);
+	}
+}
+
+/**
+ * Write one pixel into a freshly decoded buffer (always in bounds)
+ */
+function put(
+	image: RgbaBuffer,
+	x: number,
+	y: number,
+	r: number,
+	g: number,
+	b: number,
+	a: number,
+): void {
+	const i = y * image.stride + x * 4;
+	image.data[i] = r;
+	image.data[i + 1] = g;
+	image.data[i + 2] = b;
+	image.data[i + 3] = a;
+}
+
+/**
+ * Scale a sample from [0, maxValue] to [0, 255]
+ */
+function scaleSample(value: number, maxValue: number): number {
+	return maxValue === 255 ? value : Math.round((value * 255) / maxValue);
+}
+
+// ---------------------------------------------------------------------------
+// PNG
+// ---------------------------------------------------------------------------
+
+/** PNG color types */
+const PNG_GRAY = 0;
+const PNG_RGB = 2;
+const PNG_PALETTE = 3;
+const PNG_GRAY_ALPHA = 4;
+const PNG_RGBA = 6;
+
+/** Samples per pixel for each PNG color type */
+const PNG_CHANNELS: Record<number, number> = {
+	[PNG_GRAY]: 1,
+	[PNG_RGB]: 3,
+	[PNG_PALETTE]: 1,
+	[PNG_GRAY_ALPHA]: 2,
+	[PNG_RGBA]: 4,
+};
+
+/** Adam7 passes as [startX, startY, stepX, stepY] */
+const ADAM7_PASSES = [
+	[0, 0, 8, 8],
+	[4, 0, 8, 8],
+	[0, 4, 4, 8],
+	[2, 0, 4, 4],
+	[0, 2, 2, 4],
+	[1, 0, 2, 2],
+	[0, 1, 1, 2],
+] as const;
+
+/**
+ * Header and ancillary data needed to turn PNG scanlines into pixels
+ */
+interface PngInfo {
+	width: number;
+	height: number;
+	bitDepth: number;
+	colorType: number;
+	channels: number;
+	/** RGBA palette entries for color type 3 */
+	palette: Uint8Array | null;
+	/** Transparent sample values (unscaled) for color types 0 and 2 */
+	transparent: number[] | null;
+}
+
+/**
+ * Decode a PNG image. Chunk CRCs are not verified.
+ */
+function decodePng(data: Uint8Array): RgbaBuffer {
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+	let info: PngInfo | null = null;
+	let interlace = 0;
+	const idat: Uint8Array[] = [];
+	let palette: Uint8Array | null = null;
+	let trns: Uint8Array | null = null;
+
+	let offset = PNG_SIGNATURE.length;
+	while (offset + 8 <= data.length) {
+		const length = view.getUint32(offset);
+		const type = String.fromCharCode(...data.subarray(offset + 4, offset + 8));
+		const body = data.subarray(offset + 8, offset + 8 + length);
+		if (body.length !== length) {
+			throw new Error(`Truncated PNG chunk: ${type}`);
+		}
+		offset += 12 + length;
+
+		if (type === "IHDR") {
+			const bitDepth = body[8] ?? 0;
+			const colorType = body[9] ?? 0;
+			const channels = PNG_CHANNELS[colorType];
+			if (channels === undefined) {
+				throw new Error(`Unsupported PNG color type: ${colorType}`);
+			}
+			const header = new DataView(body.buffer, body.byteOffset, body.byteLength);
+			info = {
+				width: header.getUint32(0),
+				height: header.getUint32(4),
+				bitDepth,
+				colorType,
+				channels,
+				palette: null,
+				transparent: null,
+			};
+			interlace = body[12] ?? 0;
+		} else if (type === "PLTE") {
+			palette = body;
+		} else if (type === "tRNS") {
+			trns = body;
+		} else if (type === "IDAT") {
+			idat.push(body);
+		} else if (type === "IEND") {
+			break;
+		}
+	}
+
+	if (!info) {
+		throw new Error("PNG is missing its IHDR chunk");
+	}
+	checkImageSize("PNG", info.width, info.height);
+	if (info.colorType === PNG_PALETTE) {
+		if (!palette) {
+			throw new Error("Paletted PNG is missing its PLTE chunk");
+		}
+		const entries = Math.floor(palette.length / 3);
+		const rgba = new Uint8Array(256 * 4);
+		for (let i = 0; i < entries; i++) {
+			rgba[i * 4] = palette[i * 3] ?? 0;
+			rgba[i * 4 + 1] = palette[i * 3 + 1] ?? 0;
+			rgba[i * 4 + 2] = palette[i * 3 + 2] ?? 0;
+			rgba[i * 4 + 3] = trns?.[i] ?? 255;
+		}
+		info.palette = rgba;
+	} else if (trns && (info.colorType === PNG_GRAY || info.colorType === PNG_RGB)) {
+		const samples = info.colorType === PNG_GRAY ? 1 : 3;
+		info.transparent = Array.from(
+			{ length: samples },
+			(_, i) => ((trns[i * 2] ?? 0) << 8) | (trns[i * 2 + 1] ?? 0),
+		);
+	}
+
+	const compressed = new Uint8Array(idat.reduce((sum, chunk) => sum + chunk.length, 0));
+	let position = 0;
+	for (const chunk of idat) {
+		compressed.set(chunk, position);
+		position += chunk.length;
+	}
+	const raw = new Uint8Array(inflateSync(compressed));
+
+	const image = createRgbaBuffer(info.width, info.height);
+	if (interlace === 0) {
+		readPngPass(raw, 0, info, image, 0, 0, 1, 1);
+	} else {
+		let consumed = 0;
+		for (const [startX, startY, stepX, stepY] of ADAM7_PASSES) {
+			consumed = readPngPass(raw, consumed, info, image, startX, startY, stepX, stepY);
+		}
+	}
+	return image;
+}
+
+/**
+ * Unfilter one (sub-)image of scanlines and write its pixels
+ * @returns Offset of the first byte after this pass
+ */
+function readPngPass(
+	raw: Uint8Array,
+	offset: number,
+	info: PngInfo,
+	image: RgbaBuffer,
+	startX: number,
+	startY: number,
+	stepX: number,
+	stepY: number,
+): number {
+	const passWidth = Math.ceil((info.width - startX) / stepX);
+	const passHeight = Math.ceil((info.height - startY) / stepY);
+	if (passWidth <= 0 || passHeight <= 0) return offset;
+
+	const bitsPerPixel = info.channels * info.bitDepth;
+	const rowBytes = Math.ceil((passWidth * bitsPerPixel) / 8);
+	const bpp = Math.max(1, bitsPerPixel >> 3);
+	let previous = new Uint8Array(rowBytes);
+	let current = new Uint8Array(rowBytes);
+
+	for (let py = 0; py < passHeight; py++) {
+		if (offset + 1 + rowBytes > raw.length) {
+			throw new Error("Truncated PNG image data");
+		}
+		const filter = raw[offset] ?? 0;
+		current.set(raw.subarray(offset + 1, offset + 1 + rowBytes));
+		offset += 1 + rowBytes;
+		unfilterScanline(filter, current, previous, bpp);
+
+		const y = startY + py * stepY;
+		for (let px = 0; px < passWidth; px++) {
+			writePngPixel(info, current, px, image, startX + px * stepX, y);
+		}
+		[previous, current] = [current, previous];
+	}
+	return offset;
+}
+
+/**
+ * Reverse a PNG scanline filter in place
+ */
+function unfilterScanline(
+	filter: number,
+	line: Uint8Array,
+	previous: Uint8Array,
+	bpp: number,
+): void {
+	for (let i = 0; i < line.length; i++) {
+		const left = i >= bpp ? (line[i - bpp] ?? 0) : 0;
+		const up = previous[i] ?? 0;
+		const upLeft = i >= bpp ? (previous[i - bpp] ?? 0) : 0;
+		let predictor: number;
+		switch (filter) {
+			case 0:
+				predictor = 0;
+				break;
+			case 1:
+				predictor = left;
+				break;
+			case 2:
+				predictor = up;
+				break;
+			case 3:
+				predictor = (left + up) >> 1;
+				break;
+			case 4: {
+				const p = left + up - upLeft;
+				const pa = Math.abs(p - left);
+				const pb = Math.abs(p - up);
+				const pc = Math.abs(p - upLeft);
+				predictor = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+				break;
+			}
+			default:
+				throw new Error(`Invalid PNG filter type: ${filter}`);
+		}
+		line[i] = ((line[i] ?? 0) + predictor) & 0xff;
+	}
+}
+
+/**
+ * Read sample `index` of a scanline at the image's bit depth (unscaled)
+ */
+function readPngSample(line: Uint8Array, index: number, bitDepth: number): number {
+	if (bitDepth === 8) return line[index] ?? 0;
+	if (bitDepth === 16) return ((line[index * 2] ?? 0) << 8) | (line[index * 2 + 1] ?? 0);
+	const bit = index * bitDepth;
+	const byte = line[bit >> 3] ?? 0;
+	return (byte >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1);
+}
+
+/**
+ * Convert pixel `px` of an unfiltered scanline to RGBA
+ */
+function writePngPixel(
+	info: PngInfo,
+	line: Uint8Array,
+	px: number,
+	image: RgbaBuffer,
+	x: number,
+	y: number,
+): void {
+	const { bitDepth, channels } = info;
+	const base = px * channels;
+	const maxValue = (1 << bitDepth) - 1;
+
+	if (info.palette) {
+		const i = readPngSample(line, base, bitDepth) * 4;
+		const p = info.palette;
+		put(image, x, y, p[i] ?? 0, p[i + 1] ?? 0, p[i + 2] ?? 0, p[i + 3] ?? 255);
+		return;
+	}
+
+	const samples = [0, 0, 0, 0];
+	for (let c = 0; c < channels; c++) {
+		samples[c] = readPngSample(line, base + c, bitDepth);
+	}
+	const keyed = info.transparent?.every((value, c) => samples[c] === value) ?? false;
+
+	if (info.colorType === PNG_GRAY || info.colorType === PNG_GRAY_ALPHA) {
+		const gray = scaleSample(samples[0] ?? 0, maxValue);
+		const alpha =
+			info.colorType === PNG_GRAY_ALPHA ? scaleSample(samples[1] ?? 0, maxValue) : keyed ? 0 : 255;
+		put(image, x, y, gray, gray, gray, alpha);
+		return;
+	}
+
+	const alpha =
+		info.colorType === PNG_RGBA ? scaleSample(samples[3] ?? 0, maxValue) : keyed ? 0 : 255;
+	put(
+		image,
+		x,
+		y,
+		scaleSample(samples[0] ?? 0, maxValue),
+		scaleSample(samples[1] ?? 0, maxValue),
+		scaleSample(samples[2] ?? 0, maxValue),
+		alpha,
+	);
+}
+
+// ---------------------------------------------------------------------------
+// Netpbm (PBM/PGM/PPM/PAM)
+// ---------------------------------------------------------------------------
+
+/**
+ * Cursor over a Netpbm file that reads whitespace-separated header tokens
+ */
+class PnmReader {
+	offset = 2;
+
+	constructor(private readonly data: Uint8Array) {}
+
+	/**
+	 * Read the next token, skipping whitespace and # comments
+	 */
+	token(): string {
+		const data = this.data;
+		while (this.offset < data.length) {
+			const c = data[this.offset] ?? 0;
+			if (c === 0x23) {
+				while (this.offset < data.length && data[this.offset] !== 0x0a) this.offset++;
+			} else if (isSpace(c)) {
+				this.offset++;
+			} else {
+				break;
+			}
+		}
+		const start = this.offset;
+		while (this.offset < data.length && !isSpace(data[this.offset] ?? 0)) this.offset++;
+		if (start === this.offset) {
+			throw new Error("Unexpected end of Netpbm data");
+		}
+		return String.fromCharCode(...data.subarray(start, this.offset));
+	}
+
+	/**
+	 * Read the next token as a non-negative integer
+	 */
+	integer(): number {
+		const token = this.token();
+		const value = Number.parseInt(token, 10);
+		if (!/^\d+$/.test(token) || Number.isNaN(value)) {
+			throw new Error(`Invalid Netpbm number: ${token}`);
+		}
+		return value;
+	}
+
+	/**
+	 * Read the next whole line (PAM headers are line based)
+	 */
+	line(): string {
+		const data = this.data;
+		const start = this.offset;
+		while (this.offset < data.length && data[this.offset] !== 0x0a) this.offset++;
+		const text = String.fromCharCode(...data.subarray(start, this.offset));
+		this.offset++;
+		return text;
+	}
+
+	/**
+	 * Skip the single whitespace byte that ends a binary header
+	 */
+	endHeader(): void {
+		this.offset++;
+	}
+}
+
+/**
+ * Check for Netpbm header whitespace
+ */
+function isSpace(c: number): boolean {
+	return c === 0x20 || c === 0x09 || c === 0x0a || c === 0x0d || c === 0x0b || c === 0x0c;
+}
+
+/**
+ * Decode a Netpbm image: P1-P3 (ASCII), P4-P6 (binary) and P7 (PAM)
+ */
+function decodePnm(data: Uint8Array): RgbaBuffer {
+	const kind = (data[1] ?? 0) - 0x30;
+	const reader = new PnmReader(data);
+
+	let width: number;
+	let height: number;
+	let depth: number;
+	let maxValue: number;
+
+	if (kind === 7) {
+		width = 0;
+		height = 0;
+		depth = 0;
+		maxValue = 0;
+		for (;;) {
+			if (reader.offset >= data.length) {
+				throw new Error("PAM header is missing ENDHDR");
+			}
+			const line = reader.line().trim();
+			if (line === "ENDHDR") break;
+			if (line === "" || line.startsWith("#")) continue;
+			const [key, value = ""] = line.split(/\s+/);
+			if (key === "WIDTH") width = Number.parseInt(value, 10);
+			else if (key === "HEIGHT") height = Number.parseInt(value, 10);
+			else if (key === "DEPTH") depth = Number.parseInt(value, 10);
+			else if (key === "MAXVAL") maxValue = Number.parseInt(value, 10);
+		}
+		if (depth < 1 || depth > 4) {
+			throw new Error(`Unsupported PAM depth: ${depth}`);
+		}
+	} else {
+		width = reader.integer();
+		height = reader.integer();
+		depth = kind === 3 || kind === 6 ? 3 : 1;
+		maxValue = kind === 1 || kind === 4 ? 1 : reader.integer();
+		if (kind >= 4) reader.endHeader();
+	}
+
+	if (!(width > 0 && height > 0)) {
+		throw new Error(`Invalid Netpbm dimensions: ${width}x${height}`);
+	}
+	checkImageSize("Netpbm", width, height);
+	if (!(maxValue > 0 && maxValue < 65536)) {
+		throw new Error(`Invalid Netpbm maximum value: ${maxValue}`);
+	}
+
+	const ascii = kind <= 3;
+	const wide = maxValue > 255;
+	if (!ascii) {
+		const bytes =
+			kind === 4 ? Math.ceil(width / 8) * height : width * height * depth * (wide ? 2 : 1);
+		if (reader.offset + bytes > data.length) {
+			throw new Error("Truncated Netpbm image data");
+		}
+	}
+
+	const image = createRgbaBuffer(width, height);
+	// PBM stores ink (1 = black); PAM BLACKANDWHITE stores light (1 = white)
+	const bitmap = kind === 1 || kind === 4;
+	const samples = [0, 0, 0, 0];
+	let offset = reader.offset;
+
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			if (kind === 4) {
+				const rowBytes = Math.ceil(width / 8);
+				const byte = data[offset + y * rowBytes + (x >> 3)] ?? 0;
+				samples[0] = (byte >> (7 - (x & 7))) & 1;
+			} else {
+				for (let c = 0; c < depth; c++) {
+					if (ascii) {
+						samples[c] = kind === 1 ? readBit(reader) : reader.integer();
+					} else if (wide) {
+						samples[c] = ((data[offset] ?? 0) << 8) | (data[offset + 1] ?? 0);
+						offset += 2;
+					} else {
+						samples[c] = data[offset] ?? 0;
+						offset++;
+					}
+				}
+			}
+
+			if (bitmap) {
+				const v = samples[0] ? 0 : 255;
+				put(image, x, y, v, v, v, 255);
+			} else if (depth <= 2) {
+				const v = scaleSample(samples[0] ?? 0, maxValue);
+				const a = depth === 2 ? scaleSample(samples[1] ?? 0, maxValue) : 255;
+				put(image, x, y, v, v, v, a);
+			} else {
+				put(
+					image,
+					x,
+					y,
+					scaleSample(samples[0] ?? 0, maxValue),
+					scaleSample(samples[1] ?? 0, maxValue),
+					scaleSample(samples[2] ?? 0, maxValue),
+					depth === 4 ? scaleSample(samples[3] ?? 0, maxValue) : 255,
+				);
+			}
+		}
+	}
+	return image;
+}
+
+/**
+ * Read one P1 bit; digits may be packed without separating whitespace
+ */
+function readBit(reader: PnmReader): number {
+	const token = reader.token();
+	if (token.length > 1) {
+		// Push back everything after the first digit
+		reader.offset -= token.length - 1;
+	}
+	return token[0] === "1" ? 1 : 0;
+}
+
+// ---------------------------------------------------------------------------
+// BMP
+// ---------------------------------------------------------------------------
+
+/** BMP compression values handled here */
+const BI_RGB = 0;
+const BI_BITFIELDS = 3;
+const BI_ALPHABITFIELDS = 6;
+
+/**
+ * Channel mask with its shift and maximum value
+ */
+interface BitField {
+	mask: number;
+	shift: number;
+	max: number;
+}
+
+/**
+ * Describe a channel bit mask
+ */
+function toBitField(mask: number): BitField {
+	if (mask === 0) return { mask: 0, shift: 0, max: 0 };
+	let shift = 0;
+	while (((mask >>> shift) & 1) === 0) shift++;
+	return { mask: mask >>> 0, shift, max: (mask >>> shift) >>> 0 };
+}
+
+/**
+ * Extract and scale one channel of a packed BMP pixel
+ */
+function readBitField(value: number, field: BitField, fallback: number): number {
+	if (field.max === 0) return fallback;
+	return scaleSample(((value & field.mask) >>> field.shift) >>> 0, field.max);
+}
+
+/**
+ * Decode an uncompressed BMP (1, 4, 8, 16, 24 or 32 bits per pixel)
+ */
+function decodeBmp(data: Uint8Array): RgbaBuffer {
+	if (data.length < 26) {
+		throw new Error("Truncated BMP header");
+	}
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+	const pixelOffset = view.getUint32(10, true);
+	const headerSize = view.getUint32(14, true);
+	const core = headerSize === 12;
+
+	const width = core ? view.getUint16(18, true) : view.getInt32(18, true);
+	const rawHeight = core ? view.getInt16(20, true) : view.getInt32(22, true);
+	const bitsPerPixel = core ? view.getUint16(24, true) : view.getUint16(28, true);
+	const compression = core ? BI_RGB : view.getUint32(30, true);
+	const colorsUsed = core ? 0 : view.getUint32(46, true);
+
+	const topDown = rawHeight < 0;
+	const height = Math.abs(rawHeight);
+	if (width <= 0 || height === 0) {
+		throw new Error(`Invalid BMP dimensions: ${width}x${rawHeight}`);
+	}
+	checkImageSize("BMP", width, height);
+	if (compression !== BI_RGB && compression !== BI_BITFIELDS && compression !== BI_ALPHABITFIELDS) {
+		throw new Error(`Unsupported BMP compression: ${compression}`);
+	}
+
+	// Palette for indexed images: BGR(x) entries after the header
+	let palette: Uint8Array | null = null;
+	if (bitsPerPixel <= 8) {
+		const entrySize = core ? 3 : 4;
+		const entries = colorsUsed || 1 << bitsPerPixel;
+		palette = new Uint8Array(256 * 3);
+		const start = 14 + headerSize;
+		for (let i = 0; i < Math.min(entries, 256); i++) {
+			const p = start + i * entrySize;
+			palette[i * 3] = data[p + 2] ?? 0;
+			palette[i * 3 + 1] = data[p + 1] ?? 0;
+			palette[i * 3 + 2] = data[p] ?? 0;
+		}
+	}
+
+	// Channel masks for 16/32-bit images
+	let red = toBitField(0);
+	let green = toBitField(0);
+	let blue = toBitField(0);
+	let alpha = toBitField(0);
+	if (bitsPerPixel === 16 || bitsPerPixel === 32) {
+		if (compression === BI_RGB) {
+			if (bitsPerPixel === 16) {
+				red = toBitField(0x7c00);
+				green = toBitField(0x03e0);
+				blue = toBitField(0x001f);
+			} else {
+				red = toBitField(0x00ff0000);
+				green = toBitField(0x0000ff00);
+				blue = toBitField(0x000000ff);
+			}
+		} else {
+			// Masks follow a BITMAPINFOHEADER or are part of V2+ headers
+			red = toBitField(view.getUint32(54, true));
+			green = toBitField(view.getUint32(58, true));
+			blue = toBitField(view.getUint32(62, true));
+			if (compression === BI_ALPHABITFIELDS || headerSize >= 56) {
+				alpha = toBitField(view.getUint32(66, true));
+			}
+		}
+	} else if (bitsPerPixel !== 24 && !palette) {
+		throw new Error(`Unsupported BMP bit depth: ${bitsPerPixel}`);
+	}
+
+	const rowBytes = Math.ceil((width * bitsPerPixel) / 32) * 4;
+	if (pixelOffset + rowBytes * height > data.length) {
+		throw new Error("Truncated BMP image data");
+	}
+
+	const image = createRgbaBuffer(width, height);
+	for (let row = 0; row < height; row++) {
+		const y = topDown ? row : height - 1 - row;
+		const start = pixelOffset + row * rowBytes;
+		for (let x = 0; x < width; x++) {
+			if (palette) {
+				const bit = x * bitsPerPixel;
+				const byte = data[start + (bit >> 3)] ?? 0;
+				const index = (byte >> (8 - bitsPerPixel - (bit & 7))) & ((1 << bitsPerPixel) - 1);
+				put(
+					image,
+					x,
+					y,
+					palette[index * 3] ?? 0,
+					palette[index * 3 + 1] ?? 0,
+					palette[index * 3 + 2] ?? 0,
+					255,
+				);
+			} else if (bitsPerPixel === 24) {
+				const p = start + x * 3;
+				put(image, x, y, data[p + 2] ?? 0, data[p + 1] ?? 0, data[p] ?? 0, 255);
+			} else {
+				const value =
+					bitsPerPixel === 16
+						? view.getUint16(start + x * 2, true)
+						: view.getUint32(start + x * 4, true);
+				put(
+					image,
+					x,
+					y,
+					readBitField(value, red, 0),
+					readBitField(value, green, 0),
+					readBitField(value, blue, 0),
+					readBitField(value, alpha, 255),
+				);
+			}
+		}
+	}
+	return image;
+}
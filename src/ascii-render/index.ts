@@ -1,25 +1,114 @@
 // Main exports
 
+// Asciicast recording and playback
+export type {
+	Asciicast,
+	AsciicastEvent,
+	AsciicastHeader,
+	AsciicastPlayerOptions,
+	AsciicastRecorderOptions,
+} from "./asciicast";
+export {
+	AsciicastPlayer,
+	AsciicastRecorder,
+	FRAME_START,
+	parseAsciicast,
+	serializeAsciicast,
+} from "./asciicast";
+// Pixel buffer utilities
+export {
+	createRgbaBuffer,
+	fillRgbaBuffer,
+	getSurfaceSize,
+	isRgbaBuffer,
+	packColor,
+	readPixel,
+	toPixelArray,
+	toRgbaBuffer,
+	writePixel,
+} from "./buffer";
+// Terminal capability detection
+export type { TerminalCapabilities, TerminalQuery } from "./capabilities";
+export {
+	createTerminalQuery,
+	detectCapabilities,
+	queryCapabilities,
+	recommendOptions,
+} from "./capabilities";
 // Color utilities
 export {
 	averageColors,
 	BLACK,
+	bgAnsi16,
+	bgAnsi256,
+	bgColor,
 	bgTruecolor,
 	blendColors,
+	blendWithMode,
 	clampByte,
+	clearPaletteCache,
 	colorsEqual,
+	fgAnsi16,
+	fgAnsi256,
+	fgColor,
 	fgTruecolor,
+	fromOklab,
 	getBrightness,
 	hex,
+	hsl,
 	interpolateColor,
 	invertColor,
 	isPixelOn,
+	isRgbaOn,
+	nearestAnsi16,
+	nearestAnsi256,
 	rainbow,
 	resetColors,
 	rgb,
 	TRANSPARENT,
+	toHsl,
+	toOklab,
 	WHITE,
+	XTERM_PALETTE,
 } from "./colors";
+// Layered compositing
+export type { LayerOptions, PixelLayerOptions, TextLayerOptions } from "./compositor";
+export { Compositor } from "./compositor";
+// Depth buffer utilities
+export {
+	attachDepthBuffer,
+	clearDepthBuffer,
+	detachDepthBuffer,
+	getDepthBuffer,
+	testAndWriteDepth,
+} from "./depth";
+// Dithering
+export { createDitherMask } from "./dither";
+// Edge detection
+export { createEdgeMap, EDGE_ORIENTATION } from "./edges";
+// Incremental output
+export { cursorTo, FrameEncoder } from "./encoder";
+export type { EncodedFrame, FrameEncoderOptions, FrameStats } from "./encoder";
+// Export
+export type { HtmlExportOptions, SvgExportOptions } from "./export";
+export { encodePng, encodePpm, gridToHtml, gridToSvg } from "./export";
+// Bitmap fonts
+export {
+	decodeFont,
+	FONT_3X5,
+	FONT_5X7,
+	getGlyph,
+	loadFont,
+	measureLine,
+	measureText,
+} from "./font";
+// Gradients and colormaps
+export { COLORMAPS, createGradient, sampleColormap, sampleGradient } from "./gradient";
+// Pixel graphics protocols
+export type { KittyOptions, SixelOptions } from "./graphics";
+export { encodeKitty, encodeSixel, kittyDelete, kittyPlace } from "./graphics";
+// Image loading
+export { decodeImage, loadImage, MAX_IMAGE_PIXELS } from "./image";
 // Mapping utilities
 export {
 	findBestSymbol,
@@ -27,29 +116,85 @@ export {
 	mapPixelsToCells,
 	mapRegionToPattern,
 } from "./mapper";
+// Path geometry
+export { clipLine, flattenArc, flattenBezier, scanPolygon } from "./path";
 export { AsciiRenderer } from "./renderer";
+export { resampleImage } from "./resample";
 // Symbol definitions
 export {
+	ASCII_RAMPS,
 	ASCII_SYMBOLS,
 	BRAILLE_BASE,
 	BRAILLE_DOTS,
 	BRAILLE_SYMBOLS,
+	EDGE_SYMBOLS,
 	getBrailleChar,
+	getOctantChar,
 	getSymbolDimensions,
 	getSymbolSet,
+	getSymbolSetDefinition,
 	HALF_BLOCK_SYMBOLS,
+	listSymbolSets,
+	OCTANT_BASE,
+	OCTANT_SYMBOLS,
 	QUADRANT_SYMBOLS,
+	registerSymbolSet,
 	SEXTANT_SYMBOLS,
+	unregisterSymbolSet,
 } from "./symbols";
+// Transforms
+export {
+	applyTransform,
+	IDENTITY_TRANSFORM,
+	intersectRects,
+	isIdentityTransform,
+	multiplyTransform,
+	transformRect,
+} from "./transform";
 // Types
 export type {
+	BitmapFont,
+	BitmapGlyph,
 	Cell,
 	Color,
+	DepthBuffer,
+	DepthBufferOptions,
+	Gradient,
+	GradientStop,
 	Grid,
 	LineStyle,
+	MappingOptions,
 	PixelBuffer,
+	PixelSurface,
+	Rect,
 	RenderOptions,
+	RgbaBuffer,
+	SubPixel,
 	SymbolDef,
+	SymbolSetDefinition,
+	SymbolSetName,
+	TextOptions,
+	Transform,
+	TriangleColors,
+	TriangleOptions,
+	Vertex,
 } from "./types";
 // Enums
-export { ColorMode, DEFAULT_OPTIONS, SymbolSet } from "./types";
+export {
+	BlendMode,
+	BufferFormat,
+	ColorFitting,
+	ColorMode,
+	Colormap,
+	ColorSpace,
+	DEFAULT_OPTIONS,
+	DepthTest,
+	DitherMode,
+	FillRule,
+	KittyFormat,
+	LineCap,
+	LineJoin,
+	ResampleFilter,
+	SymbolSet,
+	TextAlign,
+} from "./types";
@@ -1,42 +1,434 @@
-import { averageColors, BLACK, isPixelOn } from "./colors";
-import { BRAILLE_DOTS, getBrailleChar, getSymbolDimensions, getSymbolSet } from "./symbols";
-import type { Cell, Color, PixelBuffer, SymbolDef } from "./types";
-import { SymbolSet } from "./types";
+import { getSurfaceSize, isRgbaBuffer, toRgbaBuffer } from "./buffer";
+import { BLACK, clampByte, isRgbaOn } from "./colors";
+import { createDitherMask } from "./dither";
+import { createEdgeMap } from "./edges";
+import { ASCII_RAMPS, BRAILLE_DOT_MAP, EDGE_SYMBOLS, getSymbolSetDefinition } from "./symbols";
+import type {
+	Cell,
+	Color,
+	MappingOptions,
+	PixelSurface,
+	RgbaBuffer,
+	SubPixel,
+	SymbolDef,
+	SymbolSetName,
+} from "./types";
+import { ColorFitting, DitherMode, SymbolSet } from "./types";
 
 /**
- * Safely read a pixel from the buffer, returning BLACK for out-of-bounds access
+ * Running sum of colors, used instead of collecting per-cell color arrays
  */
-function getPixelSafe(pixels: PixelBuffer, x: number, y: number): Color {
-	const row = pixels[y];
-	if (row && x >= 0 && x < row.length) {
-		return row[x] ?? { ...BLACK };
+class ColorAccumulator {
+	r = 0;
+	g = 0;
+	b = 0;
+	a = 0;
+	count = 0;
+
+	reset(): void {
+		this.r = 0;
+		this.g = 0;
+		this.b = 0;
+		this.a = 0;
+		this.count = 0;
+	}
+
+	add(r: number, g: number, b: number, a: number): void {
+		this.r += r;
+		this.g += g;
+		this.b += b;
+		this.a += a;
+		this.count++;
+	}
+
+	/** Same result as averageColors over the added colors */
+	average(): Color {
+		if (this.count === 0) {
+			return { ...BLACK };
+		}
+		return {
+			r: clampByte(this.r / this.count),
+			g: clampByte(this.g / this.count),
+			b: clampByte(this.b / this.count),
+			a: clampByte(this.a / this.count),
+		};
+	}
+}
+
+/** Shared accumulators; mapping is synchronous so they are never used concurrently */
+const fgAccumulator = new ColorAccumulator();
+const bgAccumulator = new ColorAccumulator();
+
+/** Scratch pixel filled by readSample; mapping is synchronous so it is never shared */
+const sample = { r: 0, g: 0, b: 0, a: 255 };
+
+/**
+ * Read a pixel into `sample`. Out-of-bounds pixels are treated as opaque black.
+ */
+function readSample(pixels: RgbaBuffer, x: number, y: number): void {
+	if (x >= 0 && x < pixels.width && y >= 0 && y < pixels.height) {
+		const i = y * pixels.stride + x * 4;
+		const data = pixels.data;
+		sample.r = data[i] ?? 0;
+		sample.g = data[i + 1] ?? 0;
+		sample.b = data[i + 2] ?? 0;
+		sample.a = data[i + 3] ?? 255;
+	} else {
+		sample.r = 0;
+		sample.g = 0;
+		sample.b = 0;
+		sample.a = 255;
 	}
-	return { ...BLACK };
 }
 
 /**
- * Braille dot-to-pixel mapping, hoisted to module scope to avoid
- * recreating on every call to mapBrailleRegion.
+ * Map one cell's sub-pixels to a pattern and fg/bg colors.
+ *
+ * Alpha is treated as coverage: opaque (255) and fully transparent (0)
+ * pixels are averaged as-is, while partially covered pixels (e.g. the
+ * edges of anti-aliased lines) are blended over the cell's background
+ * by their coverage before joining the fg or bg group. A partially
+ * covered pixel is "on" when its coverage is at least one half.
  *
- * Dot layout (Unicode standard):
- *   Dot1 Dot4   (row 0)
- *   Dot2 Dot5   (row 1)
- *   Dot3 Dot6   (row 2)
- *   Dot7 Dot8   (row 3)
- */
-const BRAILLE_DOT_MAP = [
-	{ x: 0, y: 0, bit: BRAILLE_DOTS.DOT1 },
-	{ x: 0, y: 1, bit: BRAILLE_DOTS.DOT2 },
-	{ x: 0, y: 2, bit: BRAILLE_DOTS.DOT3 },
-	{ x: 0, y: 3, bit: BRAILLE_DOTS.DOT7 },
-	{ x: 1, y: 0, bit: BRAILLE_DOTS.DOT4 },
-	{ x: 1, y: 1, bit: BRAILLE_DOTS.DOT5 },
-	{ x: 1, y: 2, bit: BRAILLE_DOTS.DOT6 },
-	{ x: 1, y: 3, bit: BRAILLE_DOTS.DOT8 },
-] as const;
-
-/**
- * Map a region of pixels to a bit pattern
+ * When a dither mask is given, it decides which pixels are "on" instead
+ * of the threshold (pixels outside the buffer are always off).
+ */
+function mapCell(
+	pixels: RgbaBuffer,
+	layout: readonly SubPixel[],
+	startX: number,
+	startY: number,
+	threshold: number,
+	mask: Uint8Array | null = null,
+): { pattern: number; fg: Color; bg: Color } {
+	fgAccumulator.reset();
+	bgAccumulator.reset();
+
+	let pattern = 0;
+	let hasPartial = false;
+	for (const sub of layout) {
+		const x = startX + sub.x;
+		const y = startY + sub.y;
+		readSample(pixels, x, y);
+		const on = mask
+			? x >= 0 &&
+				x < pixels.width &&
+				y >= 0 &&
+				y < pixels.height &&
+				mask[y * pixels.width + x] === 1
+			: isRgbaOn(sample.r, sample.g, sample.b, sample.a, threshold);
+		if (on) {
+			pattern |= sub.bit;
+		}
+		if (sample.a > 0 && sample.a < 255) {
+			hasPartial = true;
+			continue;
+		}
+		(on ? fgAccumulator : bgAccumulator).add(sample.r, sample.g, sample.b, sample.a);
+	}
+
+	if (hasPartial) {
+		// Uncovered parts of partial pixels show the cell's solid background,
+		// or black when the cell has none
+		const n = bgAccumulator.count;
+		const baseR = n > 0 ? bgAccumulator.r / n : 0;
+		const baseG = n > 0 ? bgAccumulator.g / n : 0;
+		const baseB = n > 0 ? bgAccumulator.b / n : 0;
+
+		for (const sub of layout) {
+			readSample(pixels, startX + sub.x, startY + sub.y);
+			if (sample.a === 0 || sample.a === 255) continue;
+			const coverage = sample.a / 255;
+			const target = pattern & sub.bit ? fgAccumulator : bgAccumulator;
+			target.add(
+				sample.r * coverage + baseR * (1 - coverage),
+				sample.g * coverage + baseG * (1 - coverage),
+				sample.b * coverage + baseB * (1 - coverage),
+				255,
+			);
+		}
+	}
+
+	return { pattern, fg: fgAccumulator.average(), bg: bgAccumulator.average() };
+}
+
+/** Scratch RGB values of one cell's sub-pixels, grown on demand */
+let cellColors = new Float64Array(8 * 3);
+
+/**
+ * Load a cell's sub-pixel colors into `cellColors`.
+ * Alpha is applied as coverage over black, so transparent pixels read as black.
+ */
+function loadCellColors(
+	pixels: RgbaBuffer,
+	layout: readonly SubPixel[],
+	startX: number,
+	startY: number,
+): void {
+	if (cellColors.length < layout.length * 3) {
+		cellColors = new Float64Array(layout.length * 3);
+	}
+	for (let i = 0; i < layout.length; i++) {
+		const sub = layout[i];
+		if (!sub) continue;
+		readSample(pixels, startX + sub.x, startY + sub.y);
+		const coverage = sample.a / 255;
+		cellColors[i * 3] = sample.r * coverage;
+		cellColors[i * 3 + 1] = sample.g * coverage;
+		cellColors[i * 3 + 2] = sample.b * coverage;
+	}
+}
+
+/**
+ * Split the loaded cell colors into two groups
+ * @returns Bit i set when sub-pixel i belongs to the second group
+ */
+function splitCellColors(count: number, fitting: ColorFitting): number {
+	const c = cellColors;
+
+	if (fitting === ColorFitting.MEDIAN_CUT) {
+		// Find the channel with the largest range and split at its median
+		let channel = 0;
+		let widest = -1;
+		for (let ch = 0; ch < 3; ch++) {
+			let min = Infinity;
+			let max = -Infinity;
+			for (let i = 0; i < count; i++) {
+				const v = c[i * 3 + ch] ?? 0;
+				if (v < min) min = v;
+				if (v > max) max = v;
+			}
+			if (max - min > widest) {
+				widest = max - min;
+				channel = ch;
+			}
+		}
+		if (widest <= 0) return 0;
+
+		const order = Array.from({ length: count }, (_, i) => i).sort(
+			(a, b) => (c[a * 3 + channel] ?? 0) - (c[b * 3 + channel] ?? 0),
+		);
+		let split = 0;
+		for (let k = Math.floor(count / 2); k < count; k++) {
+			split |= 1 << (order[k] ?? 0);
+		}
+		return split;
+	}
+
+	// 2-means, seeded with the darkest and brightest sub-pixels
+	let dark = 0;
+	let bright = 0;
+	for (let i = 1; i < count; i++) {
+		const lum = luminanceAt(i);
+		if (lum < luminanceAt(dark)) dark = i;
+		if (lum > luminanceAt(bright)) bright = i;
+	}
+	const centers = [
+		c[dark * 3] ?? 0,
+		c[dark * 3 + 1] ?? 0,
+		c[dark * 3 + 2] ?? 0,
+		c[bright * 3] ?? 0,
+		c[bright * 3 + 1] ?? 0,
+		c[bright * 3 + 2] ?? 0,
+	];
+
+	let split = -1;
+	for (let iteration = 0; iteration < 8; iteration++) {
+		let next = 0;
+		for (let i = 0; i < count; i++) {
+			if (distanceTo(i, centers, 3) < distanceTo(i, centers, 0)) {
+				next |= 1 << i;
+			}
+		}
+		if (next === split) break;
+		split = next;
+		for (let group = 0; group < 2; group++) {
+			const mean = groupMean(count, split, group === 1);
+			if (mean.n > 0) {
+				centers[group * 3] = mean.r;
+				centers[group * 3 + 1] = mean.g;
+				centers[group * 3 + 2] = mean.b;
+			}
+		}
+	}
+	return Math.max(0, split);
+}
+
+/**
+ * Luminance of loaded sub-pixel i
+ */
+function luminanceAt(i: number): number {
+	return (
+		0.299 * (cellColors[i * 3] ?? 0) +
+		0.587 * (cellColors[i * 3 + 1] ?? 0) +
+		0.114 * (cellColors[i * 3 + 2] ?? 0)
+	);
+}
+
+/**
+ * Squared RGB distance between loaded sub-pixel i and centers[offset..offset+2]
+ */
+function distanceTo(i: number, centers: number[], offset: number): number {
+	return (
+		((cellColors[i * 3] ?? 0) - (centers[offset] ?? 0)) ** 2 +
+		((cellColors[i * 3 + 1] ?? 0) - (centers[offset + 1] ?? 0)) ** 2 +
+		((cellColors[i * 3 + 2] ?? 0) - (centers[offset + 2] ?? 0)) ** 2
+	);
+}
+
+/**
+ * Mean color of the loaded sub-pixels whose bit in `pattern` equals `set`
+ */
+function groupMean(
+	count: number,
+	pattern: number,
+	set: boolean,
+): { r: number; g: number; b: number; n: number } {
+	let r = 0;
+	let g = 0;
+	let b = 0;
+	let n = 0;
+	for (let i = 0; i < count; i++) {
+		if ((((pattern >> i) & 1) === 1) !== set) continue;
+		r += cellColors[i * 3] ?? 0;
+		g += cellColors[i * 3 + 1] ?? 0;
+		b += cellColors[i * 3 + 2] ?? 0;
+		n++;
+	}
+	return n > 0 ? { r: r / n, g: g / n, b: b / n, n } : { r: 0, g: 0, b: 0, n };
+}
+
+/**
+ * Map one cell by fitting two colors to its sub-pixels.
+ *
+ * The sub-pixels are split into two clusters, then both the split and its
+ * inverse are resolved to an available symbol pattern. Each candidate gets
+ * the mean colors of its groups as fg/bg, and the one with the lowest
+ * squared reconstruction error wins (the brighter fg on ties).
+ * @param resolve Map a desired pattern (layout bit order) to an available one
+ */
+function fitCell(
+	pixels: RgbaBuffer,
+	layout: readonly SubPixel[],
+	startX: number,
+	startY: number,
+	fitting: ColorFitting,
+	resolve: (pattern: number) => number,
+): { pattern: number; fg: Color; bg: Color } {
+	const count = layout.length;
+	loadCellColors(pixels, layout, startX, startY);
+	const split = splitCellColors(count, fitting);
+	const all = count >= 31 ? -1 : (1 << count) - 1;
+
+	let best: { pattern: number; fg: Color; bg: Color } | null = null;
+	let bestError = Infinity;
+	let bestBrightness = -Infinity;
+
+	for (const candidate of [split, ~split & all]) {
+		// Candidate bits are in layout order; translate to the symbol's bit layout
+		let desired = 0;
+		for (let i = 0; i < count; i++) {
+			if ((candidate >> i) & 1) desired |= layout[i]?.bit ?? 0;
+		}
+		const pattern = resolve(desired);
+
+		let assignment = 0;
+		for (let i = 0; i < count; i++) {
+			if (pattern & (layout[i]?.bit ?? 0)) assignment |= 1 << i;
+		}
+		const fg = groupMean(count, assignment, true);
+		const bg = groupMean(count, assignment, false);
+
+		let error = 0;
+		for (let i = 0; i < count; i++) {
+			error += distanceTo(i, [fg.r, fg.g, fg.b, bg.r, bg.g, bg.b], (assignment >> i) & 1 ? 0 : 3);
+		}
+		const brightness = 0.299 * fg.r + 0.587 * fg.g + 0.114 * fg.b;
+
+		if (error < bestError || (error === bestError && brightness > bestBrightness)) {
+			bestError = error;
+			bestBrightness = brightness;
+			best = {
+				pattern,
+				fg: { r: clampByte(fg.r), g: clampByte(fg.g), b: clampByte(fg.b), a: 255 },
+				bg: { r: clampByte(bg.r), g: clampByte(bg.g), b: clampByte(bg.b), a: 255 },
+			};
+		}
+	}
+
+	return best ?? { pattern: 0, fg: { ...BLACK }, bg: { ...BLACK } };
+}
+
+/**
+ * Map every pixel to a character of a density ramp.
+ * The ramp index comes from the pixel's brightness scaled by its alpha
+ * coverage; the pixel color becomes the foreground on a black background.
+ * When an edge map is given, visible pixels on an edge use the EDGE_SYMBOLS
+ * glyph for their orientation instead.
+ * @throws {Error} If the ramp is empty
+ */
+function mapDensityRamp(
+	pixels: RgbaBuffer,
+	ramp: string,
+	invert: boolean,
+	edges: Uint8Array | null,
+): Cell[][] {
+	// Split by code point so ramps may contain non-BMP characters
+	const chars = Array.from(ramp);
+	if (chars.length === 0) {
+		throw new Error("Density ramp must contain at least one character");
+	}
+	const last = chars.length - 1;
+
+	const grid: Cell[][] = [];
+	for (let y = 0; y < pixels.height; y++) {
+		const row: Cell[] = [];
+		for (let x = 0; x < pixels.width; x++) {
+			readSample(pixels, x, y);
+			const level =
+				((0.299 * sample.r + 0.587 * sample.g + 0.114 * sample.b) * sample.a) / (255 * 255);
+			const index = Math.min(last, Math.floor(level * chars.length));
+			const edge = index > 0 ? (edges?.[y * pixels.width + x] ?? 0) : 0;
+			row.push({
+				char:
+					edge !== 0
+						? findBestSymbol(edge, EDGE_SYMBOLS).char
+						: (chars[invert ? last - index : index] ?? " "),
+				fg: { r: sample.r, g: sample.g, b: sample.b, a: 255 },
+				bg: { ...BLACK },
+			});
+		}
+		grid.push(row);
+	}
+	return grid;
+}
+
+/**
+ * Row-major sub-pixel layouts keyed by "WxH", built on first use
+ */
+const regionLayouts = new Map<string, SubPixel[]>();
+
+/**
+ * Get the row-major layout for a width x height region (bit i = pixel i)
+ */
+function getRegionLayout(width: number, height: number): SubPixel[] {
+	const key = `${width}x${height}`;
+	let layout = regionLayouts.get(key);
+	if (!layout) {
+		layout = [];
+		for (let y = 0; y < height; y++) {
+			for (let x = 0; x < width; x++) {
+				layout.push({ x, y, bit: 1 << (y * width + x) });
+			}
+		}
+		regionLayouts.set(key, layout);
+	}
+	return layout;
+}
+
+/**
+ * Map a region of pixels to a bit pattern.
+ * Partially covered pixels (alpha between 0 and 255) are blended by coverage.
  * @param pixels The pixel buffer
  * @param startX Starting X position
  * @param startY Starting Y position
@@ -46,43 +438,26 @@ const BRAILLE_DOT_MAP = [
  * @returns Bit pattern representing which sub-pixels are "on"
  */
 export function mapRegionToPattern(
-	pixels: PixelBuffer,
+	pixels: PixelSurface,
 	startX: number,
 	startY: number,
 	width: number,
 	height: number,
 	threshold: number,
 ): { pattern: number; fg: Color; bg: Color } {
-	const patternBits: boolean[] = [];
-	const fgColors: Color[] = [];
-	const bgColors: Color[] = [];
-
-	for (let y = 0; y < height; y++) {
-		for (let x = 0; x < width; x++) {
-			const color = getPixelSafe(pixels, startX + x, startY + y);
-			const on = isPixelOn(color, threshold);
-			patternBits.push(on);
-
-			if (on) {
-				fgColors.push(color);
-			} else {
-				bgColors.push(color);
-			}
-		}
+	// Nested arrays are adapted by copying just the requested region
+	if (!isRgbaBuffer(pixels)) {
+		return mapRegionToPattern(
+			toRgbaBuffer(pixels, startX, startY, width, height),
+			0,
+			0,
+			width,
+			height,
+			threshold,
+		);
 	}
 
-	// Convert boolean pattern to bit pattern
-	let bitPattern = 0;
-	for (let i = 0; i < patternBits.length; i++) {
-		if (patternBits[i]) {
-			bitPattern |= 1 << i;
-		}
-	}
-
-	const fg = averageColors(fgColors);
-	const bg = averageColors(bgColors);
-
-	return { pattern: bitPattern, fg, bg };
+	return mapCell(pixels, getRegionLayout(width, height), startX, startY, threshold);
 }
 
 /**
@@ -132,77 +507,80 @@ function countBits(n: number): number {
  * For Braille, we need to map 2x4 pixel regions to dot patterns
  */
 export function mapBrailleRegion(
-	pixels: PixelBuffer,
+	pixels: PixelSurface,
 	startX: number,
 	startY: number,
 	threshold: number,
 ): { pattern: number; fg: Color; bg: Color } {
-	let pattern = 0;
-	const fgColors: Color[] = [];
-	const bgColors: Color[] = [];
-
-	for (const dot of BRAILLE_DOT_MAP) {
-		const color = getPixelSafe(pixels, startX + dot.x, startY + dot.y);
-
-		if (isPixelOn(color, threshold)) {
-			pattern |= dot.bit;
-			fgColors.push(color);
-		} else {
-			bgColors.push(color);
-		}
+	if (!isRgbaBuffer(pixels)) {
+		return mapBrailleRegion(toRgbaBuffer(pixels, startX, startY, 2, 4), 0, 0, threshold);
 	}
 
-	return {
-		pattern,
-		fg: averageColors(fgColors),
-		bg: averageColors(bgColors),
-	};
+	return mapCell(pixels, BRAILLE_DOT_MAP, startX, startY, threshold);
 }
 
 /**
- * Convert pixel buffer to grid of cells using specified symbol set
+ * Convert pixel buffer to grid of cells using specified symbol set.
+ * Nested color arrays are adapted to a packed buffer once per call.
+ * SymbolSet.ASCII maps through a density ramp (and optional edge glyphs) and
+ * ignores threshold, dither and fitting.
+ * @param symbolSetName A built-in set or one added with registerSymbolSet
  */
 export function mapPixelsToCells(
-	pixels: PixelBuffer,
-	symbolSetName: SymbolSet,
+	pixels: PixelSurface,
+	symbolSetName: SymbolSetName,
 	threshold: number,
+	options: MappingOptions = {},
 ): Cell[][] {
-	const symbols = getSymbolSet(symbolSetName);
-	const dims = getSymbolDimensions(symbolSetName);
+	const definition = getSymbolSetDefinition(symbolSetName);
+	const { symbols } = definition;
 
-	if (pixels.length === 0) {
+	const { width: pixelWidth, height: pixelHeight } = getSurfaceSize(pixels);
+	if (pixelWidth === 0 || pixelHeight === 0) {
 		return [];
 	}
 
-	const firstRow = pixels[0];
-	if (!firstRow || firstRow.length === 0) {
-		return [];
+	const packed = isRgbaBuffer(pixels) ? pixels : toRgbaBuffer(pixels);
+	if (definition.name === SymbolSet.ASCII) {
+		return mapDensityRamp(
+			packed,
+			options.ramp ?? ASCII_RAMPS.standard,
+			options.invertRamp ?? false,
+			options.edges ? createEdgeMap(packed) : null,
+		);
 	}
+	const mask = createDitherMask(packed, options.dither ?? DitherMode.NONE, threshold);
 
-	const pixelHeight = pixels.length;
-	const pixelWidth = firstRow.length;
+	const cellWidth = Math.ceil(pixelWidth / definition.width);
+	const cellHeight = Math.ceil(pixelHeight / definition.height);
 
-	const cellWidth = Math.ceil(pixelWidth / dims.width);
-	const cellHeight = Math.ceil(pixelHeight / dims.height);
+	const layout = definition.layout ?? getRegionLayout(definition.width, definition.height);
+	const fitting = options.fitting ?? ColorFitting.THRESHOLD;
+	// Sets with a character for every pattern (Braille, octants) index it
+	// directly (O(1)) instead of searching their symbols with findBestSymbol (O(n))
+	const lookup = definition.lookup ?? null;
+	// Sets without a full table resolve to their nearest symbol
+	const resolve = lookup
+		? (pattern: number) => pattern
+		: (pattern: number) => findBestSymbol(pattern, symbols).pattern;
 
 	const grid: Cell[][] = [];
 
 	for (let cy = 0; cy < cellHeight; cy++) {
 		const row: Cell[] = [];
 		for (let cx = 0; cx < cellWidth; cx++) {
-			const startX = cx * dims.width;
-			const startY = cy * dims.height;
+			const startX = cx * definition.width;
+			const startY = cy * definition.height;
 
-			let result: { pattern: number; fg: Color; bg: Color };
+			const result =
+				fitting === ColorFitting.THRESHOLD
+					? mapCell(packed, layout, startX, startY, threshold, mask)
+					: fitCell(packed, layout, startX, startY, fitting, resolve);
 
-			if (symbolSetName === SymbolSet.BRAILLE) {
-				result = mapBrailleRegion(pixels, startX, startY, threshold);
-				// For braille, compute the character directly (O(1)) instead of
-				// searching through 256 symbols with findBestSymbol (O(n))
-				const char = getBrailleChar(result.pattern);
+			if (lookup) {
+				const char = lookup(result.pattern);
 				row.push({ char, fg: result.fg, bg: result.bg });
 			} else {
-				result = mapRegionToPattern(pixels, startX, startY, dims.width, dims.height, threshold);
 				const symbol = findBestSymbol(result.pattern, symbols);
 				row.push({ char: symbol.char, fg: result.fg, bg: result.bg });
 			}
@@ -0,0 +1,198 @@
+import type { Rect, Vertex } from "./types";
+import { FillRule } from "./types";
+
+/** Maximum distance in pixels between a curve and its flattened polyline */
+const FLATNESS_TOLERANCE = 0.25;
+
+/** Maximum subdivision depth for Bezier flattening (up to 2^16 segments) */
+const MAX_BEZIER_DEPTH = 16;
+
+/**
+ * Most segments per full turn of an arc, enough for the tolerance up to
+ * radii of about 850,000 pixels
+ */
+const MAX_ARC_SEGMENTS = 4096;
+
+/**
+ * Distance from point p to the line through a and b
+ */
+function distanceToChord(p: Vertex, a: Vertex, b: Vertex): number {
+	const dx = b.x - a.x;
+	const dy = b.y - a.y;
+	const length = Math.hypot(dx, dy);
+	if (length === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+	return Math.abs((p.x - a.x) * dy - (p.y - a.y) * dx) / length;
+}
+
+/**
+ * Midpoint of two points
+ */
+function midpoint(a: Vertex, b: Vertex): Vertex {
+	return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+/**
+ * Flatten a quadratic (3 points) or cubic (4 points) Bezier curve into a
+ * polyline by adaptive subdivision: a piece is split in half with de
+ * Casteljau's algorithm until its control points lie within a quarter pixel
+ * of its chord. Flat stretches use few points, tight bends many.
+ * @returns Points from the first to the last control point
+ */
+export function flattenBezier(points: readonly Vertex[]): Vertex[] {
+	const [first] = points;
+	if (!first) return [];
+	const result: Vertex[] = [{ x: first.x, y: first.y }];
+
+	const subdivide = (curve: Vertex[], depth: number) => {
+		const start = curve[0] as Vertex;
+		const end = curve[curve.length - 1] as Vertex;
+		const flat = curve
+			.slice(1, -1)
+			.every((control) => distanceToChord(control, start, end) <= FLATNESS_TOLERANCE);
+		if (flat || depth >= MAX_BEZIER_DEPTH) {
+			result.push({ x: end.x, y: end.y });
+			return;
+		}
+		// de Casteljau: the left half takes the first point of each level,
+		// the right half the last
+		const left: Vertex[] = [];
+		const right: Vertex[] = [];
+		let level = curve;
+		while (level.length > 0) {
+			left.push(level[0] as Vertex);
+			right.unshift(level[level.length - 1] as Vertex);
+			level = level.slice(1).map((p, i) => midpoint(level[i] as Vertex, p));
+		}
+		subdivide(left, depth + 1);
+		subdivide(right, depth + 1);
+	};
+
+	if (points.length > 1) subdivide([...points], 0);
+	return result;
+}
+
+/**
+ * Flatten an elliptical arc into a polyline. Angles are in radians,
+ * measured from the +x axis towards +y (clockwise on screen). The arc
+ * sweeps from start to end, so end < start sweeps the other way.
+ * Segment count is chosen so the chords stay within a quarter pixel of
+ * the ellipse, up to MAX_ARC_SEGMENTS per turn.
+ */
+export function flattenArc(
+	cx: number,
+	cy: number,
+	rx: number,
+	ry: number,
+	startAngle: number,
+	endAngle: number,
+): Vertex[] {
+	const radius = Math.max(Math.abs(rx), Math.abs(ry));
+	const sweep = endAngle - startAngle;
+	// Largest angle whose chord deviates at most the tolerance from the arc,
+	// which rounds to 0 for huge radii
+	const maxStep = Math.max(
+		radius > FLATNESS_TOLERANCE ? 2 * Math.acos(1 - FLATNESS_TOLERANCE / radius) : Math.PI / 2,
+		(2 * Math.PI) / MAX_ARC_SEGMENTS,
+	);
+	// A multiple of four keeps full ellipses symmetric about both axes
+	const segments = Math.max(1, Math.ceil(Math.abs(sweep) / maxStep / 4)) * 4;
+
+	return Array.from({ length: segments + 1 }, (_, i) => {
+		const angle = startAngle + (sweep * i) / segments;
+		return { x: cx + rx * Math.cos(angle), y: cy + ry * Math.sin(angle) };
+	});
+}
+
+/**
+ * Scan-convert a polygon: call `span` with the pixel columns [x0, x1]
+ * whose centers lie inside the polygon on each row in [0, height).
+ * The polygon is closed implicitly.
+ */
+export function scanPolygon(
+	points: readonly Vertex[],
+	rule: FillRule,
+	height: number,
+	span: (y: number, x0: number, x1: number) => void,
+): void {
+	if (points.length < 3) return;
+	let minY = Infinity;
+	let maxY = -Infinity;
+	for (const p of points) {
+		if (!Number.isFinite(p.x) || !Number.isFinite(p.y)) return;
+		minY = Math.min(minY, p.y);
+		maxY = Math.max(maxY, p.y);
+	}
+
+	const crossings: { x: number; winding: number }[] = [];
+	const firstRow = Math.max(0, Math.floor(minY));
+	const lastRow = Math.min(height - 1, Math.ceil(maxY));
+	for (let y = firstRow; y <= lastRow; y++) {
+		const py = y + 0.5;
+		crossings.length = 0;
+		for (let i = 0; i < points.length; i++) {
+			const a = points[i] as Vertex;
+			const b = points[(i + 1) % points.length] as Vertex;
+			// Half-open in y so a vertex on the scanline is counted once
+			const downward = a.y <= py && b.y > py;
+			if (!downward && !(b.y <= py && a.y > py)) continue;
+			crossings.push({
+				x: a.x + ((py - a.y) * (b.x - a.x)) / (b.y - a.y),
+				winding: downward ? 1 : -1,
+			});
+		}
+		crossings.sort((p, q) => p.x - q.x);
+
+		let winding = 0;
+		crossings.forEach((crossing, i) => {
+			winding += crossing.winding;
+			const inside = rule === FillRule.EVEN_ODD ? (i + 1) % 2 === 1 : winding !== 0;
+			const next = crossings[i + 1];
+			if (!inside || !next) return;
+			// Pixel x is inside when its center x + 0.5 lies in [crossing.x, next.x)
+			const x0 = Math.ceil(crossing.x - 0.5);
+			const x1 = Math.ceil(next.x - 0.5) - 1;
+			if (x1 >= x0) span(y, x0, x1);
+		});
+	}
+}
+
+/**
+ * Clip the segment (x1, y1)-(x2, y2) to a rectangle with the Liang-Barsky
+ * algorithm. Points on the rectangle's edges count as inside.
+ * @returns Parameters [t0, t1] of the visible part along the segment, or
+ *   null if the segment misses the rectangle
+ */
+export function clipLine(
+	x1: number,
+	y1: number,
+	x2: number,
+	y2: number,
+	rect: Rect,
+): [number, number] | null {
+	const dx = x2 - x1;
+	const dy = y2 - y1;
+	let t0 = 0;
+	let t1 = 1;
+	// Each boundary as p * t <= q
+	const boundaries: [number, number][] = [
+		[-dx, x1 - rect.x],
+		[dx, rect.x + rect.width - x1],
+		[-dy, y1 - rect.y],
+		[dy, rect.y + rect.height - y1],
+	];
+	for (const [p, q] of boundaries) {
+		if (p === 0) {
+			if (q < 0) return null;
+			continue;
+		}
+		const t = q / p;
+		if (p < 0) {
+			if (t > t1) return null;
+			t0 = Math.max(t0, t);
+		} else {
+			if (t < t0) return null;
+			t1 = Math.min(t1, t);
+		}
+	}
+	return [t0, t1];
+}
@@ -1,14 +1,146 @@
+import {
+	createRgbaBuffer,
+	fillRgbaBuffer,
+	getSurfaceSize,
+	isRgbaBuffer,
+	readPixel,
+	writePixel,
+} from "./buffer";
 import {
 	BLACK,
-	bgTruecolor,
-	colorsEqual,
-	fgTruecolor,
+	bgColor,
+	blendColors,
+	blendWithMode,
+	clampByte,
+	fgColor,
 	interpolateColor,
 	resetColors,
+	rgb,
 } from "./colors";
+import { attachDepthBuffer, clearDepthBuffer, getDepthBuffer, testAndWriteDepth } from "./depth";
+import type { EncodedFrame, FrameEncoder } from "./encoder";
+import { FONT_5X7, getGlyph, measureLine, measureText } from "./font";
+import { sampleGradient } from "./gradient";
+import { encodeKitty, encodeSixel, type KittyOptions, type SixelOptions } from "./graphics";
 import { mapPixelsToCells } from "./mapper";
-import type { Cell, Color, Grid, LineStyle, PixelBuffer, RenderOptions } from "./types";
-import { ColorMode, DEFAULT_OPTIONS, SymbolSet } from "./types";
+import { clipLine, flattenArc, flattenBezier, scanPolygon } from "./path";
+import { outlineStroke } from "./stroke";
+import { getSymbolSetDefinition } from "./symbols";
+import {
+	applyTransform,
+	IDENTITY_TRANSFORM,
+	intersectRects,
+	isIdentityTransform,
+	multiplyTransform,
+	transformRect,
+} from "./transform";
+import type {
+	Cell,
+	Color,
+	DepthBuffer,
+	DepthBufferOptions,
+	Grid,
+	LineStyle,
+	PixelBuffer,
+	PixelSurface,
+	Rect,
+	RenderOptions,
+	RgbaBuffer,
+	SymbolSetName,
+	TextOptions,
+	Transform,
+	TriangleColors,
+	TriangleOptions,
+	Vertex,
+} from "./types";
+import {
+	BlendMode,
+	BufferFormat,
+	ColorMode,
+	DEFAULT_OPTIONS,
+	DepthTest,
+	FillRule,
+	LineCap,
+	LineJoin,
+	SymbolSet,
+	TextAlign,
+} from "./types";
+
+/**
+ * Sub-pixel grid that triangle vertices and line endpoints are snapped to. Snapping to a
+ * power-of-two grid keeps edge function values exact, so the top-left
+ * rule decides shared edges consistently.
+ */
+const SUBPIXEL_STEPS = 16;
+
+/**
+ * Largest circle radius drawn with the midpoint algorithm, whose cost
+ * grows with the radius; larger circles are flattened like ellipses
+ */
+const MAX_MIDPOINT_RADIUS = 4096;
+
+/**
+ * Snap a coordinate to the sub-pixel grid
+ */
+function snapSubpixel(value: number): number {
+	return Math.round(value * SUBPIXEL_STEPS) / SUBPIXEL_STEPS;
+}
+
+/**
+ * Round to the nearest integer, breaking ties towards the start of a line
+ * that runs in the given direction, as Bresenham's algorithm does
+ */
+function roundTowardStart(value: number, direction: number): number {
+	return direction >= 0 ? Math.ceil(value - 0.5) : Math.floor(value + 0.5);
+}
+
+/**
+ * Edge function: twice the signed area of triangle (a, b, p).
+ * Positive when p lies to the right of a→b in y-down screen space.
+ */
+function edgeFunction(ax: number, ay: number, bx: number, by: number, px: number, py: number) {
+	return (bx - ax) * (py - ay) - (by - ay) * (px - ax);
+}
+
+/**
+ * Whether edge a→b of a positively wound triangle is a top or left edge.
+ * Pixels centered exactly on such edges are filled; on other edges they are not.
+ */
+function isTopLeftEdge(ax: number, ay: number, bx: number, by: number): boolean {
+	return (ay === by && bx > ax) || by < ay;
+}
+
+/**
+ * Depth range of a line being rasterized against a depth buffer
+ */
+interface LineDepth {
+	buffer: DepthBuffer;
+	z1: number;
+	z2: number;
+}
+
+/**
+ * Position of one segment within a longer stroke, so that the dash pattern
+ * and gradient continue across the segments of a path
+ */
+interface StrokeProgress {
+	/** Length of the previous segments, for the dash pattern and gradient */
+	distance: number;
+	/** Total length of the path, over which the gradient runs */
+	length: number;
+}
+
+/**
+ * Transform, clip and blend mode applied to drawing, saved and restored as a unit
+ */
+interface DrawState {
+	transform: Transform;
+	/** Whether the transform is the identity, to skip transforming points */
+	identity: boolean;
+	/** Clip rectangle in buffer pixels, or null to draw anywhere */
+	clip: Rect | null;
+	blendMode: BlendMode;
+}
 
 /**
  * ASCII/Unicode pixel renderer
@@ -16,6 +148,15 @@ import { ColorMode, DEFAULT_OPTIONS, SymbolSet } from "./types";
  */
 export class AsciiRenderer {
 	private options: Required<RenderOptions>;
+	private state: DrawState = {
+		transform: { ...IDENTITY_TRANSFORM },
+		identity: true,
+		clip: null,
+		blendMode: BlendMode.REPLACE,
+	};
+	private savedStates: DrawState[] = [];
+	/** Pixels blended by the shape being drawn, so overlapping parts of it blend once */
+	private shapePixels: Set<number> | null = null;
 
 	constructor(options: Partial<RenderOptions> = {}) {
 		this.options = { ...DEFAULT_OPTIONS, ...options };
@@ -36,9 +177,12 @@ export class AsciiRenderer {
 	}
 
 	/**
-	 * Set the symbol set for rendering
+	 * Set the symbol set for rendering: a built-in one or one added with
+	 * registerSymbolSet
+	 * @throws {Error} If no symbol set of that name is registered
 	 */
-	setSymbolSet(symbolSet: SymbolSet): void {
+	setSymbolSet(symbolSet: SymbolSetName): void {
+		getSymbolSetDefinition(symbolSet);
 		this.options.symbolSet = symbolSet;
 	}
 
@@ -49,44 +193,200 @@ export class AsciiRenderer {
 		this.options.colorMode = colorMode;
 	}
 
+	/**
+	 * Push the current transform, clip rectangle and blend mode onto a stack
+	 */
+	save(): void {
+		this.savedStates.push({ ...this.state, transform: { ...this.state.transform } });
+	}
+
+	/**
+	 * Pop the transform, clip rectangle and blend mode pushed by the last save().
+	 * Does nothing if the stack is empty.
+	 */
+	restore(): void {
+		const state = this.savedStates.pop();
+		if (state) this.state = state;
+	}
+
+	/**
+	 * Get the current transform from drawing coordinates to buffer pixels
+	 */
+	getTransform(): Transform {
+		return { ...this.state.transform };
+	}
+
+	/**
+	 * Replace the current transform
+	 */
+	setTransform(transform: Transform): void {
+		this.state.transform = { ...transform };
+		this.state.identity = isIdentityTransform(transform);
+	}
+
+	/**
+	 * Reset the current transform to the identity
+	 */
+	resetTransform(): void {
+		this.setTransform(IDENTITY_TRANSFORM);
+	}
+
+	/**
+	 * Apply a transform before the current one, like canvas transform()
+	 */
+	transform(transform: Transform): void {
+		this.setTransform(multiplyTransform(this.state.transform, transform));
+	}
+
+	/**
+	 * Move the origin of subsequent drawing
+	 */
+	translate(x: number, y: number): void {
+		this.transform({ a: 1, b: 0, c: 0, d: 1, e: x, f: y });
+	}
+
+	/**
+	 * Scale subsequent drawing around the origin
+	 * @param sy Vertical factor (default: same as sx)
+	 */
+	scale(sx: number, sy = sx): void {
+		this.transform({ a: sx, b: 0, c: 0, d: sy, e: 0, f: 0 });
+	}
+
+	/**
+	 * Rotate subsequent drawing around the origin
+	 * @param angle Radians; positive angles turn clockwise on screen (y points down)
+	 */
+	rotate(angle: number): void {
+		const cos = Math.cos(angle);
+		const sin = Math.sin(angle);
+		this.transform({ a: cos, b: sin, c: -sin, d: cos, e: 0, f: 0 });
+	}
+
+	/**
+	 * Restrict drawing to a rectangle, intersected with the current clip.
+	 * The rectangle is given in drawing coordinates; under a rotation its
+	 * bounding box is used. Pixels are inside when their centers are.
+	 */
+	clipRect(x: number, y: number, width: number, height: number): void {
+		const area = transformRect(this.state.transform, { x, y, width, height });
+		const left = Math.round(area.x);
+		const top = Math.round(area.y);
+		const pixels = {
+			x: left,
+			y: top,
+			width: Math.round(area.x + area.width) - left,
+			height: Math.round(area.y + area.height) - top,
+		};
+		this.state.clip = this.state.clip ? intersectRects(this.state.clip, pixels) : pixels;
+	}
+
+	/**
+	 * Get the current clip rectangle in buffer pixels, or null if unclipped
+	 */
+	getClipRect(): Rect | null {
+		return this.state.clip ? { ...this.state.clip } : null;
+	}
+
+	/**
+	 * Set how draw calls combine colors with the buffer (default: REPLACE).
+	 * Anti-aliased strokes in REPLACE mode keep storing coverage in alpha.
+	 */
+	setBlendMode(mode: BlendMode): void {
+		this.state.blendMode = mode;
+	}
+
+	/**
+	 * Get the current blend mode
+	 */
+	getBlendMode(): BlendMode {
+		return this.state.blendMode;
+	}
+
 	/**
 	 * Render a pixel buffer to a string
-	 * @param pixels 2D array of colors representing the image
+	 * @param pixels 2D array of colors or packed RGBA buffer representing the image
 	 * @param options Optional override options for this render
 	 * @returns ANSI-colored string representation
 	 */
-	render(pixels: PixelBuffer, options?: Partial<RenderOptions>): string {
+	render(pixels: PixelSurface, options?: Partial<RenderOptions>): string {
 		const opts = { ...this.options, ...options };
-		const grid = mapPixelsToCells(pixels, opts.symbolSet, opts.threshold);
-		return this.gridToString(grid, opts);
+		const grid = mapPixelsToCells(pixels, opts.symbolSet, opts.threshold, opts);
+		return this.gridToAnsi(grid, opts);
+	}
+
+	/**
+	 * Map a pixel buffer to a grid of cells without encoding it, e.g. to
+	 * combine it with other layers in a Compositor
+	 * @param options Optional override options for this render
+	 */
+	renderToGrid(pixels: PixelSurface, options?: Partial<RenderOptions>): Grid {
+		const opts = { ...this.options, ...options };
+		return mapPixelsToCells(pixels, opts.symbolSet, opts.threshold, opts);
+	}
+
+	/**
+	 * Render a pixel buffer as an incremental update: only the cells that
+	 * changed since the encoder's previous frame are written
+	 * @param encoder Encoder holding the previous frame for this output
+	 * @param options Optional override options for this render
+	 */
+	renderIncremental(
+		pixels: PixelSurface,
+		encoder: FrameEncoder,
+		options?: Partial<RenderOptions>,
+	): EncodedFrame {
+		const opts = { ...this.options, ...options };
+		const grid = mapPixelsToCells(pixels, opts.symbolSet, opts.threshold, opts);
+		return encoder.encode(grid, opts.colorMode);
+	}
+
+	/**
+	 * Render a pixel buffer as a Sixel image at full pixel resolution
+	 * @param options Palette options for this render
+	 */
+	renderSixel(pixels: PixelSurface, options?: SixelOptions): string {
+		return encodeSixel(pixels, options);
+	}
+
+	/**
+	 * Render a pixel buffer as a Kitty graphics protocol image at full pixel resolution
+	 * @param options Payload format, image id and placement options
+	 */
+	renderKitty(pixels: PixelSurface, options?: KittyOptions): string {
+		return encodeKitty(pixels, options);
 	}
 
 	/**
 	 * Convert a grid of cells to an ANSI string
+	 * @param options Optional override options; only the color mode is used
 	 */
-	private gridToString(grid: Grid, options: Required<RenderOptions>): string {
+	gridToAnsi(grid: Grid, options?: Partial<RenderOptions>): string {
 		if (grid.length === 0) return "";
 
+		const colorMode = options?.colorMode ?? this.options.colorMode;
+		const useColor = colorMode !== ColorMode.NONE;
 		const lines: string[] = [];
 
 		for (const row of grid) {
 			let line = "";
-			let lastFg: Color | null = null;
-			let lastBg: Color | null = null;
+			let lastFg: string | null = null;
+			let lastBg: string | null = null;
 
 			for (const cell of row) {
-				// Apply colors if they changed
-				if (options.colorMode === ColorMode.TRUECOLOR) {
-					// Check if foreground changed
-					if (!lastFg || !colorsEqual(lastFg, cell.fg)) {
-						line += fgTruecolor(cell.fg);
-						lastFg = cell.fg;
+				// Apply colors if their escape codes changed; in palette modes
+				// neighbouring colors often quantize to the same code
+				if (useColor) {
+					const fg = fgColor(cell.fg, colorMode);
+					if (fg !== lastFg) {
+						line += fg;
+						lastFg = fg;
 					}
 
-					// Check if background changed
-					if (!lastBg || !colorsEqual(lastBg, cell.bg)) {
-						line += bgTruecolor(cell.bg);
-						lastBg = cell.bg;
+					const bg = bgColor(cell.bg, colorMode);
+					if (bg !== lastBg) {
+						line += bg;
+						lastBg = bg;
 					}
 				}
 
@@ -94,7 +394,7 @@ export class AsciiRenderer {
 			}
 
 			// Reset colors at end of line
-			if (options.colorMode === ColorMode.TRUECOLOR) {
+			if (useColor) {
 				line += resetColors();
 			}
 
@@ -106,9 +406,31 @@ export class AsciiRenderer {
 
 	/**
 	 * Create an empty pixel buffer
+	 * @param format Storage layout; nested `Color[][]` arrays unless RGBA is requested
 	 * @throws {Error} If width or height are not positive
 	 */
-	createBuffer(width: number, height: number, fillColor?: Color): PixelBuffer {
+	createBuffer(width: number, height: number, fillColor?: Color): PixelBuffer;
+	createBuffer(
+		width: number,
+		height: number,
+		fillColor: Color | undefined,
+		format: BufferFormat.RGBA,
+	): RgbaBuffer;
+	createBuffer(
+		width: number,
+		height: number,
+		fillColor?: Color,
+		format?: BufferFormat,
+	): PixelSurface;
+	createBuffer(
+		width: number,
+		height: number,
+		fillColor?: Color,
+		format: BufferFormat = BufferFormat.ARRAY,
+	): PixelSurface {
+		if (format === BufferFormat.RGBA) {
+			return createRgbaBuffer(width, height, fillColor);
+		}
 		if (width <= 0 || height <= 0) {
 			throw new Error(`Buffer dimensions must be positive: ${width}x${height}`);
 		}
@@ -119,43 +441,292 @@ export class AsciiRenderer {
 	}
 
 	/**
-	 * Draw a pixel on the buffer
+	 * Draw a pixel on the buffer, through the current transform and clip.
+	 * The pixel is the unit square at (x, y): fractional coordinates draw
+	 * the pixel whose center it covers, and scaling draws larger pixels.
 	 */
-	setPixel(buffer: PixelBuffer, x: number, y: number, color: Color): void {
-		if (y >= 0 && y < buffer.length) {
-			const row = buffer[y];
-			if (row && x >= 0 && x < row.length) {
-				row[x] = color;
-			}
+	setPixel(buffer: PixelSurface, x: number, y: number, color: Color): void {
+		if (this.state.identity && Number.isInteger(x) && Number.isInteger(y)) {
+			this.putPixel(buffer, x, y, color);
+		} else {
+			this.fillPixelRect(buffer, x, y, 1, 1, color);
 		}
 	}
 
 	/**
-	 * Get a pixel from the buffer
+	 * Write a buffer pixel if it lies inside the clip rectangle
 	 */
-	getPixel(buffer: PixelBuffer, x: number, y: number): Color | null {
-		if (y >= 0 && y < buffer.length) {
-			const row = buffer[y];
-			if (row && x >= 0 && x < row.length) {
-				return row[x] ?? null;
+	private putPixel(buffer: PixelSurface, x: number, y: number, color: Color): void {
+		if (this.isClipped(x, y)) return;
+		this.blendPixel(buffer, x, y, color);
+	}
+
+	/**
+	 * Whether a buffer pixel lies outside the clip rectangle
+	 */
+	private isClipped(x: number, y: number): boolean {
+		const clip = this.state.clip;
+		return (
+			clip !== null &&
+			(x < clip.x || y < clip.y || x >= clip.x + clip.width || y >= clip.y + clip.height)
+		);
+	}
+
+	/**
+	 * Write a buffer pixel with the current blend mode
+	 */
+	private blendPixel(buffer: PixelSurface, x: number, y: number, color: Color): void {
+		const mode = this.state.blendMode;
+		if (mode === BlendMode.REPLACE) {
+			writePixel(buffer, x, y, color);
+			return;
+		}
+		const existing = readPixel(buffer, x, y);
+		if (!existing) return;
+		if (this.shapePixels) {
+			const key = y * getSurfaceSize(buffer).width + x;
+			if (this.shapePixels.has(key)) return;
+			this.shapePixels.add(key);
+		}
+		writePixel(buffer, x, y, blendWithMode(color, existing, mode));
+	}
+
+	/**
+	 * Draw a shape whose parts may overlap, such as the segments of a path.
+	 * When blending, each pixel of the shape is blended only once, so
+	 * translucent shapes have a uniform color.
+	 */
+	private drawShape(draw: () => void): void {
+		if (this.state.blendMode === BlendMode.REPLACE || this.shapePixels) {
+			draw();
+			return;
+		}
+		this.shapePixels = new Set();
+		try {
+			draw();
+		} finally {
+			this.shapePixels = null;
+		}
+	}
+
+	/**
+	 * Buffer pixels that drawing may touch: the buffer clipped to the clip rectangle
+	 */
+	private visibleBounds(buffer: PixelSurface): Rect {
+		const { width, height } = getSurfaceSize(buffer);
+		const bounds = { x: 0, y: 0, width, height };
+		return this.state.clip ? intersectRects(this.state.clip, bounds) : bounds;
+	}
+
+	/**
+	 * Whether an ellipse in drawing coordinates, widened by a stroke of the
+	 * given thickness, can reach a visible pixel. Checked before flattening,
+	 * so geometry far off screen costs nothing.
+	 */
+	private canReachView(
+		buffer: PixelSurface,
+		cx: number,
+		cy: number,
+		rx: number,
+		ry: number,
+		thickness = 1,
+	): boolean {
+		const box = transformRect(this.state.transform, {
+			x: cx - rx,
+			y: cy - ry,
+			width: 2 * rx,
+			height: 2 * ry,
+		});
+		const bounds = this.visibleBounds(buffer);
+		const margin = Math.ceil(thickness / 2) + 1;
+		// Comparisons with NaN are false, so non-finite ellipses are skipped
+		return (
+			box.x - margin < bounds.x + bounds.width &&
+			box.x + box.width + margin > bounds.x &&
+			box.y - margin < bounds.y + bounds.height &&
+			box.y + box.height + margin > bounds.y
+		);
+	}
+
+	/**
+	 * Map a point from drawing coordinates to buffer pixels
+	 */
+	private toBuffer<V extends Vertex>(point: V): V {
+		return this.state.identity ? point : applyTransform(this.state.transform, point);
+	}
+
+	/**
+	 * Visit the visible buffer pixels whose centers lie in a rectangle given
+	 * in drawing coordinates. For an integer rectangle without a transform
+	 * these are the pixels x..x+width-1 and y..y+height-1.
+	 */
+	private forEachPixelIn(
+		buffer: PixelSurface,
+		x: number,
+		y: number,
+		width: number,
+		height: number,
+		visit: (px: number, py: number) => void,
+	): void {
+		const bounds = this.visibleBounds(buffer);
+		const right = bounds.x + bounds.width;
+		const bottom = bounds.y + bounds.height;
+		if (this.state.identity) {
+			// Pixel p is covered when p + 0.5 lies in [x, x + width)
+			const top = Math.max(Math.ceil(y - 0.5), bounds.y);
+			const left = Math.max(Math.ceil(x - 0.5), bounds.x);
+			const lastY = Math.min(Math.ceil(y + height - 0.5), bottom);
+			const lastX = Math.min(Math.ceil(x + width - 0.5), right);
+			for (let py = top; py < lastY; py++) {
+				for (let px = left; px < lastX; px++) {
+					visit(px, py);
+				}
 			}
+			return;
 		}
-		return null;
+		const corners = [
+			{ x, y },
+			{ x: x + width, y },
+			{ x: x + width, y: y + height },
+			{ x, y: y + height },
+		].map((p) => this.toBuffer(p));
+		scanPolygon(corners, FillRule.NONZERO, bottom, (py, x0, x1) => {
+			if (py < bounds.y) return;
+			for (let px = Math.max(x0, bounds.x); px <= Math.min(x1, right - 1); px++) {
+				visit(px, py);
+			}
+		});
+	}
+
+	/**
+	 * Fill a rectangle given in drawing coordinates
+	 */
+	private fillPixelRect(
+		buffer: PixelSurface,
+		x: number,
+		y: number,
+		width: number,
+		height: number,
+		color: Color,
+	): void {
+		this.forEachPixelIn(buffer, x, y, width, height, (px, py) => {
+			this.blendPixel(buffer, px, py, color);
+		});
 	}
 
 	/**
-	 * Draw a line using Bresenham's algorithm
+	 * Attach a depth buffer to a pixel buffer, enabling the depth-tested
+	 * draw calls and making clear() reset depth as well
+	 */
+	attachDepthBuffer(buffer: PixelSurface, options?: DepthBufferOptions): DepthBuffer {
+		return attachDepthBuffer(buffer, options);
+	}
+
+	/**
+	 * Get the depth buffer attached to a pixel buffer, if any
+	 */
+	getDepthBuffer(buffer: PixelSurface): DepthBuffer | undefined {
+		return getDepthBuffer(buffer);
+	}
+
+	/**
+	 * Draw a pixel only if it passes the depth test.
+	 * Without an attached depth buffer this behaves like setPixel.
+	 * @returns Whether the pixel was written
+	 */
+	setPixelDepth(buffer: PixelSurface, x: number, y: number, z: number, color: Color): boolean {
+		const depth = getDepthBuffer(buffer);
+		let written = false;
+		this.forEachPixelIn(buffer, x, y, 1, 1, (px, py) => {
+			if (depth && !testAndWriteDepth(depth, px, py, z)) return;
+			this.blendPixel(buffer, px, py, color);
+			written = true;
+		});
+		return written;
+	}
+
+	/**
+	 * Get a pixel from the buffer.
+	 * Packed buffers return a fresh Color; nested arrays return the stored object.
+	 */
+	getPixel(buffer: PixelSurface, x: number, y: number): Color | null {
+		return readPixel(buffer, x, y);
+	}
+
+	/**
+	 * Draw a line. Endpoints may be fractional; integer endpoints give the
+	 * same pixels as Bresenham's algorithm.
 	 * @returns The modified buffer (same reference)
 	 */
-	drawLine(
-		buffer: PixelBuffer,
+	drawLine<T extends PixelSurface>(
+		buffer: T,
 		x1: number,
 		y1: number,
 		x2: number,
 		y2: number,
 		color: Color,
 		style?: LineStyle,
-	): PixelBuffer {
+	): T {
+		const a = this.toBuffer({ x: x1, y: y1 });
+		const b = this.toBuffer({ x: x2, y: y2 });
+		this.strokeLine(buffer, a.x, a.y, b.x, b.y, color, style, null);
+		return buffer;
+	}
+
+	/**
+	 * Draw a depth-tested line. Depth is interpolated linearly in screen space
+	 * from z1 to z2, so pass -1/z (smaller is closer) or NDC depth for
+	 * perspective-correct results.
+	 * Without an attached depth buffer this behaves like drawLine.
+	 * @returns The modified buffer (same reference)
+	 */
+	drawLineDepth<T extends PixelSurface>(
+		buffer: T,
+		x1: number,
+		y1: number,
+		z1: number,
+		x2: number,
+		y2: number,
+		z2: number,
+		color: Color,
+		style?: LineStyle,
+	): T {
+		const depth = getDepthBuffer(buffer);
+		const a = this.toBuffer({ x: x1, y: y1 });
+		const b = this.toBuffer({ x: x2, y: y2 });
+		this.strokeLine(
+			buffer,
+			a.x,
+			a.y,
+			b.x,
+			b.y,
+			color,
+			style,
+			depth ? { buffer: depth, z1, z2 } : null,
+		);
+		return buffer;
+	}
+
+	/**
+	 * Rasterize a line, applying dash pattern, gradient, thickness and the
+	 * optional depth test. Endpoints may be fractional: each pixel along the
+	 * major axis takes the minor-axis pixel nearest the true line at its
+	 * center, which for integer endpoints are exactly Bresenham's pixels.
+	 * Thicker lines that are not anti-aliased are filled as quads instead.
+	 * Dashes are measured in arc length, so they keep their length at any angle.
+	 * @param progress Position within a path; a lone line starts its own pattern
+	 */
+	private strokeLine(
+		buffer: PixelSurface,
+		x1: number,
+		y1: number,
+		x2: number,
+		y2: number,
+		color: Color,
+		style: LineStyle | undefined,
+		depth: LineDepth | null,
+		progress: StrokeProgress | null = null,
+	): void {
 		// Guard against NaN/Infinity which would cause infinite loops
 		if (
 			!Number.isFinite(x1) ||
@@ -163,174 +734,664 @@ export class AsciiRenderer {
 			!Number.isFinite(x2) ||
 			!Number.isFinite(y2)
 		) {
-			return buffer;
+			return;
 		}
 
-		const dx = Math.abs(x2 - x1);
-		const dy = Math.abs(y2 - y1);
-		const sx = x1 < x2 ? 1 : -1;
-		const sy = y1 < y2 ? 1 : -1;
-		let err = dx - dy;
-
-		let x = x1;
-		let y = y1;
-		let step = 0;
-
-		// Calculate line length for gradient
-		const lineLength = Math.sqrt((x2 - x1) ** 2 + (y2 - y1) ** 2);
-
-		// Determine line orientation for thickness direction
-		const isSteep = dy > dx;
-
-		while (true) {
-			// Check dash pattern
-			const pattern = style?.pattern;
-			const shouldDraw = !pattern || pattern[step % pattern.length] === 1;
-
-			if (shouldDraw) {
-				// Calculate color with gradient if specified
-				let drawColor = color;
-				if (style?.startColor && style?.endColor) {
-					const t = lineLength > 0 ? step / lineLength : 0;
-					drawColor = interpolateColor(style.startColor, style.endColor, t);
-				}
+		// Snapping keeps float noise from moving an endpoint off a pixel center
+		const ax = snapSubpixel(x1);
+		const ay = snapSubpixel(y1);
+		const bx = snapSubpixel(x2);
+		const by = snapSubpixel(y2);
+		const antialias = style?.antialias ?? false;
+		const thickness = style?.thickness ?? 1;
+		if (style && thickness > 1 && !antialias) {
+			const points = [
+				{ x: ax, y: ay },
+				{ x: bx, y: by },
+			];
+			this.strokeThick(buffer, points, false, color, style, depth);
+			return;
+		}
+		// The band is measured along the minor axis, so thick bands are widened
+		// by the slope to keep the thickness perpendicular to the line. Thin
+		// lines keep Wu's coverage of one pixel per step.
+		const segmentLength = Math.hypot(bx - ax, by - ay);
+		const slope = segmentLength / (Math.max(Math.abs(bx - ax), Math.abs(by - ay)) || 1);
+		const halfWidth = (thickness / 2) * (thickness > 1 ? slope : 1);
+		const pattern = style?.pattern;
+		const start = progress?.distance ?? 0;
+		const depthBuffer = depth?.buffer ?? null;
+		const isSteep = Math.abs(by - ay) > Math.abs(bx - ax);
+		// Minor-axis direction, so ties round towards the start like Bresenham
+		const minorDirection = isSteep ? bx - ax : by - ay;
 
-				// Draw with thickness perpendicular to line direction
-				const thickness = style?.thickness ?? 1;
-				if (thickness > 1) {
-					// For steep lines (mostly vertical), thicken horizontally
-					// For shallow lines (mostly horizontal), thicken vertically
-					this.drawThickPixelPerpendicular(buffer, x, y, drawColor, thickness, isSteep);
-				} else {
-					this.setPixel(buffer, x, y, drawColor);
+		this.walkLine(buffer, ax, ay, bx, by, thickness, (px, py, t) => {
+			// Entry k of the pattern covers arc length [k - 0.5, k + 0.5), as for thick strokes
+			const distance = start + t * segmentLength;
+			if (pattern && pattern[Math.floor(distance + 0.5) % pattern.length] !== 1) return;
+
+			let along = t;
+			if (progress) {
+				along = progress.length > 0 ? distance / progress.length : 0;
+			}
+			const drawColor = this.strokeColor(style, color, along);
+			const z = depth ? depth.z1 + (depth.z2 - depth.z1) * t : 0;
+			const major = isSteep ? py : px;
+			const center = isSteep ? px : py;
+
+			if (antialias) {
+				// Xiaolin Wu's algorithm generalized to any thickness: the step
+				// covers [center - halfWidth, center + halfWidth] on the minor
+				// axis, and pixel k receives the part of [k - 0.5, k + 0.5] inside
+				const first = Math.round(center - halfWidth);
+				const last = Math.round(center + halfWidth);
+				for (let k = first; k <= last; k++) {
+					const coverage =
+						Math.min(k + 0.5, center + halfWidth) - Math.max(k - 0.5, center - halfWidth);
+					if (coverage <= 0) continue;
+					const x = isSteep ? k : major;
+					const y = isSteep ? major : k;
+					this.plotCoverage(buffer, x, y, drawColor, Math.min(1, coverage), depthBuffer, z);
 				}
+				return;
 			}
 
-			if (x === x2 && y === y2) break;
+			const minor = roundTowardStart(center, minorDirection);
+			this.plot(
+				buffer,
+				isSteep ? minor : major,
+				isSteep ? major : minor,
+				drawColor,
+				depthBuffer,
+				z,
+			);
+		});
+	}
 
-			const e2 = 2 * err;
-			if (e2 > -dy) {
-				err -= dy;
-				x += sx;
-			}
-			if (e2 < dx) {
-				err += dx;
-				y += sy;
+	/**
+	 * Step along a segment one pixel at a time on its major axis, visiting
+	 * the pixels whose centers lie within the segment's extent on that axis.
+	 * Consecutive segments of a path share the joint pixel when the joint
+	 * lies on a pixel center and otherwise meet without overlapping. A
+	 * segment too short to contain a pixel center visits the pixel nearest
+	 * its start. Only steps that can reach visible pixels are visited.
+	 * @param visit Called with the point on the segment at the pixel center
+	 *   and the point's parameter t along the segment
+	 */
+	private walkLine(
+		buffer: PixelSurface,
+		x1: number,
+		y1: number,
+		x2: number,
+		y2: number,
+		thickness: number,
+		visit: (x: number, y: number, t: number) => void,
+	): void {
+		const isSteep = Math.abs(y2 - y1) > Math.abs(x2 - x1);
+		const [start, end, minorStart, minorEnd] = isSteep ? [y1, y2, x1, x2] : [x1, x2, y1, y2];
+		const direction = end < start ? -1 : 1;
+		const firstPixel = direction > 0 ? Math.ceil(start) : Math.floor(start);
+		const lastPixel = direction > 0 ? Math.floor(end) : Math.ceil(end);
+		if ((lastPixel - firstPixel) * direction < 0) {
+			if (this.clipSegment(buffer, x1, y1, x1, y1, thickness)) {
+				visit(
+					isSteep ? minorStart : Math.round(start),
+					isSteep ? Math.round(start) : minorStart,
+					0,
+				);
 			}
-			step++;
+			return;
 		}
+		const totalSteps = (lastPixel - firstPixel) * direction;
 
-		return buffer;
+		const clipped = this.clipSegment(buffer, x1, y1, x2, y2, thickness);
+		if (!clipped) return;
+		const stepAt = (t: number) => (start + (end - start) * t - firstPixel) * direction;
+		const firstStep = Math.max(0, Math.floor(stepAt(clipped[0])));
+		const lastStep = Math.min(totalSteps, Math.ceil(stepAt(clipped[1])));
+
+		for (let step = firstStep; step <= lastStep; step++) {
+			const major = firstPixel + direction * step;
+			const t = end === start ? 0 : (major - start) / (end - start);
+			// Multiply before dividing so integer endpoints give exact halves
+			const minor =
+				end === start
+					? minorStart
+					: minorStart + ((major - start) * (minorEnd - minorStart)) / (end - start);
+			visit(isSteep ? minor : major, isSteep ? major : minor, t);
+		}
 	}
 
 	/**
-	 * Draw a pixel with thickness perpendicular to the line direction
-	 * This ensures gaps in dashed lines are not filled by adjacent pixels
+	 * Clip a device-space segment to the visible pixels, widened by the
+	 * line thickness so thick strokes keep their edges
+	 * @returns Parameters [t0, t1] of the part to rasterize, or null if none
 	 */
-	private drawThickPixelPerpendicular(
-		buffer: PixelBuffer,
+	private clipSegment(
+		buffer: PixelSurface,
+		x1: number,
+		y1: number,
+		x2: number,
+		y2: number,
+		thickness: number,
+	): [number, number] | null {
+		const bounds = this.visibleBounds(buffer);
+		const margin = Math.ceil(thickness / 2) + 1;
+		return clipLine(x1, y1, x2, y2, {
+			x: bounds.x - margin,
+			y: bounds.y - margin,
+			width: bounds.width - 1 + 2 * margin,
+			height: bounds.height - 1 + 2 * margin,
+		});
+	}
+
+	/**
+	 * Write a partially covered pixel. In REPLACE mode the coverage is
+	 * stored in alpha: coverage left by an earlier anti-aliased stroke is
+	 * combined with the new one, and any other pixel is replaced. Other
+	 * blend modes blend the ink by its coverage.
+	 */
+	private plotCoverage(
+		buffer: PixelSurface,
 		x: number,
 		y: number,
 		color: Color,
-		thickness: number,
-		isSteep: boolean,
+		coverage: number,
+		depth: DepthBuffer | null,
+		z: number,
 	): void {
-		if (isSteep) {
-			// Line is mostly vertical, thicken horizontally (x direction)
-			const start = x - Math.floor(thickness / 2);
-			for (let dx = 0; dx < thickness; dx++) {
-				this.setPixel(buffer, start + dx, y, color);
-			}
+		const alpha = coverage * ((color.a ?? 255) / 255);
+		if (alpha <= 0 || this.isClipped(x, y)) return;
+		// Clip before the depth test, so hidden pixels keep their depth
+		if (depth && !testAndWriteDepth(depth, x, y, z)) return;
+
+		const ink = { r: color.r, g: color.g, b: color.b, a: clampByte(alpha * 255) };
+		if (this.state.blendMode !== BlendMode.REPLACE) {
+			this.putPixel(buffer, x, y, ink);
+			return;
+		}
+		const existing = alpha < 1 ? this.getPixel(buffer, x, y) : null;
+		const existingAlpha = existing?.a ?? 255;
+		if (existing && existingAlpha > 0 && existingAlpha < 255) {
+			this.putPixel(buffer, x, y, blendColors(ink, existing));
 		} else {
-			// Line is mostly horizontal, thicken vertically (y direction)
-			const start = y - Math.floor(thickness / 2);
-			for (let dy = 0; dy < thickness; dy++) {
-				this.setPixel(buffer, x, start + dy, color);
-			}
+			this.putPixel(buffer, x, y, ink);
+		}
+	}
+
+	/**
+	 * Write a pixel, depth-testing it when a depth buffer is given
+	 */
+	private plot(
+		buffer: PixelSurface,
+		x: number,
+		y: number,
+		color: Color,
+		depth: DepthBuffer | null,
+		z: number,
+	): void {
+		if (this.isClipped(x, y)) return;
+		if (depth && !testAndWriteDepth(depth, x, y, z)) {
+			return;
 		}
+		this.blendPixel(buffer, x, y, color);
 	}
 
 	/**
 	 * Draw a rectangle
 	 */
-	drawRect(
-		buffer: PixelBuffer,
+	drawRect<T extends PixelSurface>(
+		buffer: T,
 		x: number,
 		y: number,
 		width: number,
 		height: number,
 		color: Color,
 		fill = false,
-	): PixelBuffer {
+	): T {
 		if (width <= 0 || height <= 0) return buffer;
 
 		if (fill) {
-			for (let dy = 0; dy < height; dy++) {
-				for (let dx = 0; dx < width; dx++) {
-					this.setPixel(buffer, x + dx, y + dy, color);
-				}
-			}
+			this.fillPixelRect(buffer, x, y, width, height, color);
 		} else {
-			// Draw outline
-			for (let dx = 0; dx < width; dx++) {
-				this.setPixel(buffer, x + dx, y, color);
-				this.setPixel(buffer, x + dx, y + height - 1, color);
-			}
-			for (let dy = 0; dy < height; dy++) {
-				this.setPixel(buffer, x, y + dy, color);
-				this.setPixel(buffer, x + width - 1, y + dy, color);
-			}
+			// Draw outline as one-pixel strips
+			this.drawShape(() => {
+				this.fillPixelRect(buffer, x, y, width, 1, color);
+				this.fillPixelRect(buffer, x, y + height - 1, width, 1, color);
+				this.fillPixelRect(buffer, x, y, 1, height, color);
+				this.fillPixelRect(buffer, x + width - 1, y, 1, height, color);
+			});
 		}
 		return buffer;
 	}
 
 	/**
-	 * Draw a circle using midpoint algorithm
+	 * Draw a circle using midpoint algorithm. Under a transform, with a
+	 * fractional center or radius, or with a huge radius, the circle is drawn
+	 * as a flattened ellipse instead.
 	 */
-	drawCircle(
-		buffer: PixelBuffer,
+	drawCircle<T extends PixelSurface>(
+		buffer: T,
 		cx: number,
 		cy: number,
 		radius: number,
 		color: Color,
 		fill = false,
-	): PixelBuffer {
-		if (radius < 0) return buffer;
-
-		let x = radius;
-		let y = 0;
-		let err = 0;
+	): T {
+		if (radius < 0 || !this.canReachView(buffer, cx, cy, radius + 0.5, radius + 0.5)) {
+			return buffer;
+		}
 
-		while (x >= y) {
+		const integral = Number.isInteger(cx) && Number.isInteger(cy) && Number.isInteger(radius);
+		if (!this.state.identity || !integral || radius > MAX_MIDPOINT_RADIUS) {
 			if (fill) {
-				// Draw horizontal lines for fill
-				for (let dx = -x; dx <= x; dx++) {
-					this.setPixel(buffer, cx + dx, cy + y, color);
-					this.setPixel(buffer, cx + dx, cy - y, color);
+				// Cover the same pixels as the midpoint fill: centers within radius + 0.5
+				const r = radius + 0.5;
+				this.fillPath(
+					buffer,
+					flattenArc(cx + 0.5, cy + 0.5, r, r, 0, 2 * Math.PI),
+					color,
+					FillRule.NONZERO,
+				);
+			} else {
+				this.strokePath(
+					buffer,
+					flattenArc(cx, cy, radius, radius, 0, 2 * Math.PI),
+					color,
+					undefined,
+					false,
+				);
+			}
+			return buffer;
+		}
+
+		// Symmetric spans and points overlap where octants meet
+		this.drawShape(() => {
+			let x = radius;
+			let y = 0;
+			let err = 0;
+
+			while (x >= y) {
+				if (fill) {
+					// Draw horizontal lines for fill
+					for (let dx = -x; dx <= x; dx++) {
+						this.putPixel(buffer, cx + dx, cy + y, color);
+						this.putPixel(buffer, cx + dx, cy - y, color);
+					}
+					for (let dx = -y; dx <= y; dx++) {
+						this.putPixel(buffer, cx + dx, cy + x, color);
+						this.putPixel(buffer, cx + dx, cy - x, color);
+					}
+				} else {
+					// Draw outline points
+					this.putPixel(buffer, cx + x, cy + y, color);
+					this.putPixel(buffer, cx + y, cy + x, color);
+					this.putPixel(buffer, cx - y, cy + x, color);
+					this.putPixel(buffer, cx - x, cy + y, color);
+					this.putPixel(buffer, cx - x, cy - y, color);
+					this.putPixel(buffer, cx - y, cy - x, color);
+					this.putPixel(buffer, cx + y, cy - x, color);
+					this.putPixel(buffer, cx + x, cy - y, color);
 				}
-				for (let dx = -y; dx <= y; dx++) {
-					this.setPixel(buffer, cx + dx, cy + x, color);
-					this.setPixel(buffer, cx + dx, cy - x, color);
+
+				if (err <= 0) {
+					y += 1;
+					err += 2 * y + 1;
+				}
+				if (err > 0) {
+					x -= 1;
+					err -= 2 * x + 1;
 				}
-			} else {
-				// Draw outline points
-				this.setPixel(buffer, cx + x, cy + y, color);
-				this.setPixel(buffer, cx + y, cy + x, color);
-				this.setPixel(buffer, cx - y, cy + x, color);
-				this.setPixel(buffer, cx - x, cy + y, color);
-				this.setPixel(buffer, cx - x, cy - y, color);
-				this.setPixel(buffer, cx - y, cy - x, color);
-				this.setPixel(buffer, cx + y, cy - x, color);
-				this.setPixel(buffer, cx + x, cy - y, color);
 			}
+		});
+		return buffer;
+	}
 
-			if (err <= 0) {
-				y += 1;
-				err += 2 * y + 1;
+	/**
+	 * Draw connected line segments through the points. The dash pattern and
+	 * gradient run continuously along the whole path.
+	 * @param closed Connect the last point back to the first
+	 * @returns The modified buffer (same reference)
+	 */
+	drawPolyline<T extends PixelSurface>(
+		buffer: T,
+		points: readonly Vertex[],
+		color: Color,
+		style?: LineStyle,
+		closed = false,
+	): T {
+		this.strokePath(buffer, points, color, style, closed);
+		return buffer;
+	}
+
+	/**
+	 * Draw a polygon outline, or fill it using a fill rule. A fill covers the
+	 * pixels whose centers lie inside the polygon; the line style only
+	 * applies to outlines.
+	 * @param fill Fill rule for self-intersecting polygons; omit to draw the outline
+	 * @returns The modified buffer (same reference)
+	 */
+	drawPolygon<T extends PixelSurface>(
+		buffer: T,
+		points: readonly Vertex[],
+		color: Color,
+		style?: LineStyle,
+		fill?: FillRule,
+	): T {
+		if (fill) {
+			this.fillPath(buffer, points, color, fill);
+		} else {
+			this.strokePath(buffer, points, color, style, true);
+		}
+		return buffer;
+	}
+
+	/**
+	 * Draw an axis-aligned ellipse
+	 * @param style Line style of the outline; ignored when filling
+	 * @returns The modified buffer (same reference)
+	 */
+	drawEllipse<T extends PixelSurface>(
+		buffer: T,
+		cx: number,
+		cy: number,
+		rx: number,
+		ry: number,
+		color: Color,
+		fill = false,
+		style?: LineStyle,
+	): T {
+		if (!(rx >= 0 && ry >= 0)) return buffer;
+		if (!this.canReachView(buffer, cx, cy, rx, ry, fill ? 1 : style?.thickness)) return buffer;
+
+		const points = flattenArc(cx, cy, rx, ry, 0, 2 * Math.PI);
+		if (fill) {
+			this.fillPath(buffer, points, color, FillRule.NONZERO);
+		} else {
+			this.strokePath(buffer, points, color, style, false);
+		}
+		return buffer;
+	}
+
+	/**
+	 * Draw an elliptical arc. Angles are in radians from the +x axis towards
+	 * +y, so positive sweeps run clockwise on screen; end < start sweeps back.
+	 * @returns The modified buffer (same reference)
+	 */
+	drawArc<T extends PixelSurface>(
+		buffer: T,
+		cx: number,
+		cy: number,
+		rx: number,
+		ry: number,
+		startAngle: number,
+		endAngle: number,
+		color: Color,
+		style?: LineStyle,
+	): T {
+		if (!(rx >= 0 && ry >= 0)) return buffer;
+		if (!this.canReachView(buffer, cx, cy, rx, ry, style?.thickness)) return buffer;
+		this.strokePath(buffer, flattenArc(cx, cy, rx, ry, startAngle, endAngle), color, style, false);
+		return buffer;
+	}
+
+	/**
+	 * Draw a quadratic (3 points) or cubic (4 points) Bezier curve, flattened
+	 * adaptively so curved parts get more segments than straight ones
+	 * @returns The modified buffer (same reference)
+	 */
+	drawBezier<T extends PixelSurface>(
+		buffer: T,
+		points: readonly [Vertex, Vertex, Vertex] | readonly [Vertex, Vertex, Vertex, Vertex],
+		color: Color,
+		style?: LineStyle,
+	): T {
+		if (points.some((p) => !Number.isFinite(p.x) || !Number.isFinite(p.y))) return buffer;
+		this.strokePath(buffer, flattenBezier(points), color, style, false);
+		return buffer;
+	}
+
+	/**
+	 * Stroke a path in drawing coordinates segment by segment, carrying the
+	 * dash pattern and gradient from one segment to the next
+	 */
+	private strokePath(
+		buffer: PixelSurface,
+		points: readonly Vertex[],
+		color: Color,
+		style: LineStyle | undefined,
+		closed: boolean,
+	): void {
+		const path = points
+			.map((p) => this.toBuffer(p))
+			.filter((p) => Number.isFinite(p.x) && Number.isFinite(p.y));
+		const first = path[0];
+		if (!first) return;
+		if (style && (style.thickness ?? 1) > 1 && !style.antialias) {
+			this.strokeThick(buffer, path, closed, color, style, null);
+			return;
+		}
+		if (closed && path.length > 2) path.push(first);
+		if (path.length === 1) path.push(first);
+
+		const length = path
+			.slice(1)
+			.reduce(
+				(sum, b, i) => sum + Math.hypot(b.x - (path[i] as Vertex).x, b.y - (path[i] as Vertex).y),
+				0,
+			);
+
+		let distance = 0;
+		this.drawShape(() => {
+			for (let i = 1; i < path.length; i++) {
+				const a = path[i - 1] as Vertex;
+				const b = path[i] as Vertex;
+				this.strokeLine(buffer, a.x, a.y, b.x, b.y, color, style, null, { distance, length });
+				distance += Math.hypot(b.x - a.x, b.y - a.y);
+			}
+		});
+	}
+
+	/**
+	 * Color of a stroke at fraction t of its length: its gradient, the
+	 * startColor-endColor blend, or the plain color
+	 */
+	private strokeColor(style: LineStyle | undefined, color: Color, t: number): Color {
+		if (style?.gradient) {
+			return sampleGradient(style.gradient, t);
+		}
+		if (style?.startColor && style.endColor) {
+			return interpolateColor(style.startColor, style.endColor, t);
+		}
+		return color;
+	}
+
+	/**
+	 * Fill the outline of a thick stroke given in buffer pixels. Every pixel
+	 * takes its gradient color and depth from the nearest point of the path.
+	 */
+	private strokeThick(
+		buffer: PixelSurface,
+		points: readonly Vertex[],
+		closed: boolean,
+		color: Color,
+		style: LineStyle,
+		depth: LineDepth | null,
+	): void {
+		const bounds = this.visibleBounds(buffer);
+		const { polygons, length } = outlineStroke(
+			points,
+			closed,
+			{
+				width: style.thickness ?? 1,
+				cap: style.cap ?? LineCap.BUTT,
+				join: style.join ?? LineJoin.MITER,
+				miterLimit: style.miterLimit ?? 10,
+				pattern: style.pattern,
+			},
+			bounds,
+		);
+		const depthBuffer = depth?.buffer ?? null;
+
+		this.drawShape(() => {
+			for (const polygon of polygons) {
+				// Stroke coordinates put pixel centers on integers, fills on halves
+				const area = polygon.points.map((p) => ({ x: p.x + 0.5, y: p.y + 0.5 }));
+				scanPolygon(area, FillRule.NONZERO, bounds.y + bounds.height, (y, x0, x1) => {
+					if (y < bounds.y) return;
+					const last = Math.min(bounds.x + bounds.width - 1, x1);
+					for (let x = Math.max(bounds.x, x0); x <= last; x++) {
+						const t = length > 0 ? polygon.distanceAt(x, y) / length : 0;
+						const drawColor = this.strokeColor(style, color, t);
+						const z = depth ? depth.z1 + (depth.z2 - depth.z1) * t : 0;
+						this.plot(buffer, x, y, drawColor, depthBuffer, z);
+					}
+				});
+			}
+		});
+	}
+
+	/**
+	 * Fill a closed path, given in drawing coordinates, with a solid color
+	 */
+	private fillPath(
+		buffer: PixelSurface,
+		points: readonly Vertex[],
+		color: Color,
+		rule: FillRule,
+	): void {
+		const bounds = this.visibleBounds(buffer);
+		const devicePoints = points.map((p) => this.toBuffer(p));
+		scanPolygon(devicePoints, rule, bounds.y + bounds.height, (y, x0, x1) => {
+			if (y < bounds.y) return;
+			for (let x = Math.max(bounds.x, x0); x <= Math.min(bounds.x + bounds.width - 1, x1); x++) {
+				this.blendPixel(buffer, x, y, color);
 			}
-			if (err > 0) {
-				x -= 1;
-				err -= 2 * x + 1;
+		});
+	}
+
+	/**
+	 * Draw a triangle outline
+	 */
+	drawTriangle<T extends PixelSurface>(
+		buffer: T,
+		v0: Vertex,
+		v1: Vertex,
+		v2: Vertex,
+		color: Color,
+		style?: LineStyle,
+	): T {
+		const points = [v0, v1, v2, v0];
+		this.drawShape(() => {
+			for (let i = 0; i < 3; i++) {
+				const a = points[i];
+				const b = points[i + 1];
+				if (a && b) {
+					this.drawLine(buffer, a.x, a.y, b.x, b.y, color, style);
+				}
+			}
+		});
+		return buffer;
+	}
+
+	/**
+	 * Fill a triangle using edge functions with the top-left fill rule.
+	 * A pixel is covered when its center lies inside the triangle, so
+	 * triangles sharing an edge never overlap or leave gaps.
+	 * @param color Flat color, or one color per vertex interpolated barycentrically
+	 * @returns The modified buffer (same reference)
+	 */
+	fillTriangle<T extends PixelSurface>(
+		buffer: T,
+		v0: Vertex,
+		v1: Vertex,
+		v2: Vertex,
+		color: Color | TriangleColors,
+		options: TriangleOptions = {},
+	): T {
+		for (const v of [v0, v1, v2]) {
+			if (!Number.isFinite(v.x) || !Number.isFinite(v.y)) {
+				return buffer;
+			}
+		}
+
+		const [p0, p1, p2] = [v0, v1, v2].map((v) => this.toBuffer(v)) as [Vertex, Vertex, Vertex];
+		const flat = "r" in color ? color : null;
+		const colors: TriangleColors = "r" in color ? [color, color, color] : color;
+
+		const ax = snapSubpixel(p0.x);
+		const ay = snapSubpixel(p0.y);
+		const az = p0.z ?? 0;
+		const ac = colors[0];
+		let bx = snapSubpixel(p1.x);
+		let by = snapSubpixel(p1.y);
+		let bz = p1.z ?? 0;
+		let bc = colors[1];
+		let cx = snapSubpixel(p2.x);
+		let cy = snapSubpixel(p2.y);
+		let cz = p2.z ?? 0;
+		let cc = colors[2];
+
+		let area = edgeFunction(ax, ay, bx, by, cx, cy);
+		if (area === 0) return buffer;
+
+		// Normalize winding so that inside points have positive edge values
+		if (area < 0) {
+			[bx, cx] = [cx, bx];
+			[by, cy] = [cy, by];
+			[bz, cz] = [cz, bz];
+			[bc, cc] = [cc, bc];
+			area = -area;
+		}
+
+		const bounds = this.visibleBounds(buffer);
+		const minX = Math.max(bounds.x, Math.floor(Math.min(ax, bx, cx)));
+		const maxX = Math.min(bounds.x + bounds.width - 1, Math.ceil(Math.max(ax, bx, cx)));
+		const minY = Math.max(bounds.y, Math.floor(Math.min(ay, by, cy)));
+		const maxY = Math.min(bounds.y + bounds.height - 1, Math.ceil(Math.max(ay, by, cy)));
+		if (minX > maxX || minY > maxY) return buffer;
+
+		// w0 weights vertex a (edge b→c), w1 weights b (edge c→a), w2 weights c (edge a→b)
+		const topLeft0 = isTopLeftEdge(bx, by, cx, cy);
+		const topLeft1 = isTopLeftEdge(cx, cy, ax, ay);
+		const topLeft2 = isTopLeftEdge(ax, ay, bx, by);
+
+		// Per-pixel increments of each edge function along x
+		const step0 = -(cy - by);
+		const step1 = -(ay - cy);
+		const step2 = -(by - ay);
+
+		const depth = options.depthTest ? (getDepthBuffer(buffer) ?? null) : null;
+
+		for (let y = minY; y <= maxY; y++) {
+			const py = y + 0.5;
+			const px = minX + 0.5;
+			let w0 = edgeFunction(bx, by, cx, cy, px, py);
+			let w1 = edgeFunction(cx, cy, ax, ay, px, py);
+			let w2 = edgeFunction(ax, ay, bx, by, px, py);
+
+			for (let x = minX; x <= maxX; x++) {
+				if (
+					(w0 > 0 || (w0 === 0 && topLeft0)) &&
+					(w1 > 0 || (w1 === 0 && topLeft1)) &&
+					(w2 > 0 || (w2 === 0 && topLeft2))
+				) {
+					const l0 = w0 / area;
+					const l1 = w1 / area;
+					const l2 = w2 / area;
+					const pixelColor =
+						flat ??
+						rgb(
+							ac.r * l0 + bc.r * l1 + cc.r * l2,
+							ac.g * l0 + bc.g * l1 + cc.g * l2,
+							ac.b * l0 + bc.b * l1 + cc.b * l2,
+							(ac.a ?? 255) * l0 + (bc.a ?? 255) * l1 + (cc.a ?? 255) * l2,
+						);
+					this.plot(buffer, x, y, pixelColor, depth, az * l0 + bz * l1 + cz * l2);
+				}
+				w0 += step0;
+				w1 += step1;
+				w2 += step2;
 			}
 		}
 
@@ -338,9 +1399,82 @@ export class AsciiRenderer {
 	}
 
 	/**
-	 * Clear the buffer with a color
+	 * Draw text with a bitmap font. Each line is aligned relative to x, and
+	 * y is the top of the first line. Text goes through the same cell mapping
+	 * as other drawing, so finer symbol sets show smaller text.
+	 * @returns The modified buffer (same reference)
 	 */
-	clear(buffer: PixelBuffer, color: Color): PixelBuffer {
+	drawText<T extends PixelSurface>(
+		buffer: T,
+		text: string,
+		x: number,
+		y: number,
+		color: Color,
+		options: TextOptions = {},
+	): T {
+		if (!Number.isFinite(x) || !Number.isFinite(y)) return buffer;
+
+		const { font = FONT_5X7, align = TextAlign.LEFT, lineSpacing = 0, clip } = options;
+		const scale = Math.max(1, Math.floor(options.scale ?? 1));
+		const minX = clip ? Math.ceil(clip.x) : -Infinity;
+		const minY = clip ? Math.ceil(clip.y) : -Infinity;
+		const maxX = clip ? Math.floor(clip.x + clip.width) : Infinity;
+		const maxY = clip ? Math.floor(clip.y + clip.height) : Infinity;
+
+		text.split("\n").forEach((line, row) => {
+			const lineWidth = measureLine(font, line) * scale;
+			let penX = Math.round(x);
+			if (align === TextAlign.CENTER) penX -= Math.floor(lineWidth / 2);
+			else if (align === TextAlign.RIGHT) penX -= lineWidth;
+			const top = Math.round(y) + row * (font.height + lineSpacing) * scale;
+
+			for (const char of line) {
+				const glyph = getGlyph(font, char);
+				if (!glyph) continue;
+				for (let gy = 0; gy < glyph.height; gy++) {
+					for (let gx = 0; gx < glyph.width; gx++) {
+						if (!glyph.bitmap[gy * glyph.width + gx]) continue;
+						// One scaled glyph pixel, cut to the text clip rectangle
+						const px = penX + (glyph.xOffset + gx) * scale;
+						const py = top + (glyph.yOffset + gy) * scale;
+						const left = Math.max(px, minX);
+						const right = Math.min(px + scale, maxX);
+						const upper = Math.max(py, minY);
+						const lower = Math.min(py + scale, maxY);
+						if (right > left && lower > upper) {
+							this.fillPixelRect(buffer, left, upper, right - left, lower - upper, color);
+						}
+					}
+				}
+				penX += glyph.advance * scale;
+			}
+		});
+		return buffer;
+	}
+
+	/**
+	 * Size in pixels of text drawn by drawText with the same options
+	 */
+	measureText(text: string, options: TextOptions = {}): { width: number; height: number } {
+		const scale = Math.max(1, Math.floor(options.scale ?? 1));
+		const size = measureText(options.font ?? FONT_5X7, text, options.lineSpacing);
+		return { width: size.width * scale, height: size.height * scale };
+	}
+
+	/**
+	 * Clear the buffer with a color, and its attached depth buffer if any.
+	 * The whole buffer is cleared regardless of the transform, clip and blend mode.
+	 * Packed buffers are filled in place without allocating.
+	 */
+	clear<T extends PixelSurface>(buffer: T, color: Color): T {
+		const depth = getDepthBuffer(buffer);
+		if (depth) {
+			clearDepthBuffer(depth);
+		}
+		if (isRgbaBuffer(buffer)) {
+			fillRgbaBuffer(buffer, color);
+			return buffer;
+		}
 		for (let y = 0; y < buffer.length; y++) {
 			const row = buffer[y];
 			if (row) {
@@ -374,5 +1508,16 @@ export class AsciiRenderer {
 }
 
 // Re-export types and enums
-export { ColorMode, DEFAULT_OPTIONS, SymbolSet };
-export type { Cell, Color, Grid, LineStyle, PixelBuffer, RenderOptions };
+export { BufferFormat, ColorMode, DEFAULT_OPTIONS, DepthTest, SymbolSet };
+export type {
+	Cell,
+	Color,
+	DepthBuffer,
+	DepthBufferOptions,
+	Grid,
+	LineStyle,
+	PixelBuffer,
+	PixelSurface,
+	RenderOptions,
+	RgbaBuffer,
+};
@@ -0,0 +1,152 @@
+import { createRgbaBuffer, isRgbaBuffer, toPixelArray, toRgbaBuffer } from "./buffer";
+import type { PixelBuffer, PixelSurface, RgbaBuffer } from "./types";
+import { ResampleFilter } from "./types";
+
+/**
+ * Resample an image to a new size.
+ * Colors are averaged with premultiplied alpha so transparent pixels do not
+ * darken their neighbors. The result has the same storage format as the input.
+ * @throws {Error} If the target size is not positive
+ */
+export function resampleImage(
+	pixels: RgbaBuffer,
+	width: number,
+	height: number,
+	filter?: ResampleFilter,
+): RgbaBuffer;
+export function resampleImage(
+	pixels: PixelBuffer,
+	width: number,
+	height: number,
+	filter?: ResampleFilter,
+): PixelBuffer;
+export function resampleImage(
+	pixels: PixelSurface,
+	width: number,
+	height: number,
+	filter?: ResampleFilter,
+): PixelSurface;
+export function resampleImage(
+	pixels: PixelSurface,
+	width: number,
+	height: number,
+	filter: ResampleFilter = ResampleFilter.BILINEAR,
+): PixelSurface {
+	const source = isRgbaBuffer(pixels) ? pixels : toRgbaBuffer(pixels);
+	const target = createRgbaBuffer(width, height);
+
+	if (source.width > 0 && source.height > 0) {
+		if (filter === ResampleFilter.NEAREST) {
+			resampleNearest(source, target);
+		} else if (filter === ResampleFilter.BOX) {
+			resampleBox(source, target);
+		} else {
+			resampleBilinear(source, target);
+		}
+	}
+
+	return isRgbaBuffer(pixels) ? target : toPixelArray(target);
+}
+
+/** Premultiplied RGBA accumulator shared by the filters */
+const sum = new Float64Array(4);
+
+/**
+ * Add a source pixel to `sum` with the given weight
+ */
+function accumulate(source: RgbaBuffer, x: number, y: number, weight: number): void {
+	const i = y * source.stride + x * 4;
+	const data = source.data;
+	const alpha = ((data[i + 3] ?? 255) / 255) * weight;
+	sum[0] = (sum[0] ?? 0) + (data[i] ?? 0) * alpha;
+	sum[1] = (sum[1] ?? 0) + (data[i + 1] ?? 0) * alpha;
+	sum[2] = (sum[2] ?? 0) + (data[i + 2] ?? 0) * alpha;
+	sum[3] = (sum[3] ?? 0) + alpha;
+}
+
+/**
+ * Write `sum` (total weight `weight`) to a target pixel and reset it
+ */
+function flush(target: RgbaBuffer, x: number, y: number, weight: number): void {
+	const i = y * target.stride + x * 4;
+	const alpha = sum[3] ?? 0;
+	const data = target.data;
+	if (alpha > 0) {
+		data[i] = (sum[0] ?? 0) / alpha;
+		data[i + 1] = (sum[1] ?? 0) / alpha;
+		data[i + 2] = (sum[2] ?? 0) / alpha;
+	} else {
+		data[i] = 0;
+		data[i + 1] = 0;
+		data[i + 2] = 0;
+	}
+	data[i + 3] = (alpha / weight) * 255;
+	sum.fill(0);
+}
+
+/**
+ * Nearest-neighbor sampling at target pixel centers
+ */
+function resampleNearest(source: RgbaBuffer, target: RgbaBuffer): void {
+	const scaleX = source.width / target.width;
+	const scaleY = source.height / target.height;
+	for (let y = 0; y < target.height; y++) {
+		const sy = Math.min(source.height - 1, Math.floor((y + 0.5) * scaleY));
+		for (let x = 0; x < target.width; x++) {
+			const sx = Math.min(source.width - 1, Math.floor((x + 0.5) * scaleX));
+			target.pixels[y * (target.stride / 4) + x] =
+				source.pixels[sy * (source.stride / 4) + sx] ?? 0;
+		}
+	}
+}
+
+/**
+ * Bilinear interpolation between source pixel centers, clamped at the borders
+ */
+function resampleBilinear(source: RgbaBuffer, target: RgbaBuffer): void {
+	const scaleX = source.width / target.width;
+	const scaleY = source.height / target.height;
+	for (let y = 0; y < target.height; y++) {
+		const fy = Math.min(source.height - 1, Math.max(0, (y + 0.5) * scaleY - 0.5));
+		const y0 = Math.floor(fy);
+		const y1 = Math.min(source.height - 1, y0 + 1);
+		const ty = fy - y0;
+		for (let x = 0; x < target.width; x++) {
+			const fx = Math.min(source.width - 1, Math.max(0, (x + 0.5) * scaleX - 0.5));
+			const x0 = Math.floor(fx);
+			const x1 = Math.min(source.width - 1, x0 + 1);
+			const tx = fx - x0;
+			accumulate(source, x0, y0, (1 - tx) * (1 - ty));
+			accumulate(source, x1, y0, tx * (1 - ty));
+			accumulate(source, x0, y1, (1 - tx) * ty);
+			accumulate(source, x1, y1, tx * ty);
+			flush(target, x, y, 1);
+		}
+	}
+}
+
+/**
+ * Area average: each target pixel averages the source area it covers
+ */
+function resampleBox(source: RgbaBuffer, target: RgbaBuffer): void {
+	const scaleX = source.width / target.width;
+	const scaleY = source.height / target.height;
+	for (let y = 0; y < target.height; y++) {
+		const top = y * scaleY;
+		const bottom = top + scaleY;
+		for (let x = 0; x < target.width; x++) {
+			const left = x * scaleX;
+			const right = left + scaleX;
+			let weight = 0;
+			for (let sy = Math.floor(top); sy < Math.min(source.height, Math.ceil(bottom)); sy++) {
+				const coverY = Math.min(bottom, sy + 1) - Math.max(top, sy);
+				for (let sx = Math.floor(left); sx < Math.min(source.width, Math.ceil(right)); sx++) {
+					const cover = coverY * (Math.min(right, sx + 1) - Math.max(left, sx));
+					accumulate(source, sx, sy, cover);
+					weight += cover;
+				}
+			}
+			flush(target, x, y, weight);
+		}
+	}
+}
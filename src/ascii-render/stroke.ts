@@ -0,0 +1,265 @@
+import { clipLine, flattenArc } from "./path";
+import type { Rect, Vertex } from "./types";
+import { LineCap, LineJoin } from "./types";
+
+/**
+ * Options for outlining a thick stroke
+ */
+export interface StrokeOutlineOptions {
+	/** Stroke width in pixels */
+	width: number;
+	cap: LineCap;
+	join: LineJoin;
+	/** Longest miter, in multiples of the width, before it is beveled */
+	miterLimit: number;
+	/** Dash pattern; entry k covers arc length [k - 0.5, k + 0.5) */
+	pattern?: readonly number[];
+}
+
+/**
+ * A polygon covering part of a stroke
+ */
+export interface StrokePolygon {
+	points: Vertex[];
+	/** Distance along the path of the stroke point nearest (x, y) */
+	distanceAt: (x: number, y: number) => number;
+}
+
+/**
+ * Outline of a stroke: polygons whose union covers it, and the path length
+ */
+export interface StrokeOutline {
+	polygons: StrokePolygon[];
+	length: number;
+}
+
+/** Points closer than this are merged */
+const EPSILON = 1e-9;
+
+/**
+ * Unit vector from a to b, or +x for coincident points
+ */
+function direction(a: Vertex, b: Vertex): Vertex {
+	const length = Math.hypot(b.x - a.x, b.y - a.y);
+	return length > EPSILON ? { x: (b.x - a.x) / length, y: (b.y - a.y) / length } : { x: 1, y: 0 };
+}
+
+/**
+ * Point at distance s from p along unit vector d
+ */
+function along(p: Vertex, d: Vertex, s: number): Vertex {
+	return { x: p.x + d.x * s, y: p.y + d.y * s };
+}
+
+/**
+ * Polygon approximating a disc
+ */
+function disc(center: Vertex, radius: number): Vertex[] {
+	return flattenArc(center.x, center.y, radius, radius, 0, 2 * Math.PI).slice(0, -1);
+}
+
+/**
+ * Piece of a stroke that takes the same path distance everywhere
+ */
+function constant(points: Vertex[], distance: number): StrokePolygon {
+	return { points, distanceAt: () => distance };
+}
+
+/**
+ * The corner where a segment in direction d0 turns into direction d1 at
+ * vertex v. The segments' rectangles already cover the inner side; the
+ * join fills the wedge left open on the outer side.
+ */
+function joinPolygon(
+	v: Vertex,
+	d0: Vertex,
+	d1: Vertex,
+	halfWidth: number,
+	options: StrokeOutlineOptions,
+): Vertex[] | null {
+	const cross = d0.x * d1.y - d0.y * d1.x;
+	const dot = d0.x * d1.x + d0.y * d1.y;
+	if (Math.abs(cross) < EPSILON && dot > 0) return null;
+	if (options.join === LineJoin.ROUND) return disc(v, halfWidth);
+
+	// Outer side: to the right of a left turn and vice versa
+	const side = cross > 0 ? -1 : 1;
+	const n0 = { x: -d0.y * side, y: d0.x * side };
+	const n1 = { x: -d1.y * side, y: d1.x * side };
+	const a = along(v, n0, halfWidth);
+	const b = along(v, n1, halfWidth);
+
+	if (options.join === LineJoin.MITER) {
+		// The miter tip lies along the bisector of the normals; its distance
+		// from the vertex is halfWidth / cos(half the angle between them)
+		const bisector = { x: n0.x + n1.x, y: n0.y + n1.y };
+		const length = Math.hypot(bisector.x, bisector.y);
+		const cosine = length / 2;
+		if (length > EPSILON && 1 / cosine <= options.miterLimit) {
+			const tip = along(v, { x: bisector.x / length, y: bisector.y / length }, halfWidth / cosine);
+			return [v, a, tip, b];
+		}
+	}
+	return [v, a, b];
+}
+
+/**
+ * Outline a thick stroke along a polyline as polygons: one rectangle per
+ * segment, caps at the ends of the path and of each dash, and joins where
+ * segments meet.
+ *
+ * Open paths extend half a pixel past their endpoints, so that with butt
+ * caps they cover their endpoint pixels like thin lines do. Dashes of a
+ * path that leaves the visible area are only generated inside it.
+ * @param visible Area outside of which the stroke need not be outlined
+ */
+export function outlineStroke(
+	points: readonly Vertex[],
+	closed: boolean,
+	options: StrokeOutlineOptions,
+	visible: Rect,
+): StrokeOutline {
+	const path: Vertex[] = [];
+	for (const p of points) {
+		const last = path[path.length - 1];
+		if (!last || Math.hypot(p.x - last.x, p.y - last.y) > EPSILON) path.push(p);
+	}
+	const first = path[0];
+	if (!first) return { polygons: [], length: 0 };
+	const isClosed = closed && path.length > 2;
+	if (isClosed) path.push(first);
+
+	// Cumulative distance at each vertex
+	const distances = [0];
+	for (let i = 1; i < path.length; i++) {
+		const a = path[i - 1] as Vertex;
+		const b = path[i] as Vertex;
+		distances.push((distances[i - 1] ?? 0) + Math.hypot(b.x - a.x, b.y - a.y));
+	}
+	const length = distances[distances.length - 1] ?? 0;
+	const segments = Math.max(1, path.length - 1);
+	const segmentStart = (i: number) => path[Math.min(i, path.length - 1)] as Vertex;
+	const segmentEnd = (i: number) => path[Math.min(i + 1, path.length - 1)] as Vertex;
+	const segmentDirection = (i: number) => direction(segmentStart(i), segmentEnd(i));
+
+	// Segment containing distance s; distances beyond the ends extrapolate.
+	// At a vertex this is the segment starting there, or with `ending` the
+	// one ending there.
+	const segmentAt = (s: number, ending = false) => {
+		let i = 0;
+		while (
+			i < segments - 1 &&
+			(ending ? (distances[i + 1] ?? 0) < s : (distances[i + 1] ?? 0) <= s)
+		) {
+			i++;
+		}
+		return i;
+	};
+	const pointAt = (s: number) => {
+		const i = segmentAt(s);
+		return along(segmentStart(i), segmentDirection(i), s - (distances[i] ?? 0));
+	};
+
+	const halfWidth = options.width / 2;
+	const polygons: StrokePolygon[] = [];
+
+	/** Stroke the part of the path between distances s0 and s1 */
+	const strokeRun = (s0: number, s1: number, loop: boolean) => {
+		const firstSegment = segmentAt(s0);
+		const lastSegment = loop ? segments - 1 : segmentAt(s1, true);
+		const squareCap = !loop && options.cap === LineCap.SQUARE ? halfWidth : 0;
+
+		for (let i = firstSegment; i <= lastSegment; i++) {
+			const d = segmentDirection(i);
+			const n = { x: -d.y, y: d.x };
+			const start = distances[i] ?? 0;
+			const from = i === firstSegment ? s0 - squareCap : start;
+			const to = i === lastSegment ? s1 + squareCap : (distances[i + 1] ?? 0);
+			const origin = segmentStart(i);
+			const a = along(origin, d, from - start);
+			const b = along(origin, d, to - start);
+			const segmentLength = (distances[i + 1] ?? start) - start;
+			polygons.push({
+				points: [
+					along(a, n, halfWidth),
+					along(b, n, halfWidth),
+					along(b, n, -halfWidth),
+					along(a, n, -halfWidth),
+				],
+				distanceAt: (x, y) => {
+					const projected = (x - origin.x) * d.x + (y - origin.y) * d.y;
+					return start + Math.max(0, Math.min(segmentLength, projected));
+				},
+			});
+
+			// Join into the next segment, or around to the first one of a loop
+			const next = i < lastSegment ? i + 1 : loop ? 0 : -1;
+			if (next >= 0) {
+				const corner = joinPolygon(segmentEnd(i), d, segmentDirection(next), halfWidth, options);
+				const at = i < lastSegment ? (distances[i + 1] ?? 0) : length;
+				if (corner) polygons.push(constant(corner, at));
+			}
+		}
+
+		if (!loop && options.cap === LineCap.ROUND) {
+			polygons.push(constant(disc(pointAt(s0), halfWidth), Math.max(0, s0)));
+			polygons.push(constant(disc(pointAt(s1), halfWidth), Math.min(length, s1)));
+		}
+	};
+
+	const pattern = options.pattern;
+	const dashed = pattern?.some((on) => on !== 1) ?? false;
+	const startExtent = isClosed ? 0 : -0.5;
+	const endExtent = isClosed ? length : length + 0.5;
+	if (!dashed) {
+		strokeRun(startExtent, endExtent, isClosed);
+		return { polygons, length };
+	}
+	if (!pattern?.some((on) => on === 1)) return { polygons, length };
+
+	// Only dash the parts of the path near the visible area
+	const margin = halfWidth + 1;
+	const area = {
+		x: visible.x - margin,
+		y: visible.y - margin,
+		width: visible.width + 2 * margin,
+		height: visible.height + 2 * margin,
+	};
+	const ranges: [number, number][] = [];
+	for (let i = 0; i < segments; i++) {
+		const a = segmentStart(i);
+		const b = segmentEnd(i);
+		const t = clipLine(a.x, a.y, b.x, b.y, area);
+		if (!t) continue;
+		const segmentLength = (distances[i + 1] ?? 0) - (distances[i] ?? 0);
+		let s0 = (distances[i] ?? 0) + t[0] * segmentLength;
+		let s1 = (distances[i] ?? 0) + t[1] * segmentLength;
+		if (s0 <= 0) s0 = startExtent;
+		if (s1 >= length) s1 = endExtent;
+		const previous = ranges[ranges.length - 1];
+		if (previous && s0 <= previous[1]) {
+			previous[1] = Math.max(previous[1], s1);
+		} else {
+			ranges.push([s0, s1]);
+		}
+	}
+
+	// Entry k of the pattern covers [k - 0.5, k + 0.5); runs of "on"
+	// entries form one dash
+	const period = pattern.length;
+	for (const [from, to] of ranges) {
+		let k = Math.floor(from + 0.5);
+		while (k - 0.5 < to) {
+			if (pattern[((k % period) + period) % period] !== 1) {
+				k++;
+				continue;
+			}
+			const dashStart = k - 0.5;
+			while (pattern[((k % period) + period) % period] === 1 && k - 0.5 < to) k++;
+			const s0 = Math.max(from, dashStart);
+			const s1 = Math.min(to, k - 0.5);
+			if (s1 > s0) strokeRun(s0, s1, false);
+		}
+	}
+	return { polygons, length };
+}
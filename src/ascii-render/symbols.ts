@@ -1,9 +1,10 @@
-import type { SymbolDef } from "./types";
+import { EDGE_ORIENTATION } from "./edges";
+import type { SubPixel, SymbolDef, SymbolSetDefinition, SymbolSetName } from "./types";
 import { SymbolSet } from "./types";
 
 /**
  * ASCII symbols ordered by density (light to dark)
- * Used for 1x1 resolution rendering
+ * Used for 1x1 resolution rendering; their order is the default density ramp
  */
 export const ASCII_SYMBOLS: SymbolDef[] = [
 	{ char: " ", pattern: 0b0, width: 1, height: 1 },
@@ -18,6 +19,31 @@ export const ASCII_SYMBOLS: SymbolDef[] = [
 	{ char: "@", pattern: 0b1, width: 1, height: 1 },
 ];
 
+/**
+ * Density ramps for SymbolSet.ASCII, ordered light to dark.
+ * Any string works as a ramp; these are common choices.
+ */
+export const ASCII_RAMPS = {
+	/** The ASCII_SYMBOLS characters */
+	standard: ASCII_SYMBOLS.map((symbol) => symbol.char).join(""),
+	/** Ten steps that read well at small sizes */
+	short: " .:-=+*#%@",
+	/** Seventy steps for smooth gradients at larger sizes */
+	long: " .'`^\",:;Il!i><~+_-?][}{1)(|\\/tfjrxnuvczXYUJCLQ0OZmwqpdbkhao*#MW&8%B@$",
+} as const;
+
+/**
+ * Oriented line glyphs for edge cells in SymbolSet.ASCII
+ */
+export const EDGE_SYMBOLS: SymbolDef[] = [
+	{ char: "-", pattern: EDGE_ORIENTATION.HORIZONTAL, width: 1, height: 1 },
+	{ char: "/", pattern: EDGE_ORIENTATION.RISING, width: 1, height: 1 },
+	{ char: "|", pattern: EDGE_ORIENTATION.VERTICAL, width: 1, height: 1 },
+	{ char: "\\", pattern: EDGE_ORIENTATION.FALLING, width: 1, height: 1 },
+	{ char: "_", pattern: EDGE_ORIENTATION.HORIZONTAL | EDGE_ORIENTATION.LOW, width: 1, height: 1 },
+	{ char: "+", pattern: EDGE_ORIENTATION.CROSS, width: 1, height: 1 },
+];
+
 /**
  * Half-block symbols for 2x1 vertical resolution
  * Each character represents 2 vertical pixels
@@ -179,32 +205,229 @@ export const SEXTANT_SYMBOLS: SymbolDef[] = [
 ];
 
 /**
- * Lookup map from SymbolSet enum to the corresponding symbol definitions
+ * First code point of the Unicode 16 block octants (U+1CD00 - U+1CDE5)
+ */
+export const OCTANT_BASE = 0x1cd00;
+
+/**
+ * Octant patterns that Unicode encodes outside the octant block.
+ * Pattern bits: row-major 2x4, bit (row * 2 + column)
+ */
+const OCTANT_EXISTING: ReadonlyMap<number, string> = new Map([
+	// Quadrants, including blank, full and the half blocks
+	...QUADRANT_SYMBOLS.map((symbol): [number, string] => {
+		const q = symbol.pattern;
+		const pattern =
+			(q & 0b0001 ? 0b00000101 : 0) |
+			(q & 0b0010 ? 0b00001010 : 0) |
+			(q & 0b0100 ? 0b01010000 : 0) |
+			(q & 0b1000 ? 0b10100000 : 0);
+		return [pattern, symbol.char];
+	}),
+	// Horizontal quarter blocks
+	[0b00000011, "\u{1fb82}"],
+	[0b00111111, "\u{1fb85}"],
+	[0b11000000, "▂"],
+	[0b11111100, "▆"],
+	// Single corner octants
+	[0b00000001, "\u{1cea8}"],
+	[0b00000010, "\u{1ceab}"],
+	[0b01000000, "\u{1cea3}"],
+	[0b10000000, "\u{1cea0}"],
+	// Middle quarter of one column
+	[0b00010100, "\u{1fbe6}"],
+	[0b00101000, "\u{1fbe7}"],
+]);
+
+/**
+ * Generate all 256 octant symbols indexed by pattern.
+ * Unicode assigns the octant block in pattern order, skipping the patterns
+ * that already had a character, so existing glyphs are reused for those.
+ */
+export function generateOctantSymbols(): SymbolDef[] {
+	const symbols: SymbolDef[] = [];
+	let next = OCTANT_BASE;
+	for (let pattern = 0; pattern < 256; pattern++) {
+		const existing = OCTANT_EXISTING.get(pattern);
+		symbols.push({
+			char: existing ?? String.fromCodePoint(next++),
+			pattern,
+			width: 2,
+			height: 4,
+		});
+	}
+	return symbols;
+}
+
+export const OCTANT_SYMBOLS = generateOctantSymbols();
+
+/**
+ * Get the octant character for a pattern in O(1)
+ * @param pattern 8-bit pattern, bit (row * 2 + column)
+ */
+export function getOctantChar(pattern: number): string {
+	return OCTANT_SYMBOLS[pattern & 0xff]?.char ?? " ";
+}
+
+/**
+ * Braille dot-to-pixel mapping
+ *
+ * Dot layout (Unicode standard):
+ *   Dot1 Dot4   (row 0)
+ *   Dot2 Dot5   (row 1)
+ *   Dot3 Dot6   (row 2)
+ *   Dot7 Dot8   (row 3)
+ */
+export const BRAILLE_DOT_MAP: readonly SubPixel[] = [
+	{ x: 0, y: 0, bit: BRAILLE_DOTS.DOT1 },
+	{ x: 0, y: 1, bit: BRAILLE_DOTS.DOT2 },
+	{ x: 0, y: 2, bit: BRAILLE_DOTS.DOT3 },
+	{ x: 0, y: 3, bit: BRAILLE_DOTS.DOT7 },
+	{ x: 1, y: 0, bit: BRAILLE_DOTS.DOT4 },
+	{ x: 1, y: 1, bit: BRAILLE_DOTS.DOT5 },
+	{ x: 1, y: 2, bit: BRAILLE_DOTS.DOT6 },
+	{ x: 1, y: 3, bit: BRAILLE_DOTS.DOT8 },
+];
+
+/** Largest number of sub-pixels per cell, so patterns stay positive 32-bit integers */
+const MAX_SUB_PIXELS = 31;
+
+/**
+ * Definitions of the built-in symbol sets
  */
-const SYMBOL_SET_MAP: Record<SymbolSet, SymbolDef[]> = {
-	[SymbolSet.ASCII]: ASCII_SYMBOLS,
-	[SymbolSet.HALF]: HALF_BLOCK_SYMBOLS,
-	[SymbolSet.QUADRANT]: QUADRANT_SYMBOLS,
-	[SymbolSet.BRAILLE]: BRAILLE_SYMBOLS,
-	[SymbolSet.SEXTANT]: SEXTANT_SYMBOLS,
+const BUILT_IN_SYMBOL_SETS: Record<SymbolSet, SymbolSetDefinition> = {
+	[SymbolSet.ASCII]: { name: SymbolSet.ASCII, width: 1, height: 1, symbols: ASCII_SYMBOLS },
+	[SymbolSet.HALF]: { name: SymbolSet.HALF, width: 1, height: 2, symbols: HALF_BLOCK_SYMBOLS },
+	[SymbolSet.QUADRANT]: {
+		name: SymbolSet.QUADRANT,
+		width: 2,
+		height: 2,
+		symbols: QUADRANT_SYMBOLS,
+	},
+	[SymbolSet.BRAILLE]: {
+		name: SymbolSet.BRAILLE,
+		width: 2,
+		height: 4,
+		symbols: BRAILLE_SYMBOLS,
+		layout: BRAILLE_DOT_MAP,
+		lookup: getBrailleChar,
+	},
+	[SymbolSet.SEXTANT]: { name: SymbolSet.SEXTANT, width: 2, height: 3, symbols: SEXTANT_SYMBOLS },
+	[SymbolSet.OCTANT]: {
+		name: SymbolSet.OCTANT,
+		width: 2,
+		height: 4,
+		symbols: OCTANT_SYMBOLS,
+		lookup: getOctantChar,
+	},
 };
 
+/**
+ * Registered symbol sets by name, starting with the built-in ones
+ */
+const SYMBOL_SETS = new Map<string, SymbolSetDefinition>(Object.entries(BUILT_IN_SYMBOL_SETS));
+
+/**
+ * Whether a name belongs to a built-in symbol set
+ */
+function isBuiltInSymbolSet(name: string): boolean {
+	return Object.hasOwn(BUILT_IN_SYMBOL_SETS, name);
+}
+
+/**
+ * Register a custom symbol set under its name, replacing any custom set of
+ * the same name. It can then be passed to mapPixelsToCells and
+ * AsciiRenderer.setSymbolSet like a built-in one.
+ * @throws {Error} If the name is a built-in set, the grid is empty or has
+ *   more than 31 sub-pixels, there are no symbols, or the layout does not
+ *   give each sub-pixel of the grid its own bit
+ */
+export function registerSymbolSet(definition: SymbolSetDefinition): void {
+	const { name, width, height, symbols, layout } = definition;
+	if (isBuiltInSymbolSet(name)) {
+		throw new Error(`Cannot replace the built-in symbol set "${name}"`);
+	}
+	if (
+		!Number.isInteger(width) ||
+		!Number.isInteger(height) ||
+		width < 1 ||
+		height < 1 ||
+		width * height > MAX_SUB_PIXELS
+	) {
+		throw new Error(
+			`Symbol set "${name}" needs a grid of 1 to ${MAX_SUB_PIXELS} sub-pixels, got ${width}x${height}`,
+		);
+	}
+	if (symbols.length === 0) {
+		throw new Error(`Symbol set "${name}" has no symbols`);
+	}
+	if (layout) {
+		const positions = new Set(layout.map((sub) => sub.y * width + sub.x));
+		const bits = layout.reduce((all, sub) => all | sub.bit, 0);
+		const valid = layout.every(
+			(sub) =>
+				Number.isInteger(sub.x) &&
+				Number.isInteger(sub.y) &&
+				sub.x >= 0 &&
+				sub.x < width &&
+				sub.y >= 0 &&
+				sub.y < height &&
+				sub.bit > 0 &&
+				(sub.bit & (sub.bit - 1)) === 0,
+		);
+		const count = width * height;
+		if (!valid || layout.length !== count || positions.size !== count || bits !== 2 ** count - 1) {
+			throw new Error(`Layout of symbol set "${name}" must give each sub-pixel its own bit`);
+		}
+	}
+	SYMBOL_SETS.set(name, definition);
+}
+
+/**
+ * Remove a custom symbol set
+ * @returns Whether a set of that name was registered
+ * @throws {Error} If the name is a built-in set
+ */
+export function unregisterSymbolSet(name: string): boolean {
+	if (isBuiltInSymbolSet(name)) {
+		throw new Error(`Cannot remove the built-in symbol set "${name}"`);
+	}
+	return SYMBOL_SETS.delete(name);
+}
+
+/**
+ * Names of all registered symbol sets, built-in ones first
+ */
+export function listSymbolSets(): string[] {
+	return [...SYMBOL_SETS.keys()];
+}
+
+/**
+ * Get the definition of a symbol set
+ * @throws {Error} If no symbol set of that name is registered
+ */
+export function getSymbolSetDefinition(name: SymbolSetName): SymbolSetDefinition {
+	const definition = SYMBOL_SETS.get(name);
+	if (!definition) {
+		throw new Error(`Unknown symbol set "${name}"`);
+	}
+	return definition;
+}
+
 /**
  * Get the appropriate symbol set
  */
-export function getSymbolSet(name: SymbolSet): SymbolDef[] {
-	return SYMBOL_SET_MAP[name] ?? HALF_BLOCK_SYMBOLS;
+export function getSymbolSet(name: SymbolSetName): SymbolDef[] {
+	return getSymbolSetDefinition(name).symbols;
 }
 
 /**
- * Get symbol dimensions for a given symbol set.
- * Derives dimensions from the first symbol definition in the set.
+ * Get symbol dimensions for a given symbol set
  */
-export function getSymbolDimensions(name: SymbolSet): {
+export function getSymbolDimensions(name: SymbolSetName): {
 	width: number;
 	height: number;
 } {
-	const set = getSymbolSet(name);
-	const first = set[0];
-	return first ? { width: first.width, height: first.height } : { width: 1, height: 2 };
+	const { width, height } = getSymbolSetDefinition(name);
+	return { width, height };
 }
@@ -0,0 +1,74 @@
+import type { Rect, Transform, Vertex } from "./types";
+
+/** Transform that leaves every point in place */
+export const IDENTITY_TRANSFORM: Readonly<Transform> = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+
+/**
+ * Compose two transforms: the result applies `inner` first, then `outer`
+ */
+export function multiplyTransform(outer: Transform, inner: Transform): Transform {
+	return {
+		a: outer.a * inner.a + outer.c * inner.b,
+		b: outer.b * inner.a + outer.d * inner.b,
+		c: outer.a * inner.c + outer.c * inner.d,
+		d: outer.b * inner.c + outer.d * inner.d,
+		e: outer.a * inner.e + outer.c * inner.f + outer.e,
+		f: outer.b * inner.e + outer.d * inner.f + outer.f,
+	};
+}
+
+/**
+ * Transform a point. Extra vertex fields such as z are kept.
+ */
+export function applyTransform<T extends Vertex>(transform: Transform, point: T): T {
+	return {
+		...point,
+		x: transform.a * point.x + transform.c * point.y + transform.e,
+		y: transform.b * point.x + transform.d * point.y + transform.f,
+	};
+}
+
+/**
+ * Whether a transform is the identity
+ */
+export function isIdentityTransform(transform: Transform): boolean {
+	return (
+		transform.a === 1 &&
+		transform.b === 0 &&
+		transform.c === 0 &&
+		transform.d === 1 &&
+		transform.e === 0 &&
+		transform.f === 0
+	);
+}
+
+/**
+ * Axis-aligned bounding box of a transformed rectangle
+ */
+export function transformRect(transform: Transform, rect: Rect): Rect {
+	const corners = [
+		applyTransform(transform, { x: rect.x, y: rect.y }),
+		applyTransform(transform, { x: rect.x + rect.width, y: rect.y }),
+		applyTransform(transform, { x: rect.x, y: rect.y + rect.height }),
+		applyTransform(transform, { x: rect.x + rect.width, y: rect.y + rect.height }),
+	];
+	const xs = corners.map((p) => p.x);
+	const ys = corners.map((p) => p.y);
+	const x = Math.min(...xs);
+	const y = Math.min(...ys);
+	return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/**
+ * Intersection of two rectangles (empty rectangles have zero width or height)
+ */
+export function intersectRects(a: Rect, b: Rect): Rect {
+	const x = Math.max(a.x, b.x);
+	const y = Math.max(a.y, b.y);
+	return {
+		x,
+		y,
+		width: Math.max(0, Math.min(a.x + a.width, b.x + b.width) - x),
+		height: Math.max(0, Math.min(a.y + a.height, b.y + b.height) - y),
+	};
+}
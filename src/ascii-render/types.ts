@@ -22,6 +22,8 @@ export enum SymbolSet {
 	BRAILLE = "braille",
 	/** Sextant characters for 2x3 resolution (Unicode 13.0+) */
 	SEXTANT = "sextant",
+	/** Block octant characters for 2x4 resolution (Unicode 16.0+) */
+	OCTANT = "octant",
 }
 
 /**
@@ -32,14 +34,89 @@ export enum ColorMode {
 	NONE = "none",
 	/** Truecolor with 24-bit RGB */
 	TRUECOLOR = "truecolor",
+	/** xterm 256-color palette (6x6x6 cube and grayscale ramp) */
+	ANSI256 = "ansi256",
+	/** The 16 standard and bright ANSI colors */
+	ANSI16 = "ansi16",
+}
+
+/**
+ * Dithering applied before sub-pixels are thresholded
+ */
+export enum DitherMode {
+	/** Hard threshold per pixel */
+	NONE = "none",
+	/** Ordered dithering with a 2x2 Bayer matrix */
+	BAYER2 = "bayer2",
+	/** Ordered dithering with a 4x4 Bayer matrix */
+	BAYER4 = "bayer4",
+	/** Ordered dithering with an 8x8 Bayer matrix */
+	BAYER8 = "bayer8",
+	/** Floyd–Steinberg error diffusion (serpentine scan) */
+	FLOYD_STEINBERG = "floyd-steinberg",
+	/** Atkinson error diffusion (diffuses 3/4 of the error) */
+	ATKINSON = "atkinson",
+	/** Ordered dithering with a blue-noise threshold texture */
+	BLUE_NOISE = "blue-noise",
+}
+
+/**
+ * Strategy for splitting a cell's sub-pixels into foreground and background
+ */
+export enum ColorFitting {
+	/** Split by the global brightness threshold, then average each group */
+	THRESHOLD = "threshold",
+	/** Cluster each cell's colors with 2-means */
+	KMEANS = "kmeans",
+	/** Split each cell at the median of its widest color channel */
+	MEDIAN_CUT = "median-cut",
+}
+
+/**
+ * Color space in which colors are interpolated or averaged
+ */
+export enum ColorSpace {
+	/** Gamma-encoded sRGB channels, as stored */
+	SRGB = "srgb",
+	/** Linear-light RGB; mixes like light does */
+	LINEAR_RGB = "linear-rgb",
+	/** Hue, saturation and lightness; hue takes the shorter way round */
+	HSL = "hsl",
+	/** OKLab; perceptually even steps in lightness and hue */
+	OKLAB = "oklab",
+}
+
+/**
+ * Options controlling how pixels are mapped to cells
+ */
+export interface MappingOptions {
+	/** Dithering applied before thresholding (default: NONE) */
+	dither?: DitherMode;
+	/**
+	 * How sub-pixels are split into fg/bg (default: THRESHOLD).
+	 * Fitting modes ignore `threshold` and `dither`.
+	 */
+	fitting?: ColorFitting;
+	/**
+	 * Characters used by SymbolSet.ASCII, light to dark (default: ASCII_RAMPS.standard).
+	 * Each cell picks a character by its brightness weighted by alpha coverage.
+	 */
+	ramp?: string;
+	/** Map bright pixels to light characters, for dark text on light terminals */
+	invertRamp?: boolean;
+	/**
+	 * Draw edges in SymbolSet.ASCII with oriented glyphs (| / \ - _ +) from
+	 * EDGE_SYMBOLS; other cells keep their density ramp character (default: false)
+	 */
+	edges?: boolean;
 }
 
 /**
  * Options for rendering pixels to ASCII/Unicode
  */
-export interface RenderOptions {
-	/** Symbol set to use for rendering */
-	symbolSet: SymbolSet;
+export interface RenderOptions extends MappingOptions {
+	/** Symbol set to use for rendering: built-in or registered with registerSymbolSet */
+	symbolSet: SymbolSetName;
 	/** Color mode for output */
 	colorMode: ColorMode;
 	/** Brightness threshold for considering a pixel "on" (0-255, default: 128) */
@@ -73,6 +150,97 @@ export type Grid = Row[];
  */
 export type PixelBuffer = Color[][];
 
+/**
+ * Storage layout for newly created pixel buffers
+ */
+export enum BufferFormat {
+	/** Nested `Color[][]` arrays, one object per pixel */
+	ARRAY = "array",
+	/** Packed RGBA bytes in a single typed array */
+	RGBA = "rgba",
+}
+
+/**
+ * Pixel payload formats of the Kitty graphics protocol (the `f` key)
+ */
+export enum KittyFormat {
+	/** Raw 8-bit RGBA, 4 bytes per pixel */
+	RGBA = 32,
+	/** PNG file data */
+	PNG = 100,
+}
+
+/**
+ * Filters for resampling images to a new size
+ */
+export enum ResampleFilter {
+	/** Pick the source pixel under each target pixel center */
+	NEAREST = "nearest",
+	/** Interpolate the four nearest source pixels */
+	BILINEAR = "bilinear",
+	/** Average every source pixel a target pixel covers, weighted by overlap */
+	BOX = "box",
+}
+
+/**
+ * Packed pixel buffer - 4 bytes (R, G, B, A) per pixel in row-major order
+ */
+export interface RgbaBuffer {
+	/** Width in pixels */
+	width: number;
+	/** Height in pixels */
+	height: number;
+	/** Number of bytes between the starts of two consecutive rows */
+	stride: number;
+	/** Channel data, addressed as `data[y * stride + x * 4 + channel]` */
+	data: Uint8ClampedArray;
+	/** 32-bit view over `data`, one element per pixel (platform byte order) */
+	pixels: Uint32Array;
+}
+
+/**
+ * Any pixel storage accepted by the drawing and mapping functions
+ */
+export type PixelSurface = PixelBuffer | RgbaBuffer;
+
+/**
+ * Depth comparison applied before a depth-tested write
+ */
+export enum DepthTest {
+	/** Pass when the incoming depth is strictly closer than the stored depth */
+	LESS = "less",
+	/** Pass when the incoming depth is closer than or equal to the stored depth */
+	LESS_EQUAL = "less-equal",
+	/** Always pass; depth is still written */
+	ALWAYS = "always",
+}
+
+/**
+ * Per-pixel depth values attached to a pixel buffer (smaller is closer)
+ */
+export interface DepthBuffer {
+	/** Width in pixels */
+	width: number;
+	/** Height in pixels */
+	height: number;
+	/** Depth values in row-major order, one per pixel */
+	data: Float32Array;
+	/** Comparison used by depth-tested drawing */
+	test: DepthTest;
+	/** Value written by clear() (default: Infinity) */
+	clearValue: number;
+}
+
+/**
+ * Options for attaching a depth buffer
+ */
+export interface DepthBufferOptions {
+	/** Comparison used by depth-tested drawing (default: LESS) */
+	test?: DepthTest;
+	/** Value written by clear() (default: Infinity) */
+	clearValue?: number;
+}
+
 /**
  * Symbol definition for mapping pixel patterns
  */
@@ -87,18 +255,263 @@ export interface SymbolDef {
 	height: number;
 }
 
+/**
+ * Position of a sub-pixel within a cell and the pattern bit it sets
+ */
+export interface SubPixel {
+	x: number;
+	y: number;
+	bit: number;
+}
+
+/**
+ * A symbol set: the sub-pixel grid of its cells and the characters for its
+ * patterns. Built-in sets are registered under their SymbolSet names.
+ */
+export interface SymbolSetDefinition {
+	/** Name the set is registered under */
+	name: string;
+	/** Cell width in sub-pixels */
+	width: number;
+	/** Cell height in sub-pixels */
+	height: number;
+	/** Available symbols; other patterns use the symbol with the fewest differing bits */
+	symbols: SymbolDef[];
+	/** Pattern bit of each sub-pixel (default: row-major, bit y * width + x) */
+	layout?: readonly SubPixel[];
+	/** Character for any pattern in O(1), for sets with a glyph for every pattern */
+	lookup?: (pattern: number) => string;
+}
+
+/**
+ * A built-in symbol set or the name of a registered one. The empty object
+ * keeps the union from collapsing to string, so the built-in names are still
+ * suggested.
+ */
+export type SymbolSetName = SymbolSet | (string & {});
+
+/**
+ * Color at a position along a gradient
+ */
+export interface GradientStop {
+	/** Position along the gradient (0-1) */
+	offset: number;
+	color: Color;
+}
+
+/**
+ * Gradient through any number of color stops
+ */
+export interface Gradient {
+	/** Stops in ascending order of offset; equal offsets make a hard edge */
+	stops: readonly GradientStop[];
+	/** Color space to interpolate between stops in (default: SRGB) */
+	space?: ColorSpace;
+}
+
+/**
+ * Built-in colormaps for data visualization
+ */
+export enum Colormap {
+	/** Perceptually uniform blue-green-yellow */
+	VIRIDIS = "viridis",
+	/** Perceptually uniform black-purple-orange-white */
+	MAGMA = "magma",
+	/** High-contrast rainbow from dark blue to dark red */
+	TURBO = "turbo",
+	/** Black to white */
+	GRAYSCALE = "grayscale",
+}
+
+/**
+ * Shape of the ends of thick lines and of their dashes
+ */
+export enum LineCap {
+	/** End at the endpoint pixels */
+	BUTT = "butt",
+	/** Add a half-disc around each end */
+	ROUND = "round",
+	/** Extend each end by half the thickness */
+	SQUARE = "square",
+}
+
+/**
+ * Shape of the corners where thick polyline segments meet
+ */
+export enum LineJoin {
+	/** Extend the outer edges until they meet, up to the miter limit */
+	MITER = "miter",
+	/** Round the corner with a disc */
+	ROUND = "round",
+	/** Cut the corner off straight */
+	BEVEL = "bevel",
+}
+
 /**
  * Line style for line drawing
  */
 export interface LineStyle {
-	/** Pattern of on/off pixels (e.g., [1,1,0,0] for dashed) */
+	/**
+	 * Pattern of on/off pixels (e.g., [1,1,0,0] for dashed). Each entry is
+	 * one pixel of arc length, so dashes keep their length at any angle.
+	 */
 	pattern?: number[];
-	/** Line thickness in pixels */
+	/** Line thickness in pixels, measured perpendicular to the line */
 	thickness?: number;
+	/** Ends of thick lines and dashes; anti-aliased lines are always butt (default: BUTT) */
+	cap?: LineCap;
+	/** Corners of thick polylines and polygons (default: MITER) */
+	join?: LineJoin;
+	/** Longest miter, in multiples of the thickness, before it is beveled (default: 10) */
+	miterLimit?: number;
 	/** Start color for gradient */
 	startColor?: Color;
 	/** End color for gradient */
 	endColor?: Color;
+	/** Multi-stop gradient along the line; takes precedence over startColor/endColor */
+	gradient?: Gradient;
+	/**
+	 * Anti-alias the line. Edge pixels are written with the line color and
+	 * their coverage in the alpha channel, which the mapper blends over the
+	 * cell background (default: false)
+	 */
+	antialias?: boolean;
+}
+
+/**
+ * Triangle vertex in pixel coordinates (pixel centers lie at +0.5)
+ */
+export interface Vertex {
+	x: number;
+	y: number;
+	/** Depth used by depth-tested fills (default: 0) */
+	z?: number;
+}
+
+/**
+ * Per-vertex colors for Gouraud-shaded triangles
+ */
+export type TriangleColors = readonly [Color, Color, Color];
+
+/**
+ * Options for filling triangles
+ */
+export interface TriangleOptions {
+	/** Test and write each pixel against the attached depth buffer (default: false) */
+	depthTest?: boolean;
+}
+
+/**
+ * Rules deciding which points are inside a self-intersecting polygon
+ */
+export enum FillRule {
+	/** Inside where a ray crosses the outline an odd number of times */
+	EVEN_ODD = "evenodd",
+	/** Inside where the outline winds around the point a nonzero number of times */
+	NONZERO = "nonzero",
+}
+
+/**
+ * How drawn colors combine with the pixels already in the buffer.
+ * Blending modes other than REPLACE composite by the drawn color's alpha.
+ */
+export enum BlendMode {
+	/** Overwrite the pixel, alpha included */
+	REPLACE = "replace",
+	/** Alpha-composite the color over the pixel */
+	SOURCE_OVER = "source-over",
+	/** Add channels, saturating at white; overlapping strokes glow */
+	ADD = "add",
+	/** Multiply channels, darkening */
+	MULTIPLY = "multiply",
+	/** Inverse of multiplying the inverted channels, lightening */
+	SCREEN = "screen",
+	/** Keep the larger value of each channel */
+	MAX = "max",
+}
+
+/**
+ * Axis-aligned rectangle in pixel coordinates
+ */
+export interface Rect {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+/**
+ * 2D affine transform, mapping (x, y) to (a*x + c*y + e, b*x + d*y + f)
+ * like the canvas matrix
+ */
+export interface Transform {
+	a: number;
+	b: number;
+	c: number;
+	d: number;
+	e: number;
+	f: number;
+}
+
+/**
+ * Horizontal alignment of text relative to its anchor point
+ */
+export enum TextAlign {
+	/** Lines start at the anchor */
+	LEFT = "left",
+	/** Lines are centered on the anchor */
+	CENTER = "center",
+	/** Lines end at the anchor */
+	RIGHT = "right",
+}
+
+/**
+ * One glyph of a bitmap font
+ */
+export interface BitmapGlyph {
+	/** Bitmap width in pixels */
+	width: number;
+	/** Bitmap height in pixels */
+	height: number;
+	/** Horizontal offset of the bitmap from the pen position */
+	xOffset: number;
+	/** Vertical offset of the bitmap from the top of the line */
+	yOffset: number;
+	/** Pen advance to the next glyph */
+	advance: number;
+	/** Row-major pixels, 1 where the glyph is inked */
+	bitmap: Uint8Array;
+}
+
+/**
+ * A bitmap font, built in or loaded from BDF/PSF
+ */
+export interface BitmapFont {
+	name: string;
+	/** Line height in pixels */
+	height: number;
+	/** Distance from the top of the line to the baseline */
+	ascent: number;
+	/** Glyphs by character */
+	glyphs: Map<string, BitmapGlyph>;
+	/** Character drawn for characters missing from the font */
+	defaultChar?: string;
+}
+
+/**
+ * Options for drawing text into a pixel buffer
+ */
+export interface TextOptions {
+	/** Font (default: the built-in 5x7 font) */
+	font?: BitmapFont;
+	/** Alignment of each line relative to x (default: LEFT) */
+	align?: TextAlign;
+	/** Integer pixel scale factor (default: 1) */
+	scale?: number;
+	/** Extra pixels between lines, before scaling (default: 0) */
+	lineSpacing?: number;
+	/** Only pixels inside this rectangle are drawn */
+	clip?: Rect;
 }
 
 /**
@@ -108,4 +521,10 @@ export const DEFAULT_OPTIONS: Required<RenderOptions> = {
 	symbolSet: SymbolSet.HALF,
 	colorMode: ColorMode.TRUECOLOR,
 	threshold: 128,
+	dither: DitherMode.NONE,
+	fitting: ColorFitting.THRESHOLD,
+	// Same as ASCII_RAMPS.standard
+	ramp: " .,-~+=*#@",
+	invertRamp: false,
+	edges: false,
 };
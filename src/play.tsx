@@ -0,0 +1,77 @@
+import { readFile } from "node:fs/promises";
+import { createCliRenderer } from "@opentui/core";
+import { createRoot, extend, useKeyboard, useRenderer } from "@opentui/react";
+import { GhosttyTerminalRenderable } from "ghostty-opentui/terminal-buffer";
+import { useEffect, useState } from "react";
+import { AsciicastPlayer, parseAsciicast } from "./ascii-render/index";
+
+// Asciicast player: bun run play [file.cast]
+// space: pause/resume, left/right: step, +/-: speed, q: quit
+const path = process.argv[2] ?? "demo.cast";
+const cast = parseAsciicast(await readFile(path, "utf8"));
+const TICK_MS = 1000 / 60;
+
+function Player() {
+	const renderer = useRenderer();
+	const [player] = useState(() => new AsciicastPlayer(cast, { loop: true }));
+	const [output, setOutput] = useState(player.output);
+	const [status, setStatus] = useState("");
+
+	useEffect(() => {
+		const id = setInterval(() => {
+			player.advance(TICK_MS / 1000);
+			setOutput(player.output);
+			setStatus(
+				`${player.paused ? "paused" : "playing"} ${player.time.toFixed(2)}s / ${player.duration.toFixed(2)}s x${player.speed}`,
+			);
+		}, TICK_MS);
+		return () => clearInterval(id);
+	}, [player]);
+
+	useKeyboard((e) => {
+		switch (e.name) {
+			case "space": {
+				player.togglePause();
+				break;
+			}
+			case "left": {
+				player.step(-1);
+				break;
+			}
+			case "right": {
+				player.step(1);
+				break;
+			}
+			case "+": {
+				player.setSpeed(player.speed * 2);
+				break;
+			}
+			case "-": {
+				player.setSpeed(player.speed / 2);
+				break;
+			}
+			case "q": {
+				renderer.destroy();
+				process.exit(0);
+			}
+		}
+	});
+
+	return (
+		<box style={{ flexDirection: "column", backgroundColor: "#000000", height: "100%" }}>
+			<ghostty-terminal ansi={output} cols={cast.header.width} rows={cast.header.height} />
+			<text>{status}</text>
+		</box>
+	);
+}
+
+declare module "@opentui/react" {
+	interface OpenTUIComponents {
+		"ghostty-terminal": typeof GhosttyTerminalRenderable;
+	}
+}
+
+extend({ "ghostty-terminal": GhosttyTerminalRenderable });
+
+const cliRenderer = await createCliRenderer();
+createRoot(cliRenderer).render(<Player />);
@@ -0,0 +1,30 @@
+import { writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { AsciicastRecorder } from "./ascii-render/index";
+import { BUFFER_HEIGHT, BUFFER_WIDTH, FPS, MESH_COUNT, renderFrame } from "./scene";
+
+// Headless demo recorder: bun run record [--mesh 1] [--seconds 4] [--out demo.cast]
+const { values } = parseArgs({
+	options: {
+		mesh: { type: "string", default: "1" },
+		seconds: { type: "string", default: "4" },
+		out: { type: "string", default: "demo.cast" },
+	},
+});
+
+const mesh = Number(values.mesh) % MESH_COUNT;
+const frames = Math.round(Number(values.seconds) * FPS);
+
+// The demo renders braille cells (2x4 pixels each)
+const recorder = new AsciicastRecorder({
+	width: Math.ceil(BUFFER_WIDTH / 2),
+	height: Math.ceil(BUFFER_HEIGHT / 4),
+	title: "mesh3dtui",
+});
+
+for (let frame = 0; frame < frames; frame++) {
+	recorder.record(renderFrame(mesh), frame / FPS);
+}
+
+await writeFile(values.out, recorder.toString());
+console.log(`Recorded ${frames} frames to ${values.out}`);
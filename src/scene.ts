@@ -0,0 +1,200 @@
+import {
+	AsciiRenderer,
+	BufferFormat,
+	ColorMode,
+	DepthTest,
+	hex,
+	type RenderOptions,
+	SymbolSet,
+} from "./ascii-render/index";
+
+export const BUFFER_WIDTH = 80;
+export const BUFFER_HEIGHT = 80;
+export const FPS = 60;
+
+/** Number of demo meshes selectable in renderFrame() */
+export const MESH_COUNT = 3;
+
+/** Camera state shared by the live demo and the recorder */
+export const view = {
+	/** Rotation around the y axis in radians */
+	angle: 0,
+	/** Distance of the mesh from the camera */
+	dz: 1,
+};
+
+type Point2d = {
+	x: number;
+	y: number;
+};
+
+type Point3d = {
+	x: number;
+	y: number;
+	z: number;
+};
+
+const vs = [
+	{ x: 0.25, y: 0.25, z: 0.25 },
+	{ x: -0.25, y: 0.25, z: 0.25 },
+	{ x: -0.25, y: -0.25, z: 0.25 },
+	{ x: 0.25, y: -0.25, z: 0.25 },
+
+	{ x: 0.25, y: 0.25, z: -0.25 },
+	{ x: -0.25, y: 0.25, z: -0.25 },
+	{ x: -0.25, y: -0.25, z: -0.25 },
+	{ x: 0.25, y: -0.25, z: -0.25 },
+];
+
+const fs = [
+	[0, 1, 2, 3],
+	[4, 5, 6, 7],
+	[0, 4],
+	[1, 5],
+	[2, 6],
+	[3, 7],
+];
+
+const sphereRadius = 0.5;
+const sphereSegments = 12;
+const sphereVs: Point3d[] = [];
+for (let lat = 0; lat <= sphereSegments; lat++) {
+	const theta = (lat / sphereSegments) * Math.PI;
+	for (let lon = 0; lon < sphereSegments; lon++) {
+		const phi = (lon / sphereSegments) * 2 * Math.PI;
+		const v = {
+			x: sphereRadius * Math.sin(theta) * Math.cos(phi),
+			y: sphereRadius * Math.cos(theta),
+			z: sphereRadius * Math.sin(theta) * Math.sin(phi),
+		};
+		sphereVs.push(rotate_yz(v, Math.PI / 6));
+	}
+}
+const sphereFs: Array<Array<number>> = [];
+for (let lat = 0; lat < sphereSegments; lat++) {
+	for (let lon = 0; lon < sphereSegments; lon++) {
+		const a = lat * sphereSegments + lon;
+		const b = lat * sphereSegments + ((lon + 1) % sphereSegments);
+		const c = (lat + 1) * sphereSegments + lon;
+		sphereFs.push([a, b]); // latitude
+		sphereFs.push([a, c]); // longitude
+	}
+}
+
+const rend = new AsciiRenderer({
+	symbolSet: SymbolSet.BRAILLE,
+	colorMode: ColorMode.TRUECOLOR,
+	threshold: 128,
+});
+const buffer = rend.createBuffer(BUFFER_WIDTH, BUFFER_HEIGHT, undefined, BufferFormat.RGBA);
+rend.attachDepthBuffer(buffer, { test: DepthTest.LESS_EQUAL });
+
+/**
+ * Change how frames are rendered, e.g. to suit the terminal
+ */
+export function setRenderOptions(options: Partial<RenderOptions>): void {
+	rend.setOptions(options);
+}
+
+function point({ x, y }: Point2d) {
+	const s = 2;
+	rend.drawRect(buffer, x - s / 2, y - s / 2, s, s, hex("#50FF00"), true);
+}
+
+function line(a: Point3d, b: Point3d) {
+	const p1 = screen(project(a));
+	const p2 = screen(project(b));
+	// -1/z is linear in screen space, unlike z itself
+	const z1 = -1 / a.z;
+	const z2 = -1 / b.z;
+	rend.drawLineDepth(buffer, p1.x, p1.y, z1, p2.x, p2.y, z2, hex("#50FF00"), { antialias: true });
+}
+
+function screen(p: Point2d): Point2d {
+	// -1..1 -> 0..2 -> 0..1 -> 0..h
+	return {
+		x: ((p.x + 1) / 2) * BUFFER_WIDTH,
+		y: (1 - (p.y + 1) / 2) * BUFFER_HEIGHT,
+	};
+}
+
+function project({ x, y, z }: Point3d): Point2d {
+	return {
+		x: x / z,
+		y: y / z,
+	};
+}
+
+function translate_z({ x, y, z }: Point3d, dz: number): Point3d {
+	return { x, y, z: z + dz };
+}
+
+function rotate_yz({ x, y, z }: Point3d, angle: number) {
+	const c = Math.cos(angle);
+	const s = Math.sin(angle);
+	return {
+		x,
+		y: y * c - z * s,
+		z: y * s + z * c,
+	};
+}
+
+function rotate_xz({ x, y, z }: Point3d, angle: number) {
+	const c = Math.cos(angle);
+	const s = Math.sin(angle);
+	return {
+		x: x * c - z * s,
+		y,
+		z: x * s + z * c,
+	};
+}
+
+function drawCube() {
+	for (const f of fs) {
+		for (let i = 0; i < f.length; ++i) {
+			const a = vs[f[i] as number] ?? { x: 0, y: 0, z: 0 };
+			const b = vs[f[(i + 1) % f.length] as number] ?? { x: 0, y: 0, z: 0 };
+			line(
+				translate_z(rotate_xz(a, view.angle), view.dz),
+				translate_z(rotate_xz(b, view.angle), view.dz),
+			);
+		}
+	}
+}
+
+function drawSphere() {
+	for (const f of sphereFs) {
+		for (let i = 0; i < f.length; ++i) {
+			const a = sphereVs[f[i] as number] ?? { x: 0, y: 0, z: 0 };
+			const b = sphereVs[f[(i + 1) % f.length] as number] ?? { x: 0, y: 0, z: 0 };
+			line(
+				translate_z(rotate_xz(a, view.angle), view.dz),
+				translate_z(rotate_xz(b, view.angle), view.dz),
+			);
+		}
+	}
+}
+
+/**
+ * Advance the animation by one frame and render the selected mesh
+ * @param mesh 0 = point, 1 = cube, 2 = sphere
+ */
+export function renderFrame(mesh: number): string {
+	view.angle += Math.PI / FPS;
+
+	rend.clear(buffer, hex("#1a1a1a"));
+
+	switch (mesh) {
+		case 0:
+			point(screen(project(translate_z(rotate_xz({ x: 0.5, y: 0, z: 0 }, view.angle), view.dz))));
+			break;
+		case 1:
+			drawCube();
+			break;
+		case 2:
+			drawSphere();
+			break;
+	}
+
+	return rend.render(buffer);
+}